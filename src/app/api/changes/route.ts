@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { loadDatasetVersions } from '@/utils/dataLoader'
+import { diffDatasets, diffToChangelog, parseDiffQuery } from '@/utils/datasetDiff'
+
+// GET /api/changes?from=&to= - changelog between two dataset versions: snapshot names or "current"
+export async function GET(request: NextRequest) {
+  const versions = await loadDatasetVersions()
+  const parsed = parseDiffQuery(request.nextUrl.searchParams, versions.map(version => version.version))
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: versions.length < 2 ? 404 : 400 })
+  }
+
+  const { from, to } = parsed.query
+  const diff = diffDatasets(
+    versions.find(version => version.version === from)!.data,
+    versions.find(version => version.version === to)!.data,
+    { from, to }
+  )
+
+  return new NextResponse(diffToChangelog(diff), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' }
+  })
+}
@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { loadUniversities } from '@/utils/dataLoader'
+import { buildDeadlineDigest, DIGEST_FORMATS, parseDigestQuery, renderDigest, selectShortlisted } from '@/utils/digest'
+import { filterUniversities } from '@/utils/universityQuery'
+
+// GET /api/digest?format=markdown|email|rss|atom&date=&shortlist=&title=&expiredDays=
+//   plus any /api/universities filter, e.g. &country=Germany&funding=full
+export async function GET(request: NextRequest) {
+  const parsed = parseDigestQuery(request.nextUrl.searchParams)
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  const { universities, report } = await loadUniversities()
+  if (universities.length === 0 && report.errors.length > 0) {
+    return NextResponse.json({ error: 'University data could not be loaded', report }, { status: 503 })
+  }
+
+  const { criteria, shortlist, format, options } = parsed.query
+  const digest = buildDeadlineDigest(selectShortlisted(filterUniversities(universities, criteria), shortlist), options)
+  const body = renderDigest(digest, format, {
+    siteUrl: request.nextUrl.origin,
+    feedUrl: request.nextUrl.href
+  })
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': DIGEST_FORMATS[format].mimeType,
+      // Counted from the current day, so pollers should not keep it for long
+      'Cache-Control': 'no-store'
+    }
+  })
+}
@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { loadUniversities } from '@/utils/dataLoader'
+
+// GET /api/universities/:rank
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ rank: string }> }) {
+  const { rank: rankParam } = await params
+  const rank = Number(rankParam)
+  if (!Number.isInteger(rank) || rank < 1) {
+    return NextResponse.json({ error: `"${rankParam}" is not a valid rank` }, { status: 400 })
+  }
+
+  const { universities, report } = await loadUniversities()
+  if (universities.length === 0 && report.errors.length > 0) {
+    return NextResponse.json({ error: 'University data could not be loaded', report }, { status: 503 })
+  }
+
+  const university = universities.find(uni => uni.rank === rank)
+  if (!university) {
+    return NextResponse.json({ error: `University #${rank} not found` }, { status: 404 })
+  }
+
+  return NextResponse.json({ university })
+}
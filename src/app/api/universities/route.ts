@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { loadUniversities } from '@/utils/dataLoader'
+import { filterUniversities, paginate, parseUniversityQuery, sortUniversities } from '@/utils/universityQuery'
+
+// GET /api/universities?q=&country=&rankMin=&rankMax=&rankingMax=&acceptanceMin=&acceptanceMax=&funding=&stipendMin=&stipendCurrency=
+//   &gre=&ieltsMax=&toeflMax=&degree=&language=&deadline=&sort=&order=&rankingSystem=&page=&pageSize=
+export async function GET(request: NextRequest) {
+  const parsed = parseUniversityQuery(request.nextUrl.searchParams)
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  const { universities, metadata, report } = await loadUniversities()
+  if (universities.length === 0 && report.errors.length > 0) {
+    return NextResponse.json({ error: 'University data could not be loaded', report }, { status: 503 })
+  }
+
+  const { criteria, sort, rankingSystem, page, pageSize } = parsed.query
+  const matched = sortUniversities(filterUniversities(universities, criteria), sort, rankingSystem)
+
+  return NextResponse.json({
+    universities: paginate(matched, page, pageSize),
+    total: universities.length,
+    matched: matched.length,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(matched.length / pageSize)),
+    metadata
+  })
+}
@@ -0,0 +1,57 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import ChangesView from '@/components/ChangesView'
+import { loadDatasetVersions } from '@/utils/dataLoader'
+import { diffDatasets, parseDiffQuery } from '@/utils/datasetDiff'
+
+export const metadata: Metadata = {
+  title: 'What changed · My University List'
+}
+
+interface ChangesPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function ChangesPage({ searchParams }: ChangesPageProps) {
+  const params = new URLSearchParams()
+  Object.entries(await searchParams).forEach(([name, value]) => {
+    if (typeof value === 'string') params.set(name, value)
+  })
+
+  const versions = await loadDatasetVersions()
+  const names = versions.map(version => version.version)
+  // An unknown version in the URL falls back to the default comparison, with the error shown above it
+  const parsed = parseDiffQuery(params, names)
+  const resolved = 'error' in parsed ? parseDiffQuery(new URLSearchParams(), names) : parsed
+  const query = 'query' in resolved ? resolved.query : null
+
+  const diff = query && diffDatasets(
+    versions.find(version => version.version === query.from)!.data,
+    versions.find(version => version.version === query.to)!.data,
+    query
+  )
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-indigo-50">
+      <header className="bg-white/80 backdrop-blur-sm shadow-lg border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Link href="/" className="text-sm text-blue-600 hover:text-blue-800">← Back to the university list</Link>
+          <h1 className="mt-3 text-4xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+            🆕 What Changed
+          </h1>
+          <p className="mt-3 text-lg text-gray-700 max-w-2xl">
+            Universities added and removed, and every field that changed between two versions of the dataset
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <ChangesView
+          versions={versions.map(({ version, data }) => ({ version, generatedOn: data.generatedOn }))}
+          diff={diff}
+          error={'error' in parsed ? parsed.error : undefined}
+        />
+      </main>
+    </div>
+  )
+}
@@ -1,28 +1,29 @@
-import { promises as fs } from 'fs'
-import path from 'path'
+import Link from 'next/link'
 import UniversityFinder from '@/components/UniversityFinder'
-import { parseUniversityData, type ParsedUniversity, type AppMetadata } from '@/utils/dataParser'
+import { loadUniversities, type LoadedUniversities } from '@/utils/dataLoader'
+import { createFatalReport } from '@/utils/dataValidator'
 
 // Server-side data fetching using App Router
-async function getUniversitiesData(): Promise<{ universities: ParsedUniversity[], metadata: AppMetadata }> {
+async function getUniversitiesData(): Promise<LoadedUniversities> {
   try {
-    const jsonPath = path.join(process.cwd(), 'src', 'data', 'university_programs.json')
-    const fileContents = await fs.readFile(jsonPath, 'utf8')
-    const rawData = JSON.parse(fileContents)
+    // Every dataset in src/data is validated, converted if needed and merged
+    const { universities, metadata, report } = await loadUniversities()
     
-    // Parse and clean the data using our data parser
-    const { universities, metadata } = parseUniversityData(rawData)
-    
-    console.log(`Loaded and parsed ${universities.length} universities`)
-    return { universities, metadata }
+    console.log(`Loaded and merged ${universities.length} universities from ${metadata.sources?.length || 0} datasets (${report.errors.length} errors, ${report.warnings.length} warnings)`)
+    return { universities, metadata, report }
   } catch (error) {
     console.error('Error loading universities data:', error)
-    return { universities: [], metadata: { generatedOn: '', rankingNote: '' } }
+    const message = error instanceof Error ? error.message : String(error)
+    return {
+      universities: [],
+      metadata: { generatedOn: '', rankingNote: '' },
+      report: createFatalReport('', `Could not load university data: ${message}`)
+    }
   }
 }
 
 export default async function HomePage() {
-  const { universities, metadata } = await getUniversitiesData()
+  const { universities, metadata, report } = await getUniversitiesData()
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-indigo-50">
@@ -48,11 +49,25 @@ export default async function HomePage() {
                 <span className="bg-gradient-to-r from-purple-100 to-violet-100 text-purple-800 px-3 py-1.5 rounded-full font-medium">
                   💰 Funding Info
                 </span>
+                {metadata.sources && metadata.sources.length > 1 && (
+                  <span
+                    className="bg-gradient-to-r from-amber-100 to-yellow-100 text-amber-800 px-3 py-1.5 rounded-full font-medium"
+                    title={metadata.sources.join(', ')}
+                  >
+                    🗂️ {metadata.sources.length} Datasets
+                  </span>
+                )}
                 {metadata.generatedOn && (
                   <span className="bg-gradient-to-r from-gray-100 to-slate-100 text-gray-700 px-3 py-1.5 rounded-full font-medium">
                     📅 Updated {metadata.generatedOn}
                   </span>
                 )}
+                <Link
+                  href="/changes"
+                  className="bg-gradient-to-r from-sky-100 to-cyan-100 text-sky-800 px-3 py-1.5 rounded-full font-medium hover:from-sky-200 hover:to-cyan-200"
+                >
+                  🆕 What changed
+                </Link>
               </div>
             </div>
             <div className="hidden lg:block">
@@ -88,7 +103,7 @@ export default async function HomePage() {
 
       {/* Main Content */}
       <main className="w-full px-4 sm:px-6 lg:px-8 py-12">
-        <UniversityFinder universities={universities} metadata={metadata} />
+        <UniversityFinder universities={universities} metadata={metadata} report={report} />
       </main>
 
       {/* Footer */}
@@ -0,0 +1,211 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { DIFF_FIELD_LABELS, summarizeDiff, type DatasetDiff, type DiffField, type DiffUniversity, type FieldChange, type RankChange } from '@/utils/datasetDiff'
+
+interface ChangesViewProps {
+  // Versions that can be compared, oldest first, with their `generatedOn`
+  versions: Array<{ version: string; generatedOn: string }>
+  // Null when there is nothing to compare
+  diff: DatasetDiff | null
+  error?: string
+}
+
+const KIND_STYLES: Record<FieldChange['kind'], { icon: string; className: string }> = {
+  added: { icon: '➕', className: 'text-green-700' },
+  removed: { icon: '➖', className: 'text-red-700' },
+  changed: { icon: '✏️', className: 'text-gray-800' }
+}
+
+// Universities listed per group before "Show all"
+const PREVIEW_LIMIT = 20
+
+function versionLabel({ version, generatedOn }: { version: string; generatedOn: string }): string {
+  return generatedOn && generatedOn !== version ? `${version} (${generatedOn})` : version
+}
+
+function UniversityList({ title, universities, tone }: { title: string; universities: DiffUniversity[]; tone: 'added' | 'removed' }) {
+  if (universities.length === 0) return null
+  return (
+    <div className={`rounded-xl border p-4 ${tone === 'added' ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+      <h3 className={`font-semibold mb-2 ${tone === 'added' ? 'text-green-800' : 'text-red-800'}`}>
+        {title} ({universities.length})
+      </h3>
+      <ul className="text-sm space-y-1">
+        {universities.map(university => (
+          <li key={university.key}>
+            <span className="font-medium text-gray-900">{university.universityName}</span>
+            <span className="text-gray-500"> · {university.cityCountry}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function MovedList({ universities }: { universities: RankChange[] }) {
+  if (universities.length === 0) return null
+  return (
+    <div className="rounded-xl border p-4 bg-blue-50 border-blue-200">
+      <h3 className="font-semibold mb-2 text-blue-800">↕️ Moved ({universities.length})</h3>
+      <ul className="text-sm space-y-1">
+        {universities.map(university => (
+          <li key={university.key}>
+            <span className="font-medium text-gray-900">{university.universityName}</span>
+            <span className="text-gray-500"> · #{university.previousRank} → #{university.rank}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default function ChangesView({ versions, diff, error }: ChangesViewProps) {
+  const [field, setField] = useState<DiffField | null>(null)
+  const [showAll, setShowAll] = useState(false)
+
+  // Fields that changed anywhere, with how often, for the field filter
+  const fieldCounts = useMemo(() => {
+    const counts = new Map<DiffField, number>()
+    diff?.changed.forEach(university => university.changes.forEach(change => {
+      counts.set(change.field, (counts.get(change.field) ?? 0) + 1)
+    }))
+    return Array.from(counts).sort((a, b) => b[1] - a[1])
+  }, [diff])
+
+  const changed = useMemo(() => (diff?.changed ?? [])
+    .map(university => ({ ...university, changes: university.changes.filter(change => !field || change.field === field) }))
+    .filter(university => university.changes.length > 0), [diff, field])
+
+  if (!diff) {
+    return (
+      <div className="text-center py-16 bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="text-gray-500 space-y-4">
+          <div className="text-5xl">🗂️</div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Nothing to compare yet</h3>
+            <p className="mt-2 text-gray-600 max-w-lg mx-auto">
+              {error || 'Save a copy of the dataset before regenerating it'}: export the table as JSON and put the file in{' '}
+              <code className="px-1 bg-gray-100 rounded">src/data/snapshots/</code>, e.g. as{' '}
+              <code className="px-1 bg-gray-100 rounded">2025-07-31.json</code>.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const shown = showAll ? changed : changed.slice(0, PREVIEW_LIMIT)
+  const changelogQuery = new URLSearchParams({ from: diff.from.version, to: diff.to.version }).toString()
+
+  return (
+    <div className="space-y-6">
+      {/* Version picker */}
+      <form method="get" className="flex flex-wrap items-end gap-3 bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1 font-medium">From</span>
+          <select name="from" defaultValue={diff.from.version} className="px-3 py-2 border border-gray-300 rounded-lg">
+            {versions.map(version => <option key={version.version} value={version.version}>{versionLabel(version)}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1 font-medium">To</span>
+          <select name="to" defaultValue={diff.to.version} className="px-3 py-2 border border-gray-300 rounded-lg">
+            {versions.map(version => <option key={version.version} value={version.version}>{versionLabel(version)}</option>)}
+          </select>
+        </label>
+        <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          Compare
+        </button>
+        <a
+          href={`/api/changes?${changelogQuery}`}
+          className="ml-auto px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          download={`changelog-${diff.from.version}-${diff.to.version}.json`}
+        >
+          📥 Changelog (JSON)
+        </a>
+      </form>
+
+      {error && (
+        <div className="text-sm px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-red-800">{error}</div>
+      )}
+
+      {/* Overview */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold text-gray-900">
+          {versionLabel(diff.from)} → {versionLabel(diff.to)}:
+        </span>
+        <span className="text-gray-700">{summarizeDiff(diff)}</span>
+        <span className="text-gray-500">· {diff.unchanged} unchanged</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <UniversityList title="🆕 Added" universities={diff.added} tone="added" />
+        <UniversityList title="🗑️ Removed" universities={diff.removed} tone="removed" />
+      </div>
+
+      {/* Ranks renumbered around added and removed universities are not moves */}
+      <MovedList universities={diff.moved} />
+
+      {/* Field filter */}
+      {fieldCounts.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs" role="group" aria-label="Changed field">
+          <button
+            onClick={() => setField(null)}
+            className={`px-2 py-1 rounded-full border ${field === null ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-200'}`}
+          >
+            All fields
+          </button>
+          {fieldCounts.map(([name, count]) => (
+            <button
+              key={name}
+              onClick={() => setField(name)}
+              className={`px-2 py-1 rounded-full border ${field === name ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-200'}`}
+            >
+              {DIFF_FIELD_LABELS[name]} ({count})
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Field-level changes */}
+      {changed.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 divide-y divide-gray-100">
+          {shown.map(university => (
+            <div key={university.key} className="p-4">
+              <div className="flex items-baseline justify-between gap-2">
+                <h3 className="font-semibold text-gray-900">
+                  {university.universityName}
+                  <span className="ml-2 text-sm font-normal text-gray-500">{university.cityCountry}</span>
+                </h3>
+                <span className="text-xs text-gray-500">#{university.rank}</span>
+              </div>
+              <ul className="mt-2 space-y-1 text-sm">
+                {university.changes.map((change, index) => (
+                  <li key={index} className={KIND_STYLES[change.kind].className}>
+                    <span className="mr-2" aria-hidden="true">{KIND_STYLES[change.kind].icon}</span>
+                    {change.field === 'acceptanceCriteria' && change.kind === 'changed' ? (
+                      <details className="inline">
+                        <summary className="inline cursor-pointer">{change.summary}</summary>
+                        <div className="mt-1 ml-6 text-xs space-y-1">
+                          <div className="text-red-700 line-through">{change.before}</div>
+                          <div className="text-green-700">{change.after}</div>
+                        </div>
+                      </details>
+                    ) : change.summary}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {changed.length > PREVIEW_LIMIT && (
+        <button onClick={() => setShowAll(!showAll)} className="text-sm text-blue-600 hover:text-blue-800 underline">
+          {showAll ? 'Show less' : `Show ${changed.length - PREVIEW_LIMIT} more universities`}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { ParsedUniversity } from '@/utils/dataParser'
+import { UNIVERSITY_COLUMNS } from '@/utils/universityQuery'
+import { BEST_VALUE_RULES, findBestValues, MAX_COMPARE, MIN_COMPARE } from '@/utils/comparison'
+import { universityKey } from '@/utils/datasetMerger'
+import FormattedCell from './FormattedCell'
+import { COLUMN_CONFIG } from './DataTable'
+
+interface ComparisonViewProps {
+  // The selected universities, in selection order
+  universities: ParsedUniversity[]
+  // Query string that reopens this comparison
+  shareQuery: string
+  // Currency scholarship amounts are converted to
+  currency: string
+  onRemove: (key: string) => void
+  onClear: () => void
+}
+
+export default function ComparisonView({ universities, shareQuery, currency, onRemove, onClear }: ComparisonViewProps) {
+  const [copied, setCopied] = useState(false)
+  const bestValues = useMemo(() => findBestValues(universities), [universities])
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}?${shareQuery}`)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Could not copy link:', error)
+    }
+  }
+
+  if (universities.length < MIN_COMPARE) {
+    return (
+      <div className="text-center py-16 bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="text-gray-500 space-y-4">
+          <div className="text-5xl">⚖️</div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Pick universities to compare</h3>
+            <p className="mt-2 text-gray-600 max-w-md mx-auto">
+              Tick the ⚖️ checkbox on {MIN_COMPARE}–{MAX_COMPARE} rows in the Data Table.
+              {universities.length === 1 && ` ${universities[0].universityName} is selected so far.`}
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">⚖️ Comparing {universities.length} universities</h3>
+          <p className="text-sm text-gray-600 mt-1">🏆 marks the best value in each row</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={copyLink}
+            className="px-3 py-2 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors duration-150"
+          >
+            {copied ? '✅ Link copied' : '🔗 Copy link'}
+          </button>
+          <button
+            onClick={onClear}
+            className="px-3 py-2 text-sm bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 transition-colors duration-150"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full overflow-x-auto">
+        <table className="w-full min-w-[900px] table-fixed divide-y divide-gray-200" aria-label="University comparison">
+          <colgroup>
+            <col className="w-48" />
+            {universities.map(university => (
+              <col key={universityKey(university)} />
+            ))}
+          </colgroup>
+          <thead className="bg-gradient-to-r from-gray-50 to-gray-100">
+            <tr>
+              <th className="px-4 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Field</th>
+              {universities.map(university => (
+                <th key={universityKey(university)} className="px-4 py-4 text-left align-top">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-sm font-semibold text-gray-900">{university.universityName}</span>
+                    <button
+                      onClick={() => onRemove(universityKey(university))}
+                      className="text-gray-400 hover:text-gray-600"
+                      aria-label={`Remove ${university.universityName} from comparison`}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-100">
+            {UNIVERSITY_COLUMNS.map(column => (
+              <tr key={column} className="align-top">
+                <th scope="row" className="px-4 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider bg-gray-50">
+                  {COLUMN_CONFIG[column].displayName}
+                  {BEST_VALUE_RULES[column] && (
+                    <div className="mt-1 text-[11px] font-normal normal-case tracking-normal text-gray-500">
+                      🏆 {BEST_VALUE_RULES[column].label}
+                    </div>
+                  )}
+                </th>
+                {universities.map((university, index) => {
+                  const isBest = bestValues[column]?.has(index)
+                  return (
+                    <td
+                      key={universityKey(university)}
+                      className={`px-4 py-4 ${isBest ? 'bg-green-50 ring-1 ring-inset ring-green-200' : ''}`}
+                    >
+                      {isBest && (
+                        <span className="inline-block mb-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          🏆 Best
+                        </span>
+                      )}
+                      <FormattedCell column={column} value={university[column]} currency={currency} requirements={university.requirements} />
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -1,30 +1,58 @@
 'use client'
 
-import { useState, useMemo, useCallback, useRef, useEffect } from 'react'
-import type { ParsedUniversity } from '@/utils/dataParser'
-import FormattedCell from './FormattedCell'
+import { Fragment, useState, useMemo, useCallback, useRef } from 'react'
+import type { AppMetadata, ParsedUniversity, Program } from '@/utils/dataParser'
+import { sortUniversities, paginate, RELEVANCE_SORT, UNIVERSITY_COLUMNS, type UniversityColumn } from '@/utils/universityQuery'
+import type { TableState } from '@/utils/urlState'
+import { shortlistKey, type Shortlist } from '@/utils/shortlist'
+import { MAX_COMPARE } from '@/utils/comparison'
+import { universityKey } from '@/utils/datasetMerger'
+import { COMPOSITE_RANKING, extractRankingSystems } from '@/utils/rankings'
+import { FIT_FACTOR_LABELS, type FitResult } from '@/utils/fitScore'
+import { ELIGIBILITY_LABELS, type EligibilityResult, type EligibilityStatus } from '@/utils/eligibility'
+import { isVerifiableField, type RecordFreshness } from '@/utils/freshness'
+import { getProvenance, isCitedField } from '@/utils/provenance'
+import FormattedCell, { ProgramDetails } from './FormattedCell'
+import ExportMenu from './ExportMenu'
+import SourceDrawer from './SourceDrawer'
 
 interface DataTableProps {
   universities: ParsedUniversity[]
   searchTerm: string
+  // Currency scholarship amounts are converted to
+  currency: string
+  // Dataset details written into JSON exports
+  metadata: AppMetadata
+  // Sorting, paging and column visibility are owned by the parent so they can live in the URL
+  tableState: TableState
+  onTableStateChange: (state: TableState) => void
+  // Adds a star column when given
+  shortlist?: Shortlist
+  onToggleShortlist?: (university: ParsedUniversity) => void
+  // Adds a compare checkbox column when given; holds `universityKey`s
+  comparison?: string[]
+  onToggleCompare?: (university: ParsedUniversity) => void
+  // Adds a sortable fit score column when given
+  fitScores?: Map<ParsedUniversity, FitResult>
+  // Adds an eligibility column when given
+  eligibility?: Map<ParsedUniversity, EligibilityResult>
+  // Programs meeting the program-level filters, when any are set
+  matchingPrograms?: Map<ParsedUniversity, Program[]>
+  // Flags stale and unverified cells when given
+  freshness?: Map<ParsedUniversity, RecordFreshness>
 }
 
-type SortDirection = 'asc' | 'desc' | null
-type SortableColumn = keyof ParsedUniversity
-
-interface SortConfig {
-  column: SortableColumn
-  direction: SortDirection
-}
+type TableColumn = UniversityColumn
+type SortableColumn = TableColumn | 'fit'
 
 const ITEMS_PER_PAGE = 25
 
 // Column configuration for better display names and widths - optimized for full browser width
-const COLUMN_CONFIG: Record<keyof ParsedUniversity, { displayName: string; width: string; minWidth: string; priority: number }> = {
+export const COLUMN_CONFIG: Record<TableColumn, { displayName: string; width: string; minWidth: string; priority: number }> = {
   'rank': { displayName: 'Rank', width: 'w-16', minWidth: 'min-w-16', priority: 1 },
   'universityName': { displayName: 'University', width: 'w-72', minWidth: 'min-w-72', priority: 1 },
   'cityCountry': { displayName: 'Location', width: 'w-56', minWidth: 'min-w-56', priority: 2 },
-  'ranking': { displayName: 'Global Ranking', width: 'w-48', minWidth: 'min-w-48', priority: 3 },
+  'ranking': { displayName: 'Rankings', width: 'w-48', minWidth: 'min-w-48', priority: 3 },
   'programs': { displayName: 'Programs', width: 'w-80', minWidth: 'min-w-80', priority: 2 },
   'programStart': { displayName: 'Start Date', width: 'w-32', minWidth: 'min-w-32', priority: 4 },
   'appDeadline': { displayName: 'Application Deadline', width: 'w-56', minWidth: 'min-w-56', priority: 2 },
@@ -37,96 +65,206 @@ const COLUMN_CONFIG: Record<keyof ParsedUniversity, { displayName: string; width
   'citations': { displayName: 'Citations', width: 'w-64', minWidth: 'min-w-64', priority: 5 }
 }
 
-export default function DataTable({ universities, searchTerm }: DataTableProps) {
-  const [sortConfig, setSortConfig] = useState<SortConfig>({ column: 'rank', direction: 'asc' })
-  const [currentPage, setCurrentPage] = useState(1)
-  const [focusedCell, setFocusedCell] = useState<{ row: number; col: number } | null>(null)
-  const [visibleColumns, setVisibleColumns] = useState<Set<keyof ParsedUniversity>>(
-    new Set(Object.keys(COLUMN_CONFIG) as (keyof ParsedUniversity)[])
+function StarButton({ universityName, isStarred, onToggle }: {
+  universityName: string
+  isStarred: boolean
+  onToggle: () => void
+}) {
+  return (
+    <button
+      onClick={onToggle}
+      className={`text-xl leading-none transition-colors ${
+        isStarred ? 'text-yellow-500 hover:text-yellow-600' : 'text-gray-300 hover:text-yellow-400'
+      }`}
+      aria-pressed={isStarred}
+      aria-label={isStarred ? `Remove ${universityName} from my list` : `Add ${universityName} to my list`}
+      title={isStarred ? 'Remove from my list' : 'Add to my list'}
+    >
+      {isStarred ? '★' : '☆'}
+    </button>
   )
-  const [isCompactView, setIsCompactView] = useState(false)
-  const tableRef = useRef<HTMLTableElement>(null)
+}
 
-  // Reset to first page when universities data changes
-  useEffect(() => {
-    setCurrentPage(1)
-  }, [universities])
+function CompareCheckbox({ universityName, isSelected, isDisabled, onToggle }: {
+  universityName: string
+  isSelected: boolean
+  // The comparison is full; selected rows can still be unchecked
+  isDisabled: boolean
+  onToggle: () => void
+}) {
+  return (
+    <input
+      type="checkbox"
+      checked={isSelected}
+      disabled={isDisabled && !isSelected}
+      onChange={onToggle}
+      className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-40 cursor-pointer disabled:cursor-not-allowed"
+      aria-label={`Compare ${universityName}`}
+      title={isDisabled && !isSelected ? `You can compare up to ${MAX_COMPARE} universities` : 'Compare'}
+    />
+  )
+}
 
-  // Sort universities based on current sort configuration
-  const sortedUniversities = useMemo(() => {
-    if (!sortConfig.direction) return universities
-
-    return [...universities].sort((a, b) => {
-      const aValue = a[sortConfig.column]
-      const bValue = b[sortConfig.column]
-
-      // Handle numeric sorting for rank
-      if (sortConfig.column === 'rank') {
-        const aNum = typeof aValue === 'number' ? aValue : parseInt(String(aValue)) || 0
-        const bNum = typeof bValue === 'number' ? bValue : parseInt(String(bValue)) || 0
-        return sortConfig.direction === 'asc' ? aNum - bNum : bNum - aNum
-      }
+function FitScoreCell({ fit }: { fit: FitResult | undefined }) {
+  if (!fit || isNaN(fit.score)) {
+    return <span className="text-gray-400 text-sm" title="Nothing in your profile or the data to score this university on">—</span>
+  }
 
-      // Handle acceptance rate sorting
-      if (sortConfig.column === 'acceptanceRate') {
-        const aAcceptanceRate = aValue as ParsedUniversity['acceptanceRate']
-        const bAcceptanceRate = bValue as ParsedUniversity['acceptanceRate']
-        const aRate = aAcceptanceRate?.value || 999
-        const bRate = bAcceptanceRate?.value || 999
-        return sortConfig.direction === 'asc' ? aRate - bRate : bRate - aRate
-      }
+  const color = fit.score >= 70
+    ? 'bg-green-100 text-green-800'
+    : fit.score >= 40 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'
+  const counted = fit.factors.filter(factor => factor.weight > 0 && factor.score !== null)
+  const totalWeight = counted.reduce((sum, factor) => sum + factor.weight, 0)
 
-      // Handle ranking sorting
-      if (sortConfig.column === 'ranking') {
-        const aRanking = aValue as ParsedUniversity['ranking']
-        const bRanking = bValue as ParsedUniversity['ranking']
-        const aRank = aRanking?.value || 999
-        const bRank = bRanking?.value || 999
-        return sortConfig.direction === 'asc' ? aRank - bRank : bRank - aRank
-      }
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer list-none">
+        <span className={`inline-flex items-center px-2 py-1 rounded-full font-semibold ${color}`}>{fit.score}</span>
+        <span className="ml-2 text-xs text-blue-600 hover:underline">Why?</span>
+      </summary>
+      <ul className="mt-2 space-y-1 text-xs text-gray-700 w-64">
+        {fit.factors.map(factor => {
+          const isCounted = factor.weight > 0 && factor.score !== null
+          return (
+            <li key={factor.factor} className={isCounted ? '' : 'text-gray-400'}>
+              <span className="font-medium">{FIT_FACTOR_LABELS[factor.factor]}</span>
+              {isCounted
+                ? ` ${Math.round((factor.score as number) * 100)}% × ${Math.round(factor.weight / totalWeight * 100)}% weight`
+                : factor.weight === 0 ? ' (weight 0, ignored)' : ' (not scored)'}
+              <div className="text-gray-500">{factor.explanation}</div>
+            </li>
+          )
+        })}
+      </ul>
+    </details>
+  )
+}
 
-      // Handle object-based columns
-      let aStr = '', bStr = ''
-      if (typeof aValue === 'object' && aValue !== null) {
-        if ('text' in aValue) aStr = String(aValue.text || '').toLowerCase()
-        else if ('date' in aValue) aStr = String(aValue.date || '').toLowerCase()
-        else if ('contact' in aValue) aStr = String(aValue.contact || '').toLowerCase()
-        else aStr = String(aValue).toLowerCase()
-      } else {
-        aStr = String(aValue || '').toLowerCase()
-      }
+const ELIGIBILITY_BADGES: Record<EligibilityStatus, { icon: string; className: string }> = {
+  'eligible': { icon: '✅', className: 'bg-green-100 text-green-800' },
+  'borderline': { icon: '⚠️', className: 'bg-yellow-100 text-yellow-800' },
+  'not-eligible': { icon: '⛔', className: 'bg-red-100 text-red-800' },
+  'unknown': { icon: '❔', className: 'bg-gray-100 text-gray-600' }
+}
+
+function EligibilityCell({ result }: { result: EligibilityResult | undefined }) {
+  if (!result) return null
+  const badge = ELIGIBILITY_BADGES[result.status]
+
+  return (
+    <div className="space-y-1 w-56">
+      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold ${badge.className}`}>
+        {badge.icon} {ELIGIBILITY_LABELS[result.status]}
+      </span>
+      {result.checks.length > 0 ? (
+        <ul className="text-xs text-gray-600 space-y-0.5">
+          {result.checks.map(check => (
+            <li key={check.requirement} className={check.outcome === 'unmet' ? 'text-red-700' : check.outcome === 'borderline' ? 'text-yellow-700' : ''}>
+              {check.reason}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-xs text-gray-400">No GPA, test or GRE requirements stated</div>
+      )}
+    </div>
+  )
+}
+
+export default function DataTable({
+  universities,
+  searchTerm,
+  currency,
+  metadata,
+  tableState,
+  onTableStateChange,
+  shortlist,
+  onToggleShortlist,
+  comparison = [],
+  onToggleCompare,
+  fitScores,
+  eligibility,
+  matchingPrograms,
+  freshness
+}: DataTableProps) {
+  const { sortConfig, rankingSystem } = tableState
+  const [focusedCell, setFocusedCell] = useState<{ row: number; col: number } | null>(null)
+  const [isCompactView, setIsCompactView] = useState(false)
+  // `universityKey`s of the rows showing one sub-row per program
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  // University whose sources are shown in the drawer
+  const [sourcesFor, setSourcesFor] = useState<ParsedUniversity | null>(null)
+  const [highlightUncited, setHighlightUncited] = useState(true)
+  const closeSources = useCallback(() => setSourcesFor(null), [])
 
-      if (typeof bValue === 'object' && bValue !== null) {
-        if ('text' in bValue) bStr = String(bValue.text || '').toLowerCase()
-        else if ('date' in bValue) bStr = String(bValue.date || '').toLowerCase()
-        else if ('contact' in bValue) bStr = String(bValue.contact || '').toLowerCase()
-        else bStr = String(bValue).toLowerCase()
+  const toggleExpanded = useCallback((key: string) => {
+    setExpandedRows(current => {
+      const next = new Set(current)
+      if (next.has(key)) {
+        next.delete(key)
       } else {
-        bStr = String(bValue || '').toLowerCase()
+        next.add(key)
       }
-      
-      if (aStr < bStr) return sortConfig.direction === 'asc' ? -1 : 1
-      if (aStr > bStr) return sortConfig.direction === 'asc' ? 1 : -1
-      return 0
+      return next
     })
-  }, [universities, sortConfig])
+  }, [])
+  const tableRef = useRef<HTMLTableElement>(null)
+
+  const visibleColumns = useMemo(
+    () => new Set<TableColumn>(tableState.visibleColumns || UNIVERSITY_COLUMNS),
+    [tableState.visibleColumns]
+  )
+
+  // Sort universities based on current sort configuration
+  const sortedUniversities = useMemo(
+    () => sortUniversities(universities, sortConfig, rankingSystem, fitScores),
+    [universities, sortConfig, rankingSystem, fitScores]
+  )
+
+  // Systems the ranking column can switch between; a system from an old link stays selectable
+  const rankingSystems = useMemo(() => {
+    const systems = extractRankingSystems(universities)
+    return rankingSystem && rankingSystem !== COMPOSITE_RANKING && !systems.includes(rankingSystem)
+      ? [...systems, rankingSystem]
+      : systems
+  }, [universities, rankingSystem])
 
-  // Pagination
+  // Pagination (a page restored from a link may no longer exist)
   const totalPages = Math.ceil(sortedUniversities.length / ITEMS_PER_PAGE)
+  const currentPage = Math.min(tableState.currentPage, Math.max(totalPages, 1))
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE
-  const paginatedUniversities = sortedUniversities.slice(startIndex, startIndex + ITEMS_PER_PAGE)
+  const paginatedUniversities = paginate(sortedUniversities, currentPage, ITEMS_PER_PAGE)
+
+  const setCurrentPage = (page: number) => {
+    onTableStateChange({ ...tableState, currentPage: page })
+  }
+
+  // Store the full column set as null so new columns show up in old links
+  const setVisibleColumns = useCallback((columns: Set<TableColumn>) => {
+    onTableStateChange({
+      ...tableState,
+      visibleColumns: columns.size === UNIVERSITY_COLUMNS.length
+        ? null
+        : UNIVERSITY_COLUMNS.filter(column => columns.has(column))
+    })
+  }, [tableState, onTableStateChange])
 
-  // Handle sorting
+  // Handle sorting; fit starts with the best score, other columns with the lowest value
   const handleSort = useCallback((column: SortableColumn) => {
-    setSortConfig(prevConfig => ({
-      column,
-      direction: prevConfig.column === column && prevConfig.direction === 'asc' ? 'desc' : 'asc'
-    }))
-  }, [])
+    const firstDirection = column === 'fit' ? 'desc' : 'asc'
+    const otherDirection = firstDirection === 'asc' ? 'desc' : 'asc'
+    onTableStateChange({
+      ...tableState,
+      sortConfig: {
+        column,
+        direction: sortConfig.column === column && sortConfig.direction === firstDirection ? otherDirection : firstDirection
+      }
+    })
+  }, [tableState, sortConfig, onTableStateChange])
 
   // Get visible columns based on priority and screen size
   const displayColumns = useMemo(() => {
-    const allColumns = Object.entries(COLUMN_CONFIG) as [keyof ParsedUniversity, typeof COLUMN_CONFIG[keyof ParsedUniversity]][]
+    const allColumns = Object.entries(COLUMN_CONFIG) as [TableColumn, typeof COLUMN_CONFIG[TableColumn]][]
     
     if (isCompactView) {
       // Show only high priority columns in compact view
@@ -139,17 +277,15 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
   }, [visibleColumns, isCompactView])
 
   // Toggle column visibility
-  const toggleColumn = useCallback((column: keyof ParsedUniversity) => {
-    setVisibleColumns(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(column)) {
-        newSet.delete(column)
-      } else {
-        newSet.add(column)
-      }
-      return newSet
-    })
-  }, [])
+  const toggleColumn = useCallback((column: TableColumn) => {
+    const newSet = new Set(visibleColumns)
+    if (newSet.has(column)) {
+      newSet.delete(column)
+    } else {
+      newSet.add(column)
+    }
+    setVisibleColumns(newSet)
+  }, [visibleColumns, setVisibleColumns])
 
   // Keyboard navigation
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
@@ -187,6 +323,9 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
     }
   }, [focusedCell, paginatedUniversities.length])
 
+  // Star, compare, fit and eligibility columns in front of the data columns
+  const leadingColumnCount = [onToggleShortlist, onToggleCompare, fitScores, eligibility].filter(Boolean).length
+
   const getSortIcon = (column: SortableColumn) => {
     if (sortConfig.column !== column) {
       return (
@@ -220,6 +359,43 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
           </div>
           
           <div className="flex items-center space-x-3">
+            {/* Relevance sort, only meaningful while searching */}
+            {searchTerm.trim() && (
+              <button
+                onClick={() => onTableStateChange({ ...tableState, sortConfig: RELEVANCE_SORT, currentPage: 1 })}
+                className={`px-3 py-2 text-sm rounded-lg transition-colors duration-150 ${
+                  sortConfig.column === 'relevance'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+                aria-pressed={sortConfig.column === 'relevance'}
+                title="Best matches for the search first"
+              >
+                🎯 Best match
+              </button>
+            )}
+
+            {/* Export (sorted rows, visible columns) */}
+            <ExportMenu
+              universities={sortedUniversities}
+              columns={displayColumns.map(([key, config]) => ({ key, header: config.displayName }))}
+              metadata={metadata}
+            />
+
+            {/* Uncited values toggle */}
+            <button
+              onClick={() => setHighlightUncited(!highlightUncited)}
+              className={`px-3 py-2 text-sm rounded-lg transition-colors duration-150 ${
+                highlightUncited
+                  ? 'bg-amber-100 text-amber-800'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              aria-pressed={highlightUncited}
+              title="Outline values that no citation backs"
+            >
+              ❓ Unverified
+            </button>
+
             {/* Compact View Toggle */}
             <button
               onClick={() => setIsCompactView(!isCompactView)}
@@ -242,11 +418,11 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
                 className="px-3 py-2 text-sm bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 transition-colors duration-150 flex items-center space-x-2"
                 onClick={() => {
                   // Simple toggle for now - could be enhanced with a proper dropdown
-                  const hiddenColumns = Object.keys(COLUMN_CONFIG).filter(key => !visibleColumns.has(key as keyof ParsedUniversity))
+                  const hiddenColumns = Object.keys(COLUMN_CONFIG).filter(key => !visibleColumns.has(key as TableColumn))
                   if (hiddenColumns.length > 0) {
-                    setVisibleColumns(new Set(Object.keys(COLUMN_CONFIG) as (keyof ParsedUniversity)[]))
+                    setVisibleColumns(new Set(Object.keys(COLUMN_CONFIG) as (TableColumn)[]))
                   } else {
-                    setVisibleColumns(new Set(['rank', 'universityName', 'cityCountry', 'appDeadline', 'acceptanceRate'] as (keyof ParsedUniversity)[]))
+                    setVisibleColumns(new Set(['rank', 'universityName', 'cityCountry', 'appDeadline', 'acceptanceRate'] as (TableColumn)[]))
                   }
                 }}
               >
@@ -273,11 +449,50 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
         >
           <thead className="sticky-header bg-gradient-to-r from-gray-50 to-gray-100">
             <tr role="row">
+              {onToggleShortlist && (
+                <th className="px-3 py-4 w-12 text-center text-xs font-semibold text-gray-700" role="columnheader" title="My list">
+                  ⭐
+                </th>
+              )}
+              {onToggleCompare && (
+                <th className="px-3 py-4 w-12 text-center text-xs font-semibold text-gray-700" role="columnheader" title={`Compare up to ${MAX_COMPARE}`}>
+                  ⚖️
+                </th>
+              )}
+              {fitScores && (
+                <th
+                  className="px-4 py-4 w-32 min-w-32 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider cursor-pointer hover:bg-gray-200 transition-colors duration-150"
+                  onClick={() => handleSort('fit')}
+                  title="How well each university fits your profile, from 0 to 100"
+                  role="columnheader"
+                  aria-sort={
+                    sortConfig.column === 'fit'
+                      ? sortConfig.direction === 'asc' ? 'ascending' : 'descending'
+                      : 'none'
+                  }
+                  tabIndex={-1}
+                >
+                  <div className="flex items-center space-x-2">
+                    <span>🎯 Fit</span>
+                    {getSortIcon('fit')}
+                  </div>
+                </th>
+              )}
+              {eligibility && (
+                <th
+                  className="px-4 py-4 w-60 min-w-60 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider"
+                  title="Your profile checked against the stated GPA, English test and GRE requirements"
+                  role="columnheader"
+                >
+                  ✅ Eligibility
+                </th>
+              )}
               {displayColumns.map(([key, config], colIndex) => (
                 <th
                   key={key}
                   className={`px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider cursor-pointer hover:bg-gray-200 transition-colors duration-150 ${config.width} ${config.minWidth}`}
                   onClick={() => handleSort(key as SortableColumn)}
+                  title={key === 'scholarships' ? 'Sort by best funding tier: full funding, tuition waiver, stipend, partial' : undefined}
                   role="columnheader"
                   aria-sort={
                     sortConfig.column === key 
@@ -289,6 +504,21 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
                   <div className="flex items-center space-x-2">
                     <span>{config.displayName}</span>
                     {getSortIcon(key as SortableColumn)}
+                    {key === 'ranking' && (
+                      <select
+                        value={rankingSystem ?? ''}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => onTableStateChange({ ...tableState, rankingSystem: e.target.value || null })}
+                        className="px-1 py-0.5 text-xs font-normal normal-case border border-gray-300 rounded bg-white"
+                        aria-label="Ranking system to show and sort by"
+                      >
+                        <option value="">Headline</option>
+                        {rankingSystems.map(system => (
+                          <option key={system} value={system}>{system}</option>
+                        ))}
+                        <option value={COMPOSITE_RANKING}>Composite</option>
+                      </select>
+                    )}
                     {config.priority > 2 && (
                       <span className="inline-flex items-center px-1.5 py-0.5 rounded-full text-xs bg-gray-200 text-gray-600">
                         {config.priority}
@@ -300,43 +530,128 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-100">
-            {paginatedUniversities.map((university, rowIndex) => (
-              <tr 
-                key={`${university.universityName}-${university.rank}`}
-                className={`group hover:bg-gradient-to-r hover:from-blue-50 hover:to-indigo-50 transition-all duration-200 ${
-                  rowIndex % 2 === 0 ? 'bg-white' : 'bg-gray-50/50'
-                }`}
-                role="row"
-              >
-                {displayColumns.map(([key, config], colIndex) => {
-                  const value = university[key as keyof ParsedUniversity]
-                  const isFocused = focusedCell?.row === rowIndex && focusedCell?.col === colIndex
+            {paginatedUniversities.map((university, rowIndex) => {
+              const rowKey = universityKey(university)
+              const isExpanded = expandedRows.has(rowKey)
+              const matching = matchingPrograms?.get(university)
+              const provenance = highlightUncited ? getProvenance(university) : undefined
+
+              return (
+                <Fragment key={`${university.universityName}-${university.rank}`}>
+                  <tr 
+                    className={`group hover:bg-gradient-to-r hover:from-blue-50 hover:to-indigo-50 transition-all duration-200 ${
+                      rowIndex % 2 === 0 ? 'bg-white' : 'bg-gray-50/50'
+                    }`}
+                    role="row"
+                  >
+                    {onToggleShortlist && (
+                      <td className="px-3 py-4 w-12 text-center" role="gridcell">
+                        <StarButton
+                          universityName={university.universityName}
+                          isStarred={Boolean(shortlist?.[shortlistKey(university)])}
+                          onToggle={() => onToggleShortlist(university)}
+                        />
+                      </td>
+                    )}
+                    {onToggleCompare && (
+                      <td className="px-3 py-4 w-12 text-center" role="gridcell">
+                        <CompareCheckbox
+                          universityName={university.universityName}
+                          isSelected={comparison.includes(universityKey(university))}
+                          isDisabled={comparison.length >= MAX_COMPARE}
+                          onToggle={() => onToggleCompare(university)}
+                        />
+                      </td>
+                    )}
+                    {fitScores && (
+                      <td className="px-4 py-4 w-32 min-w-32 align-top" role="gridcell">
+                        <FitScoreCell fit={fitScores.get(university)} />
+                      </td>
+                    )}
+                    {eligibility && (
+                      <td className="px-4 py-4 w-60 min-w-60 align-top" role="gridcell">
+                        <EligibilityCell result={eligibility.get(university)} />
+                      </td>
+                    )}
+                    {displayColumns.map(([key, config], colIndex) => {
+                      const value = university[key as TableColumn]
+                      const isFocused = focusedCell?.row === rowIndex && focusedCell?.col === colIndex
                   
-                  return (
-                    <td
-                      key={key}
-                      className={`px-6 py-4 ${config.width} ${config.minWidth} ${
-                        isFocused ? 'bg-blue-100 ring-2 ring-blue-500 ring-inset' : ''
-                      } transition-all duration-150`}
-                      role="gridcell"
-                      tabIndex={isFocused ? 0 : -1}
-                      onClick={() => setFocusedCell({ row: rowIndex, col: colIndex })}
-                    >
-                      <FormattedCell
-                        column={key}
-                        value={value}
-                        searchTerm={searchTerm}
-                      />
-                    </td>
-                  )
-                })}
-              </tr>
-            ))}
+                      return (
+                        <td
+                          key={key}
+                          className={`px-6 py-4 ${config.width} ${config.minWidth} ${
+                            isFocused ? 'bg-blue-100 ring-2 ring-blue-500 ring-inset' : ''
+                          } transition-all duration-150`}
+                          role="gridcell"
+                          tabIndex={isFocused ? 0 : -1}
+                          onClick={() => setFocusedCell({ row: rowIndex, col: colIndex })}
+                        >
+                          <FormattedCell
+                            column={key}
+                            value={value}
+                            searchTerm={searchTerm}
+                            currency={currency}
+                            rankingSystem={rankingSystem}
+                            requirements={university.requirements}
+                            matchingPrograms={matching}
+                            programsExpanded={isExpanded}
+                            onTogglePrograms={() => toggleExpanded(rowKey)}
+                            freshness={isVerifiableField(key) ? freshness?.get(university)?.fields[key] : undefined}
+                            provenance={isCitedField(key) ? provenance?.[key] : undefined}
+                          />
+                          {key === 'universityName' && (
+                            <button
+                              onClick={() => setSourcesFor(university)}
+                              className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                              aria-label={`Sources for ${university.universityName}`}
+                            >
+                              📚 Sources
+                            </button>
+                          )}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                  {/* Program sub-rows: program details under Programs, its own dates under the date columns */}
+                  {isExpanded && university.programs.map(program => {
+                    const isMatch = !matching || matching.includes(program)
+                    return (
+                      <tr
+                        key={program.name}
+                        className={`bg-blue-50/40 text-sm ${isMatch ? '' : 'opacity-50'}`}
+                        role="row"
+                        aria-label={`${university.universityName}: ${program.name}`}
+                      >
+                        {leadingColumnCount > 0 && <td colSpan={leadingColumnCount} />}
+                        {displayColumns.map(([key, config]) => (
+                          <td key={key} className={`px-6 py-3 align-top ${config.width} ${config.minWidth}`} role="gridcell">
+                            {key === 'programs' && (
+                              <div className="pl-3 border-l-2 border-blue-300">
+                                <ProgramDetails program={program} searchTerm={searchTerm} currency={currency} />
+                              </div>
+                            )}
+                            {(key === 'programStart' || key === 'appDeadline') && (
+                              <div className="space-y-1">
+                                <FormattedCell column={key} value={program[key]} />
+                                <div className={`text-xs ${program.overrides.includes(key) ? 'text-purple-700' : 'text-gray-400'}`}>
+                                  {program.overrides.includes(key) ? 'This program' : 'Same as university'}
+                                </div>
+                              </div>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    )
+                  })}
+                </Fragment>
+              )
+            })}
             
             {/* Empty state */}
             {paginatedUniversities.length === 0 && (
               <tr>
-                <td colSpan={displayColumns.length} className="px-6 py-12 text-center">
+                <td colSpan={displayColumns.length + leadingColumnCount} className="px-6 py-12 text-center">
                   <div className="text-gray-500 space-y-2">
                     <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 48 48">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M34 40h10v-4a6 6 0 00-10.712-3.714M34 40H14m20 0v-4a6 6 0 00-10.712-3.714M14 40H4v-4a6 6 0 016-6 6 6 0 016 6v4zm10-12a4 4 0 100-8 4 4 0 000 8z" />
@@ -356,14 +671,14 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
         <div className="px-6 py-4 flex items-center justify-between border-t border-gray-200">
           <div className="flex-1 flex justify-between sm:hidden">
             <button
-              onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+              onClick={() => setCurrentPage(Math.max(currentPage - 1, 1))}
               disabled={currentPage === 1}
               className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Previous
             </button>
             <button
-              onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+              onClick={() => setCurrentPage(Math.min(currentPage + 1, totalPages))}
               disabled={currentPage === totalPages}
               className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -383,7 +698,7 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
             <div>
               <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px" aria-label="Pagination">
                 <button
-                  onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                  onClick={() => setCurrentPage(Math.max(currentPage - 1, 1))}
                   disabled={currentPage === 1}
                   className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   aria-label="Previous page"
@@ -422,7 +737,7 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
                 })}
                 
                 <button
-                  onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                  onClick={() => setCurrentPage(Math.min(currentPage + 1, totalPages))}
                   disabled={currentPage === totalPages}
                   className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   aria-label="Next page"
@@ -436,6 +751,8 @@ export default function DataTable({ universities, searchTerm }: DataTableProps)
           </div>
         </div>
       )}
+
+      {sourcesFor && <SourceDrawer university={sourcesFor} onClose={closeSources} />}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import type { ValidationIssue, ValidationReport } from '@/utils/dataValidator'
+
+interface DataValidationReportProps {
+  report: ValidationReport
+  // Start expanded, e.g. when nothing could be loaded
+  defaultOpen?: boolean
+}
+
+const PREVIEW_LIMIT = 10
+
+function IssueList({ issues, tone }: { issues: ValidationIssue[]; tone: 'error' | 'warning' }) {
+  const [showAll, setShowAll] = useState(false)
+  const displayIssues = showAll ? issues : issues.slice(0, PREVIEW_LIMIT)
+  const toneClasses = tone === 'error'
+    ? 'bg-red-50 border-red-200 text-red-800'
+    : 'bg-amber-50 border-amber-200 text-amber-800'
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">
+        {displayIssues.map((issue, index) => (
+          <li key={index} className={`text-xs px-3 py-2 rounded border ${toneClasses}`}>
+            {issue.source && (
+              <span className="mr-1 px-1 bg-white/70 rounded font-mono">{issue.source}</span>
+            )}
+            <span className="font-semibold">
+              {issue.recordIndex === null
+                ? 'Dataset'
+                : `Record #${issue.recordIndex + 1}${issue.universityName ? ` (${issue.universityName})` : ''}`}
+            </span>
+            {issue.field && (
+              <code className="mx-1 px-1 bg-white/70 rounded">{issue.field}</code>
+            )}
+            <span>{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+      {issues.length > PREVIEW_LIMIT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-blue-600 hover:text-blue-800 underline"
+        >
+          {showAll ? 'Show less' : `Show ${issues.length - PREVIEW_LIMIT} more`}
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default function DataValidationReport({ report, defaultOpen = false }: DataValidationReportProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen)
+  const hasErrors = report.errors.length > 0
+
+  if (!hasErrors && report.warnings.length === 0) return null
+
+  return (
+    <div className={`rounded-xl border shadow-sm ${hasErrors ? 'bg-white border-red-200' : 'bg-white border-amber-200'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <div className="flex items-center space-x-3">
+          <svg className={`w-5 h-5 ${hasErrors ? 'text-red-500' : 'text-amber-500'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
+          </svg>
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Data Validation Report</h3>
+            <p className="text-xs text-gray-600">
+              {report.validRecords} of {report.totalRecords} records loaded
+              {report.invalidRecords > 0 && ` • ${report.invalidRecords} skipped`}
+              {' • '}{report.errors.length} error{report.errors.length !== 1 ? 's' : ''}
+              {' • '}{report.warnings.length} warning{report.warnings.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+        </div>
+        <svg className={`w-4 h-4 text-gray-400 transform transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          {hasErrors && (
+            <div>
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-red-700 mb-2">Errors</h4>
+              <IssueList issues={report.errors} tone="error" />
+            </div>
+          )}
+          {report.warnings.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-amber-700 mb-2">Warnings</h4>
+              <IssueList issues={report.warnings} tone="warning" />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,11 +3,18 @@
 import { useMemo } from 'react'
 import type { ParsedUniversity } from '@/utils/dataParser'
 import { extractAcceptanceRates, extractCountries, extractRankingData } from '@/utils/dataParser'
+import { formatCalendarDate } from '@/utils/deadlines'
+import { reverificationQueue, VERIFIABLE_FIELD_LABELS, VERIFIABLE_FIELDS, type RecordFreshness } from '@/utils/freshness'
 
 interface DataVisualizationProps {
   universities: ParsedUniversity[]
+  // Adds a list of the records most in need of re-verification when given
+  freshness?: Map<ParsedUniversity, RecordFreshness>
 }
 
+// Records listed in the re-verification panel
+const REVERIFICATION_LIMIT = 10
+
 // Simple chart components using CSS and SVG
 function BarChart({ data, title, maxValue }: { 
   data: { label: string; value: number; color?: string }[]; 
@@ -125,7 +132,61 @@ function TopRankedUniversities({ universities }: { universities: ParsedUniversit
   return <BarChart data={topUniversities} title="Top 10 Universities" maxValue={10} />
 }
 
-export default function DataVisualization({ universities }: DataVisualizationProps) {
+function ReverificationPanel({ universities, freshness }: { universities: ParsedUniversity[]; freshness: Map<ParsedUniversity, RecordFreshness> }) {
+  const queue = useMemo(() => reverificationQueue(universities, freshness), [universities, freshness])
+
+  const fieldCounts = useMemo(() => VERIFIABLE_FIELDS.map(field => ({
+    label: VERIFIABLE_FIELD_LABELS[field],
+    value: queue.filter(entry => entry.freshness.fields[field]?.status === 'stale').length,
+    color: 'bg-gradient-to-r from-amber-400 to-amber-600'
+  })).filter(item => item.value > 0).sort((a, b) => b.value - a.value), [queue])
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">🕰️ Needs Re-verification</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {queue.length} of {universities.length} universities have stale or unverified fields. Deadlines and start dates go stale
+          when a new admission cycle opens, other fields after a year (scholarships after six months).
+        </p>
+        {queue.length === 0 ? (
+          <div className="text-sm text-green-700">✅ Everything has been checked recently</div>
+        ) : (
+          <ol className="space-y-3">
+            {queue.slice(0, REVERIFICATION_LIMIT).map(({ university, freshness: record }) => (
+              <li key={university.rank} className="text-sm">
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="font-medium text-gray-900">{university.universityName}</span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {record.oldestCheck ? `Oldest check ${formatCalendarDate(record.oldestCheck)}` : 'Never verified'}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {record.outdated.map(field => (
+                    <span
+                      key={field.field}
+                      title={field.reason}
+                      className={`px-2 py-0.5 rounded text-xs border ${
+                        field.status === 'stale'
+                          ? 'bg-amber-50 text-amber-800 border-amber-200'
+                          : 'bg-gray-50 text-gray-600 border-gray-200'
+                      }`}
+                    >
+                      {VERIFIABLE_FIELD_LABELS[field.field]}
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+      {fieldCounts.length > 0 && <BarChart data={fieldCounts} title="Stale Fields" />}
+    </div>
+  )
+}
+
+export default function DataVisualization({ universities, freshness }: DataVisualizationProps) {
   const stats = useMemo(() => {
     const acceptanceRates = extractAcceptanceRates(universities)
     const countries = extractCountries(universities)
@@ -203,6 +264,8 @@ export default function DataVisualization({ universities }: DataVisualizationPro
       <div className="grid grid-cols-1 lg:grid-cols-1 gap-8">
         <TopRankedUniversities universities={universities} />
       </div>
+
+      {freshness && <ReverificationPanel universities={universities} freshness={freshness} />}
       
       {/* Additional Insights */}
       <div className="bg-gradient-to-r from-slate-50 to-slate-100 rounded-xl p-6 border border-slate-200">
@@ -0,0 +1,404 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { ParsedUniversity } from '@/utils/dataParser'
+import {
+  collectCalendarEvents,
+  DEADLINE_STATUS_LABELS,
+  dayKey,
+  getDeadlineStatus,
+  getEventDaysRemaining,
+  monthKey,
+  type CalendarEvent,
+  type DeadlineStatus
+} from '@/utils/deadlines'
+import { DIGEST_FORMATS, type DigestFormat } from '@/utils/digest'
+import { buildDeadlineCalendar, DEFAULT_ALARM_DAYS } from '@/utils/icsExport'
+import { downloadFile } from '@/utils/fileDownload'
+import { shortlistKey } from '@/utils/shortlist'
+import { DEADLINE_STATUS_STYLES } from './FormattedCell'
+
+interface DeadlineCalendarProps {
+  // Universities matching the current filters
+  universities: ParsedUniversity[]
+  shortlistedUniversities: ParsedUniversity[]
+  // The current filters as universities API parameters, for the digest links
+  filterParams: URLSearchParams
+}
+
+type CalendarScope = 'filtered' | 'shortlist'
+type CalendarLayout = 'month' | 'timeline'
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+const MAX_EVENTS_PER_DAY = 3
+
+const PROGRAM_START_STYLE = 'bg-blue-50 text-blue-700 border-blue-200'
+
+const formatMonth = (date: Date) => date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+
+/**
+ * Status bucket for deadlines; program starts are not bucketed
+ */
+function eventStatus(event: CalendarEvent): DeadlineStatus | null {
+  return event.kind === 'deadline' ? getDeadlineStatus(getEventDaysRemaining(event)) : null
+}
+
+/**
+ * Program and round of a deadline, e.g. "MEng, Priority"; empty for the university's single deadline
+ */
+function eventLabel(event: CalendarEvent): string {
+  return [event.program?.name, event.round?.label].filter(Boolean).join(', ')
+}
+
+/**
+ * Program and round of a deadline, e.g. " (Priority)", and "(est.)" when not confirmed
+ */
+function roundSuffix(event: CalendarEvent): string {
+  if (!event.round) return ''
+  const label = eventLabel(event) ? ` (${eventLabel(event)})` : ''
+  return `${label}${event.round.estimated ? ' (est.)' : ''}`
+}
+
+function EventChip({ event }: { event: CalendarEvent }) {
+  const status = eventStatus(event)
+  const label = event.kind === 'deadline' ? '📅' : '🎓'
+
+  return (
+    <div
+      className={`px-1.5 py-0.5 rounded border text-xs truncate ${status ? DEADLINE_STATUS_STYLES[status] : PROGRAM_START_STYLE}`}
+      title={`${event.kind === 'deadline' ? 'Application deadline' : 'Program start'}${roundSuffix(event)}: ${event.university.universityName}`}
+    >
+      {label} {event.university.universityName}{eventLabel(event) ? ` · ${eventLabel(event)}` : ''}
+    </div>
+  )
+}
+
+function MonthGrid({ events, month, onMonthChange }: {
+  events: CalendarEvent[]
+  month: Date
+  onMonthChange: (month: Date) => void
+}) {
+  const todayKey = dayKey(new Date())
+
+  const { days, eventsByDay, monthOnlyStarts, monthOnlyDeadlines } = useMemo(() => {
+    // Weeks start on Monday
+    const first = new Date(month.getFullYear(), month.getMonth(), 1)
+    const leading = (first.getDay() + 6) % 7
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+    const cellCount = Math.ceil((leading + daysInMonth) / 7) * 7
+    const days = Array.from({ length: cellCount }, (_, i) =>
+      new Date(month.getFullYear(), month.getMonth(), i - leading + 1)
+    )
+
+    const eventsByDay = new Map<string, CalendarEvent[]>()
+    const monthOnlyStarts: CalendarEvent[] = []
+    const monthOnlyDeadlines: CalendarEvent[] = []
+    events.forEach(event => {
+      if (event.monthOnly) {
+        if (monthKey(event.date) === monthKey(month)) {
+          (event.kind === 'deadline' ? monthOnlyDeadlines : monthOnlyStarts).push(event)
+        }
+        return
+      }
+      const key = dayKey(event.date)
+      eventsByDay.set(key, [...(eventsByDay.get(key) || []), event])
+    })
+
+    return { days, eventsByDay, monthOnlyStarts, monthOnlyDeadlines }
+  }, [events, month])
+
+  const shiftMonth = (offset: number) => {
+    onMonthChange(new Date(month.getFullYear(), month.getMonth() + offset, 1))
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <button
+          onClick={() => shiftMonth(-1)}
+          className="px-3 py-2 text-sm bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200"
+          aria-label="Previous month"
+        >
+          ←
+        </button>
+        <div className="flex items-center space-x-3">
+          <h3 className="text-lg font-semibold text-gray-900">{formatMonth(month)}</h3>
+          <button
+            onClick={() => onMonthChange(new Date(new Date().getFullYear(), new Date().getMonth(), 1))}
+            className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+          >
+            Today
+          </button>
+        </div>
+        <button
+          onClick={() => shiftMonth(1)}
+          className="px-3 py-2 text-sm bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200"
+          aria-label="Next month"
+        >
+          →
+        </button>
+      </div>
+
+      {monthOnlyDeadlines.length > 0 && (
+        <div className={`mx-4 mt-4 p-3 rounded-lg border text-sm ${DEADLINE_STATUS_STYLES[eventStatus(monthOnlyDeadlines[0]) ?? 'future']}`}>
+          <span className="font-medium">📅 Deadlines some time in {formatMonth(month)}:</span>{' '}
+          {monthOnlyDeadlines.map(event => `${event.university.universityName}${roundSuffix(event)}`).join(', ')}
+        </div>
+      )}
+
+      {monthOnlyStarts.length > 0 && (
+        <div className={`mx-4 mt-4 p-3 rounded-lg border text-sm ${PROGRAM_START_STYLE}`}>
+          <span className="font-medium">🎓 Programs starting in {formatMonth(month)}:</span>{' '}
+          {monthOnlyStarts.map(event => event.university.universityName).join(', ')}
+        </div>
+      )}
+
+      <div className="p-4 overflow-x-auto">
+        <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden min-w-[700px]" role="grid">
+          {WEEKDAYS.map(weekday => (
+            <div key={weekday} className="bg-gray-50 px-2 py-2 text-xs font-semibold text-gray-600 text-center" role="columnheader">
+              {weekday}
+            </div>
+          ))}
+          {days.map(day => {
+            const key = dayKey(day)
+            const dayEvents = eventsByDay.get(key) || []
+            const isCurrentMonth = day.getMonth() === month.getMonth()
+
+            return (
+              <div
+                key={key}
+                className={`min-h-[96px] p-1.5 space-y-1 ${isCurrentMonth ? 'bg-white' : 'bg-gray-50 text-gray-400'}`}
+                role="gridcell"
+              >
+                <div className={`text-xs font-medium ${
+                  key === todayKey ? 'inline-block px-1.5 rounded-full bg-blue-600 text-white' : ''
+                }`}>
+                  {day.getDate()}
+                </div>
+                {dayEvents.slice(0, MAX_EVENTS_PER_DAY).map(event => (
+                  <EventChip key={event.id} event={event} />
+                ))}
+                {dayEvents.length > MAX_EVENTS_PER_DAY && (
+                  <div
+                    className="text-xs text-gray-500"
+                    title={dayEvents.slice(MAX_EVENTS_PER_DAY).map(event => event.university.universityName).join('\n')}
+                  >
+                    +{dayEvents.length - MAX_EVENTS_PER_DAY} more
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function Timeline({ events }: { events: CalendarEvent[] }) {
+  const [hideExpired, setHideExpired] = useState(false)
+
+  const months = useMemo(() => {
+    const grouped = new Map<string, { month: Date; events: CalendarEvent[] }>()
+    events
+      .filter(event => !hideExpired || eventStatus(event) !== 'expired')
+      .forEach(event => {
+        const key = monthKey(event.date)
+        const group = grouped.get(key) || { month: new Date(event.date.getFullYear(), event.date.getMonth(), 1), events: [] }
+        group.events.push(event)
+        grouped.set(key, group)
+      })
+    return Array.from(grouped.values())
+  }, [events, hideExpired])
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-6">
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={hideExpired}
+          onChange={(e) => setHideExpired(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span>Hide expired deadlines</span>
+      </label>
+
+      {months.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">No dates to show</p>
+      )}
+
+      <ol className="relative border-l-2 border-gray-200 ml-3 space-y-8">
+        {months.map(({ month, events: monthEvents }) => (
+          <li key={monthKey(month)} className="ml-6">
+            <span className="absolute -left-[9px] mt-1.5 w-4 h-4 rounded-full bg-blue-500 border-2 border-white" />
+            <h3 className="text-base font-semibold text-gray-900 mb-3">{formatMonth(month)}</h3>
+            <ul className="space-y-2">
+              {monthEvents.map(event => {
+                const status = eventStatus(event)
+                const days = getEventDaysRemaining(event)
+
+                return (
+                  <li
+                    key={event.id}
+                    className={`flex items-center justify-between gap-4 p-3 rounded-lg border ${
+                      status ? DEADLINE_STATUS_STYLES[status] : PROGRAM_START_STYLE
+                    } ${status === 'expired' ? 'opacity-70' : ''}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {event.kind === 'deadline' ? '📅 Application deadline' : '🎓 Program start'}{roundSuffix(event)}: {event.university.universityName}
+                      </div>
+                      <div className="text-xs opacity-80">
+                        {event.monthOnly ? formatMonth(event.date) : formatDay(event.date)}
+                        {event.timeZone ? ` (${event.timeZone})` : ''} • {event.university.cityCountry}
+                      </div>
+                    </div>
+                    {status && (
+                      <span className="shrink-0 text-xs font-semibold">
+                        {status === 'expired' ? 'Expired' : `${event.monthOnly ? '≤ ' : ''}${days} days left`}
+                      </span>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+// Digest formats linked under the calendar, with their icons
+const DIGEST_LINKS: Array<[DigestFormat, string]> = [
+  ['rss', '📡'],
+  ['atom', '⚛️'],
+  ['markdown', '📝'],
+  ['email', '✉️']
+]
+
+export default function DeadlineCalendar({ universities, shortlistedUniversities, filterParams }: DeadlineCalendarProps) {
+  const [scope, setScope] = useState<CalendarScope>('filtered')
+  const [layout, setLayout] = useState<CalendarLayout>('month')
+
+  const scopedUniversities = scope === 'filtered' ? universities : shortlistedUniversities
+  const events = useMemo(() => collectCalendarEvents(scopedUniversities), [scopedUniversities])
+  const deadlineEvents = useMemo(() => events.filter(event => event.kind === 'deadline'), [events])
+
+  // Open on the month of the next deadline, or of the last one if all have passed
+  const [month, setMonth] = useState(() => {
+    const now = new Date()
+    const next = deadlineEvents.find(event => getEventDaysRemaining(event, now) >= 0) || deadlineEvents[deadlineEvents.length - 1]
+    const anchor = next?.date || now
+    return new Date(anchor.getFullYear(), anchor.getMonth(), 1)
+  })
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<DeadlineStatus, number> = { expired: 0, urgent: 0, soon: 0, future: 0 }
+    deadlineEvents.forEach(event => counts[getDeadlineStatus(getEventDaysRemaining(event))]++)
+    return counts
+  }, [deadlineEvents])
+
+  const exportCalendar = () => {
+    const ics = buildDeadlineCalendar(deadlineEvents, {
+      calendarName: scope === 'shortlist' ? 'My University Deadlines' : 'University Application Deadlines'
+    })
+    downloadFile(ics, 'application-deadlines.ics', 'text/calendar;charset=utf-8')
+  }
+
+  // The digest route recomputes the same scope on every request, so these links work as feed subscriptions
+  const digestParams = useMemo(() => {
+    if (scope === 'filtered') return new URLSearchParams(filterParams)
+    return new URLSearchParams({ shortlist: shortlistedUniversities.map(shortlistKey).join(',') })
+  }, [scope, filterParams, shortlistedUniversities])
+
+  const digestHref = (format: DigestFormat) => {
+    const params = new URLSearchParams(digestParams)
+    params.set('format', format)
+    if (scope === 'shortlist') params.set('title', 'My University Deadlines')
+    return `/api/digest?${params.toString()}`
+  }
+
+  const toggleClasses = (isActive: boolean) => `px-3 py-1.5 text-sm rounded-md transition-colors ${
+    isActive ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+  }`
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="inline-flex p-1 bg-gray-100 rounded-lg" role="group" aria-label="Universities shown">
+            <button onClick={() => setScope('filtered')} className={toggleClasses(scope === 'filtered')}>
+              🔍 Filtered ({universities.length})
+            </button>
+            <button onClick={() => setScope('shortlist')} className={toggleClasses(scope === 'shortlist')}>
+              ⭐ My List ({shortlistedUniversities.length})
+            </button>
+          </div>
+          <div className="inline-flex p-1 bg-gray-100 rounded-lg" role="group" aria-label="Calendar layout">
+            <button onClick={() => setLayout('month')} className={toggleClasses(layout === 'month')}>
+              🗓️ Month
+            </button>
+            <button onClick={() => setLayout('timeline')} className={toggleClasses(layout === 'timeline')}>
+              📈 Timeline
+            </button>
+          </div>
+        </div>
+
+        <button
+          onClick={exportCalendar}
+          disabled={deadlineEvents.length === 0}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+          title={`All-day events with reminders ${DEFAULT_ALARM_DAYS.join(', ')} days before`}
+        >
+          <span>📥 Export {deadlineEvents.length} deadline{deadlineEvents.length !== 1 ? 's' : ''} (.ics)</span>
+        </button>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {(Object.keys(DEADLINE_STATUS_LABELS) as DeadlineStatus[]).map(status => (
+          <span key={status} className={`px-2 py-1 rounded-full border font-medium ${DEADLINE_STATUS_STYLES[status]}`}>
+            {DEADLINE_STATUS_LABELS[status]}: {statusCounts[status]}
+          </span>
+        ))}
+        <span className={`px-2 py-1 rounded-full border font-medium ${PROGRAM_START_STYLE}`}>🎓 Program start</span>
+      </div>
+
+      {/* Digest links */}
+      {(scope === 'filtered' || shortlistedUniversities.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          <span className="font-medium">📰 Deadline digest:</span>
+          {DIGEST_LINKS.map(([format, icon]) => (
+            <a
+              key={format}
+              href={digestHref(format)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-2 py-1 rounded-md border border-gray-200 bg-white text-blue-700 hover:bg-blue-50"
+            >
+              {icon} {DIGEST_FORMATS[format].label}
+            </a>
+          ))}
+          <span className="text-gray-500">Subscribe in a feed reader, or fetch it from a cron job</span>
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-xl shadow-sm border border-gray-200 text-gray-600">
+          {scope === 'shortlist'
+            ? 'Star universities in the Data Table to see their deadlines here.'
+            : 'None of the matching universities have a dated deadline or program start.'}
+        </div>
+      ) : layout === 'month' ? (
+        <MonthGrid events={events} month={month} onMonthChange={setMonth} />
+      ) : (
+        <Timeline events={events} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import type { AppMetadata, ParsedUniversity } from '@/utils/dataParser'
+import { EXPORT_FORMATS, exportUniversities, type ExportColumn, type ExportFormat } from '@/utils/dataExport'
+import { downloadFile } from '@/utils/fileDownload'
+
+interface ExportMenuProps {
+  // Universities in display order
+  universities: ParsedUniversity[]
+  // Visible columns in display order
+  columns: ExportColumn[]
+  metadata: AppMetadata
+}
+
+const FORMAT_ICONS: Record<ExportFormat, string> = {
+  csv: '🧾',
+  json: '🗃️',
+  markdown: '📝',
+  xlsx: '📗'
+}
+
+export default function ExportMenu({ universities, columns, metadata }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const handleExport = (format: ExportFormat) => {
+    const { extension, mimeType } = EXPORT_FORMATS[format]
+    const content = exportUniversities(format, universities, columns, metadata)
+    downloadFile(content, `universities-${new Date().toISOString().slice(0, 10)}.${extension}`, mimeType)
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={universities.length === 0}
+        className="px-3 py-2 text-sm bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 transition-colors duration-150 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        <span>Export</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg py-1" role="menu">
+          <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-100">
+            {universities.length} universities • {columns.length} visible columns • current sort order
+          </div>
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-700 flex items-center space-x-2"
+              role="menuitem"
+            >
+              <span>{FORMAT_ICONS[format]}</span>
+              <span>{EXPORT_FORMATS[format].label}</span>
+            </button>
+          ))}
+          <div className="px-4 py-2 text-xs text-gray-500 border-t border-gray-100">
+            JSON always includes every field so it can be loaded again.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
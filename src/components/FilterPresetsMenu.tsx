@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { findPreset, normalizePresetName, parsePresetsFile, serializePresets, type FilterPreset } from '@/utils/filterPresets'
+import { downloadFile } from '@/utils/fileDownload'
+
+interface FilterPresetsMenuProps {
+  presets: FilterPreset[]
+  // Name of the preset the current view matches, if any
+  activePresetName: string | null
+  onApply: (preset: FilterPreset) => void
+  // Saving under an existing name replaces that preset
+  onSave: (name: string) => void
+  onDelete: (name: string) => void
+  onImport: (presets: FilterPreset[]) => void
+}
+
+export default function FilterPresetsMenu({
+  presets,
+  activePresetName,
+  onApply,
+  onSave,
+  onDelete,
+  onImport
+}: FilterPresetsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const name = normalizePresetName(newName)
+  const existing = name ? findPreset(presets, name) : undefined
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!name) return
+    onSave(name)
+    setNewName('')
+    setMessage({ text: existing ? `Updated "${existing.name}"` : `Saved "${name}"`, isError: false })
+  }
+
+  const handleExport = () => {
+    downloadFile(serializePresets(presets, true), 'filter-presets.json', 'application/json')
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const parsed = parsePresetsFile(await file.text())
+    if ('error' in parsed) {
+      setMessage({ text: `Could not import ${file.name}: ${parsed.error}`, isError: true })
+      return
+    }
+    onImport(parsed.presets)
+    setMessage({
+      text: `Imported ${parsed.presets.length} preset${parsed.presets.length !== 1 ? 's' : ''}; presets with the same name were replaced`,
+      isError: false
+    })
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors duration-150 flex items-center space-x-2"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <span>📌 {activePresetName ?? 'Presets'}</span>
+        {presets.length > 0 && (
+          <span className="px-1.5 py-0.5 text-xs bg-white text-gray-600 rounded-full">{presets.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg" role="menu">
+          {/* Saved presets */}
+          <div className="py-1 max-h-64 overflow-y-auto">
+            {presets.length === 0 ? (
+              <div className="px-4 py-3 text-sm text-gray-500">
+                No presets yet. Save the current filters, sort and columns below.
+              </div>
+            ) : presets.map(preset => (
+              <div
+                key={preset.name}
+                className={`flex items-center justify-between px-4 py-2 hover:bg-blue-50 ${
+                  preset.name === activePresetName ? 'bg-blue-50' : ''
+                }`}
+              >
+                <button
+                  onClick={() => {
+                    onApply(preset)
+                    setIsOpen(false)
+                  }}
+                  className="flex-1 text-left text-sm text-gray-700 hover:text-blue-700 truncate"
+                  role="menuitem"
+                  title={preset.filters.searchTerm || preset.name}
+                >
+                  {preset.name === activePresetName ? '✅ ' : ''}{preset.name}
+                </button>
+                <button
+                  onClick={() => onDelete(preset.name)}
+                  className="ml-2 text-gray-400 hover:text-red-600"
+                  aria-label={`Delete preset ${preset.name}`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Save current view */}
+          <form onSubmit={handleSave} className="px-4 py-3 border-t border-gray-100 flex items-center space-x-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name, e.g. Full-funding Europe"
+              className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Preset name"
+            />
+            <button
+              type="submit"
+              disabled={!name}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {existing ? 'Update' : 'Save'}
+            </button>
+          </form>
+
+          {/* Share with the team */}
+          <div className="px-4 py-2 border-t border-gray-100 flex items-center space-x-2">
+            <button
+              onClick={handleExport}
+              disabled={presets.length === 0}
+              className="px-3 py-1.5 text-xs bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ⬇️ Export JSON
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 text-xs bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200"
+            >
+              ⬆️ Import JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+
+          {message && (
+            <div className={`px-4 py-2 text-xs border-t border-gray-100 ${message.isError ? 'text-red-600' : 'text-green-700'}`} role="status">
+              {message.text}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
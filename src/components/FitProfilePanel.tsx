@@ -0,0 +1,279 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_FIT_WEIGHTS,
+  EMPTY_FIT_PROFILE,
+  FIT_FACTOR_LABELS,
+  FIT_FACTORS,
+  MAX_FIT_WEIGHT,
+  type FitFactor,
+  type FitProfile,
+  type FitWeights
+} from '@/utils/fitScore'
+import { DISPLAY_CURRENCIES } from '@/utils/currency'
+
+interface FitProfilePanelProps {
+  profile: FitProfile
+  weights: FitWeights
+  onProfileChange: (profile: FitProfile) => void
+  onWeightsChange: (weights: FitWeights) => void
+  // Currency a new budget starts in
+  currency: string
+}
+
+// What each weight slider trades off, shown under its label
+const FACTOR_HINTS: Record<FitFactor, string> = {
+  funding: 'Best scholarship on offer, less important the more your budget covers',
+  ranking: 'Composite score across ranking systems',
+  programs: 'Your interests found in program names',
+  admission: 'Higher acceptance rates score better',
+  requirements: 'Your GPA and test scores against stated minimums',
+  location: 'In one of your preferred countries or regions'
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white shadow-sm'
+
+/**
+ * A positive number from an input, or null when empty or invalid
+ */
+function readNumber(text: string): number | null {
+  const value = Number(text)
+  return text.trim() !== '' && Number.isFinite(value) && value > 0 ? value : null
+}
+
+// Comma-separated list input that keeps the text as typed while the list follows it
+function ListInput({ id, value, onChange, placeholder }: {
+  id: string
+  value: string[]
+  onChange: (value: string[]) => void
+  placeholder: string
+}) {
+  const [text, setText] = useState(value.join(', '))
+
+  // Follow changes made elsewhere, e.g. a reset or another tab
+  useEffect(() => {
+    setText(current => {
+      const currentItems = current.split(',').map(item => item.trim()).filter(Boolean)
+      return currentItems.join('|') === value.join('|') ? current : value.join(', ')
+    })
+  }, [value])
+
+  return (
+    <input
+      id={id}
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value)
+        onChange(e.target.value.split(',').map(item => item.trim()).filter(Boolean))
+      }}
+      placeholder={placeholder}
+      className={INPUT_CLASS}
+    />
+  )
+}
+
+export default function FitProfilePanel({ profile, weights, onProfileChange, onWeightsChange, currency }: FitProfilePanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const update = (changes: Partial<FitProfile>) => onProfileChange({ ...profile, ...changes })
+
+  const summary = [
+    profile.gpa !== null && `GPA ${profile.gpa}/${profile.gpaScale}`,
+    profile.gre !== null && `GRE ${profile.gre}`,
+    profile.toefl !== null && `TOEFL ${profile.toefl}`,
+    profile.ielts !== null && `IELTS ${profile.ielts}`,
+    profile.budget && `budget ${profile.budget.amount.toLocaleString('en-US')} ${profile.budget.currency}/year`,
+    profile.preferredLocations.length > 0 && profile.preferredLocations.join(', '),
+    profile.interests.length > 0 && `${profile.interests.length} ${profile.interests.length === 1 ? 'interest' : 'interests'}`
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">🎯 Personal fit</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {summary || 'Tell us about yourself to score each university on how well it fits you'}
+          </p>
+        </div>
+        <span className="text-sm text-blue-600">{isOpen ? 'Hide' : 'Edit profile'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-6 border-t border-gray-100 pt-4">
+          {/* Grades and test scores */}
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            <div>
+              <label htmlFor="fit-gpa" className="block text-sm font-medium text-gray-700 mb-1">🎓 GPA</label>
+              <div className="flex items-center space-x-1">
+                <input
+                  id="fit-gpa"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={profile.gpa ?? ''}
+                  onChange={(e) => update({ gpa: readNumber(e.target.value) })}
+                  placeholder="3.5"
+                  className={INPUT_CLASS}
+                />
+                <span className="text-gray-500">/</span>
+                <select
+                  value={profile.gpaScale}
+                  onChange={(e) => update({ gpaScale: Number(e.target.value) })}
+                  className="px-2 py-2 border border-gray-300 rounded-lg bg-white"
+                  aria-label="GPA scale"
+                >
+                  {[4, 5, 10, 20, 100, 110].map(scale => (
+                    <option key={scale} value={scale}>{scale}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="fit-gre" className="block text-sm font-medium text-gray-700 mb-1">📝 GRE total</label>
+              <input
+                id="fit-gre"
+                type="number"
+                min={260}
+                max={340}
+                value={profile.gre ?? ''}
+                onChange={(e) => update({ gre: readNumber(e.target.value) })}
+                placeholder="Not taken"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="fit-toefl" className="block text-sm font-medium text-gray-700 mb-1">🗣️ TOEFL iBT</label>
+              <input
+                id="fit-toefl"
+                type="number"
+                min={0}
+                max={120}
+                value={profile.toefl ?? ''}
+                onChange={(e) => update({ toefl: readNumber(e.target.value) })}
+                placeholder="Not taken"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="fit-ielts" className="block text-sm font-medium text-gray-700 mb-1">🗣️ IELTS</label>
+              <input
+                id="fit-ielts"
+                type="number"
+                min={0}
+                max={9}
+                step={0.5}
+                value={profile.ielts ?? ''}
+                onChange={(e) => update({ ielts: readNumber(e.target.value) })}
+                placeholder="Not taken"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="fit-budget" className="block text-sm font-medium text-gray-700 mb-1">💵 Own budget per year</label>
+              <div className="flex items-center space-x-1">
+                <input
+                  id="fit-budget"
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={profile.budget?.amount ?? ''}
+                  onChange={(e) => {
+                    const amount = readNumber(e.target.value)
+                    update({ budget: amount === null ? null : { amount, currency: profile.budget?.currency ?? currency } })
+                  }}
+                  placeholder="None"
+                  className={INPUT_CLASS}
+                />
+                <select
+                  value={profile.budget?.currency ?? currency}
+                  onChange={(e) => update({ budget: profile.budget && { ...profile.budget, currency: e.target.value } })}
+                  disabled={!profile.budget}
+                  className="px-2 py-2 border border-gray-300 rounded-lg bg-white disabled:opacity-50"
+                  aria-label="Budget currency"
+                >
+                  {DISPLAY_CURRENCIES.map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Places and subjects */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="fit-locations" className="block text-sm font-medium text-gray-700 mb-1">🌍 Preferred countries or regions</label>
+              <ListInput
+                id="fit-locations"
+                value={profile.preferredLocations}
+                onChange={(preferredLocations) => update({ preferredLocations })}
+                placeholder="Germany, Northern Europe, Asia"
+              />
+            </div>
+            <div>
+              <label htmlFor="fit-interests" className="block text-sm font-medium text-gray-700 mb-1">💡 Interests</label>
+              <ListInput
+                id="fit-interests"
+                value={profile.interests}
+                onChange={(interests) => update({ interests })}
+                placeholder="machine learning, security, robotics"
+              />
+            </div>
+          </div>
+
+          {/* Weights */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">⚖️ What matters to you</span>
+              <button
+                type="button"
+                onClick={() => onWeightsChange(DEFAULT_FIT_WEIGHTS)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Reset weights
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {FIT_FACTORS.map(factor => (
+                <label key={factor} className="block text-sm text-gray-700">
+                  <span className="flex items-center justify-between">
+                    <span className="font-medium">{FIT_FACTOR_LABELS[factor]}</span>
+                    <span className="text-gray-500">{weights[factor] === 0 ? 'Ignored' : `${weights[factor]} / ${MAX_FIT_WEIGHT}`}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_FIT_WEIGHT}
+                    step={1}
+                    value={weights[factor]}
+                    onChange={(e) => onWeightsChange({ ...weights, [factor]: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                  <span className="block text-xs text-gray-500">{FACTOR_HINTS[factor]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => onProfileChange(EMPTY_FIT_PROFILE)}
+              className="px-3 py-2 text-sm bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 transition-colors duration-150"
+            >
+              Clear profile
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,27 +1,54 @@
 'use client'
 
 import { useState } from 'react'
-import type { ParsedUniversity } from '@/utils/dataParser'
+import type { ParsedUniversity, Program } from '@/utils/dataParser'
+import { formatCalendarDate, formatRoundDate, getDeadlineState, getRoundDaysRemaining, type Deadline, type DeadlineStatus } from '@/utils/deadlines'
+import { findMatchRanges } from '@/utils/searchIndex'
+import { convertFundingAmount, formatFundingAmount, type FundingAmount, type FundingTier } from '@/utils/funding'
+import { DEFAULT_DISPLAY_CURRENCY, EXCHANGE_RATES } from '@/utils/currency'
+import { COMPOSITE_RANKING, findRanking } from '@/utils/rankings'
+import { DOCUMENT_LABELS, GRE_LABELS, type AdmissionRequirements, type GreRequirement } from '@/utils/requirements'
+import { DEGREE_LABELS, formatDuration } from '@/utils/programs'
+import { VERIFIABLE_FIELD_LABELS, type FieldFreshness } from '@/utils/freshness'
+import type { Citation, FieldProvenance } from '@/utils/provenance'
+
+// Component for marking the words a (fuzzy) search matched
+function HighlightedText({ text, searchTerm }: { text: string; searchTerm: string }) {
+  const ranges = findMatchRanges(text, searchTerm)
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let position = 0
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(
+      <span key={start} className="bg-yellow-200 font-medium px-1 rounded">
+        {text.slice(start, end)}
+      </span>
+    )
+    position = end
+  })
+  if (position < text.length) parts.push(text.slice(position))
+  return <>{parts}</>
+}
+
+// Component for rendering citations by domain, with the fields each one backs in the tooltip
+function CitationsRenderer({ citations }: { citations: Citation[] }) {
+  if (citations.length === 0) return null
 
-// Component for rendering clickable links
-function LinkRenderer({ links, className = '' }: { links: string[]; className?: string }) {
-  if (!links || links.length === 0) return null
-  
   return (
-    <div className={`flex flex-wrap gap-2 mt-1 ${className}`}>
-      {links.map((link, index) => (
+    <div className="flex flex-wrap gap-2 mt-1">
+      {citations.map(citation => (
         <a
-          key={index}
-          href={link}
+          key={citation.url}
+          href={citation.url}
           target="_blank"
           rel="noopener noreferrer"
           className="inline-flex items-center px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded-full hover:bg-blue-200 transition-colors duration-150"
-          title={link}
+          title={[citation.url, citation.fields.length > 0 && `Backs: ${citation.fields.map(field => VERIFIABLE_FIELD_LABELS[field]).join(', ')}`, citation.note]
+            .filter(Boolean).join('\n')}
         >
-          <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-          </svg>
-          Link {index + 1}
+          🔗 {citation.domain}
         </a>
       ))}
     </div>
@@ -58,6 +85,7 @@ function AcceptanceRateRenderer({ acceptanceRate }: {
   acceptanceRate: ParsedUniversity['acceptanceRate'] 
 }) {
   const getColorClass = (rate: number) => {
+    if (isNaN(rate)) return 'bg-gray-100 text-gray-600 border-gray-200'
     if (rate < 5) return 'bg-red-100 text-red-700 border-red-200'
     if (rate < 15) return 'bg-orange-100 text-orange-700 border-orange-200'
     if (rate < 30) return 'bg-yellow-100 text-yellow-700 border-yellow-200'
@@ -78,80 +106,264 @@ function AcceptanceRateRenderer({ acceptanceRate }: {
   )
 }
 
+// Badge colors for each deadline bucket
+export const DEADLINE_STATUS_STYLES: Record<DeadlineStatus, string> = {
+  expired: 'bg-red-100 text-red-700 border-red-200',
+  urgent: 'bg-orange-100 text-orange-700 border-orange-200',
+  soon: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+  future: 'bg-green-100 text-green-700 border-green-200'
+}
+
 // Component for rendering deadline information
 function DeadlineRenderer({ deadline }: { 
-  deadline: ParsedUniversity['appDeadline'] 
+  deadline: Deadline 
 }) {
-  const isExpired = (dateStr: string) => {
-    try {
-      const deadlineDate = new Date(dateStr)
-      return deadlineDate < new Date()
-    } catch {
-      return false
-    }
-  }
-  
-  const getDeadlineStatus = (dateStr: string) => {
-    try {
-      const deadlineDate = new Date(dateStr)
-      const now = new Date()
-      const diffTime = deadlineDate.getTime() - now.getTime()
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24))
-      
-      if (diffDays < 0) return { status: 'expired', text: 'Expired', color: 'bg-red-100 text-red-700 border-red-200' }
-      if (diffDays < 30) return { status: 'urgent', text: `${diffDays} days left`, color: 'bg-orange-100 text-orange-700 border-orange-200' }
-      if (diffDays < 90) return { status: 'soon', text: `${diffDays} days left`, color: 'bg-yellow-100 text-yellow-700 border-yellow-200' }
-      return { status: 'future', text: `${diffDays} days left`, color: 'bg-green-100 text-green-700 border-green-200' }
-    } catch {
-      return null
-    }
+  const state = getDeadlineState(deadline)
+  const multipleRounds = deadline.rounds.length > 1
+
+  if (deadline.rounds.length === 0) {
+    return (
+      <div className="space-y-2">
+        {deadline.rolling ? (
+          <span className="px-2 py-1 rounded-full text-xs font-medium border bg-blue-100 text-blue-700 border-blue-200">
+            🔄 Rolling admissions
+          </span>
+        ) : (
+          <span className="text-gray-400 italic">Not announced</span>
+        )}
+        {deadline.notes && <div className="text-xs text-gray-500">{deadline.notes}</div>}
+      </div>
+    )
   }
-  
-  const status = deadline.date ? getDeadlineStatus(deadline.date) : null
-  
+
+  const badgeText = state && (state.status === 'expired'
+    ? 'Expired'
+    : `${state.round.precision === 'month' ? '≤ ' : ''}${state.daysRemaining} days left`)
+
   return (
     <div className="space-y-2">
-      <div className="text-sm font-medium text-gray-900">{deadline.formatted}</div>
-      {status && (
-        <span className={`px-2 py-1 rounded-full text-xs font-medium border ${status.color}`}>
-          {status.text}
-        </span>
+      {multipleRounds ? (
+        <ul className="space-y-0.5">
+          {deadline.rounds.map(round => {
+            const isCurrent = round === state?.round && state.status !== 'expired'
+            const hasClosed = getRoundDaysRemaining(round, deadline.timeZone) < 0
+            return (
+              <li
+                key={`${round.kind}-${round.date}`}
+                className={`text-sm ${isCurrent ? 'font-medium text-gray-900' : hasClosed ? 'text-gray-400 line-through' : 'text-gray-700'}`}
+              >
+                {round.label}: {formatRoundDate(round)}
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <div className="text-sm font-medium text-gray-900">{formatRoundDate(deadline.rounds[0])}</div>
       )}
+      <div className="flex flex-wrap items-center gap-1">
+        {state && badgeText && (
+          <span className={`px-2 py-1 rounded-full text-xs font-medium border ${DEADLINE_STATUS_STYLES[state.status]}`}>
+            {multipleRounds && state.status !== 'expired' ? `${state.round.label}: ` : ''}{badgeText}
+          </span>
+        )}
+        {deadline.rolling && (
+          <span className="px-2 py-1 rounded-full text-xs font-medium border bg-blue-100 text-blue-700 border-blue-200">🔄 Rolling</span>
+        )}
+        {deadline.rounds.some(round => round.estimated) && (
+          <span className="bg-gray-100 px-2 py-1 rounded text-xs text-gray-500">Estimated</span>
+        )}
+      </div>
+      {deadline.rounds.some(round => round.precision === 'month') && (
+        <div className="text-xs text-gray-500">Exact day not announced</div>
+      )}
+      {deadline.timeZone && (
+        <div className="text-xs text-gray-500">🕛 End of day, {deadline.timeZone}</div>
+      )}
+      {deadline.notes && <div className="text-xs text-gray-500">{deadline.notes}</div>}
     </div>
   )
 }
 
 // Component for rendering programs list
-function ProgramsRenderer({ programs }: { programs: string[] }) {
+function ProgramsRenderer({ programs, searchTerm, matchingPrograms, expanded, onToggleExpand }: {
+  programs: Program[]
+  searchTerm: string
+  // Programs meeting the program filters; the others are dimmed
+  matchingPrograms?: Program[]
+  expanded?: boolean
+  onToggleExpand?: () => void
+}) {
   const [showAll, setShowAll] = useState(false)
   
   if (!programs || programs.length === 0) {
     return <span className="text-gray-400 italic">No programs listed</span>
   }
   
-  const displayPrograms = showAll ? programs : programs.slice(0, 2)
+  const isMatch = (program: Program) => !matchingPrograms || matchingPrograms.includes(program)
+
+  // Programs matching the search or the program filters stay visible when collapsed
+  const displayPrograms = showAll
+    ? programs
+    : programs.filter((program, index) =>
+      (index < 2 && !matchingPrograms) ||
+      (matchingPrograms ? isMatch(program) : findMatchRanges(program.name, searchTerm).length > 0)
+    )
+  const hiddenCount = programs.length - displayPrograms.length
   
   return (
     <div className="space-y-1">
+      {matchingPrograms && (
+        <div className="text-xs font-medium text-purple-700">
+          {matchingPrograms.length} of {programs.length} {programs.length === 1 ? 'program matches' : 'programs match'}
+        </div>
+      )}
       {displayPrograms.map((program, index) => (
-        <div key={index} className="text-sm text-gray-700 bg-blue-50 px-2 py-1 rounded">
-          {program}
+        <div
+          key={index}
+          className={`text-sm text-gray-700 bg-blue-50 px-2 py-1 rounded ${isMatch(program) ? '' : 'opacity-50'}`}
+        >
+          <HighlightedText text={program.name} searchTerm={searchTerm} />
+          {program.overrides.length > 0 && (
+            <span className="ml-1 text-xs text-purple-700" title="Has its own start date or deadline">📅</span>
+          )}
         </div>
       ))}
-      {programs.length > 2 && (
-        <button
-          onClick={() => setShowAll(!showAll)}
-          className="text-xs text-blue-600 hover:text-blue-800 underline"
+      <div className="flex items-center space-x-3">
+        {(showAll || hiddenCount > 0) && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="text-xs text-blue-600 hover:text-blue-800 underline"
+          >
+            {showAll ? 'Show less' : `Show ${hiddenCount} more`}
+          </button>
+        )}
+        {onToggleExpand && (
+          <button
+            onClick={onToggleExpand}
+            className="text-xs text-blue-600 hover:text-blue-800"
+            aria-expanded={expanded}
+          >
+            {expanded ? '▾ Hide program details' : '▸ Program details'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Details of one program, as shown in its sub-row of the data table
+export function ProgramDetails({ program, searchTerm = '', currency = DEFAULT_DISPLAY_CURRENCY }: {
+  program: Program
+  searchTerm?: string
+  currency?: string
+}) {
+  const facts = [
+    program.degreeType && DEGREE_LABELS[program.degreeType],
+    program.durationMonths !== null && `⏱️ ${formatDuration(program.durationMonths)}`,
+    program.languages.length > 0 && `🗣️ ${program.languages.join(', ')}`
+  ].filter(Boolean)
+
+  return (
+    <div className="space-y-1">
+      <div className="text-sm font-medium text-gray-900">
+        <HighlightedText text={program.name} searchTerm={searchTerm} />
+      </div>
+      {facts.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {facts.map(fact => (
+            <span key={String(fact)} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">{fact}</span>
+          ))}
+        </div>
+      )}
+      {program.tuition && (
+        <div className="text-xs text-gray-700">
+          💰 Tuition: {program.tuition.text}
+          {program.tuition.amount && <FundingAmountRenderer amount={program.tuition.amount} currency={currency} />}
+        </div>
+      )}
+      {program.specializations.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {program.specializations.map(specialization => (
+            <span key={specialization} className="text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded-full">
+              <HighlightedText text={specialization} searchTerm={searchTerm} />
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Component for rendering rankings, featuring the chosen system and listing the others
+function RankingRenderer({ ranking, rankingSystem }: { ranking: ParsedUniversity['ranking']; rankingSystem: string | null }) {
+  const featured = rankingSystem === null || rankingSystem === COMPOSITE_RANKING
+    ? ranking.entries.find(entry => entry.display === ranking.display)
+    : findRanking(ranking.entries, rankingSystem)
+  const others = ranking.entries.filter(entry => entry !== featured)
+
+  return (
+    <div className="space-y-1">
+      {rankingSystem === COMPOSITE_RANKING ? (
+        <div className="font-medium text-gray-900" title="Average of log-scaled positions across ranking systems">
+          {isNaN(ranking.composite) ? 'Not ranked' : `${ranking.composite} / 100`}
+        </div>
+      ) : (
+        <div className="font-medium text-gray-900">
+          {featured ? featured.display : `Not ranked by ${rankingSystem}`}
+        </div>
+      )}
+      <div className="text-xs text-gray-500 bg-purple-100 px-2 py-1 rounded-full inline-block">
+        {rankingSystem === COMPOSITE_RANKING ? 'Composite score' : `${featured?.system ?? rankingSystem} Ranking`}
+      </div>
+      {others.length > 0 && (
+        <ul className="text-xs text-gray-600 space-y-0.5">
+          {others.map(entry => (
+            <li key={entry.display}>
+              {entry.sourceUrl ? (
+                <a href={entry.sourceUrl} target="_blank" rel="noopener noreferrer" className="hover:text-blue-700 underline">
+                  {entry.display}
+                </a>
+              ) : entry.display}
+            </li>
+          ))}
+        </ul>
+      )}
+      {rankingSystem !== COMPOSITE_RANKING && !isNaN(ranking.composite) && ranking.entries.length > 1 && (
+        <div className="text-xs text-gray-400">Composite {ranking.composite} / 100</div>
+      )}
+    </div>
+  )
+}
+
+const FUNDING_TIER_BADGES: Record<FundingTier, { label: string; className: string }> = {
+  'full': { label: '🌟 Full funding', className: 'bg-green-600 text-white' },
+  'tuition-waiver': { label: '🎓 Tuition waiver', className: 'bg-blue-100 text-blue-800' },
+  'stipend': { label: '💶 Stipend', className: 'bg-purple-100 text-purple-800' },
+  'partial': { label: '🪙 Partial', className: 'bg-yellow-100 text-yellow-800' },
+  'unknown': { label: '❔ Unclear', className: 'bg-gray-100 text-gray-600' }
+}
+
+// Component for showing a parsed amount in its original currency and in the display currency
+function FundingAmountRenderer({ amount, currency }: { amount: FundingAmount; currency: string }) {
+  const converted = amount.currency !== currency ? convertFundingAmount(amount, currency) : null
+
+  return (
+    <div className="text-xs text-green-800 space-x-1">
+      <span className="font-medium">{formatFundingAmount(amount)}</span>
+      {converted && (
+        <span
+          className="text-gray-500"
+          title={`Converted at ${EXCHANGE_RATES.base}-based rates as of ${EXCHANGE_RATES.asOf}`}
         >
-          {showAll ? 'Show less' : `Show ${programs.length - 2} more`}
-        </button>
+          ≈ {formatFundingAmount(converted)}
+        </span>
       )}
     </div>
   )
 }
 
 // Component for rendering scholarships
-function ScholarshipsRenderer({ scholarships }: { scholarships: ParsedUniversity['scholarships'] }) {
+function ScholarshipsRenderer({ scholarships, currency }: { scholarships: ParsedUniversity['scholarships']; currency: string }) {
   const [showAll, setShowAll] = useState(false)
   
   if (!scholarships || scholarships.length === 0) {
@@ -164,8 +376,16 @@ function ScholarshipsRenderer({ scholarships }: { scholarships: ParsedUniversity
     <div className="space-y-2">
       {displayScholarships.map((scholarship, index) => (
         <div key={index} className="bg-green-50 p-2 rounded border border-green-200">
-          <div className="font-medium text-green-900 text-sm">{scholarship.name}</div>
+          <div className="flex items-start justify-between gap-2">
+            <div className="font-medium text-green-900 text-sm">{scholarship.name}</div>
+            <span className={`shrink-0 px-1.5 py-0.5 text-xs font-medium rounded-full ${FUNDING_TIER_BADGES[scholarship.funding.tier].className}`}>
+              {FUNDING_TIER_BADGES[scholarship.funding.tier].label}
+            </span>
+          </div>
           <div className="text-green-700 text-xs">{scholarship.amount}</div>
+          {scholarship.funding.amount && (
+            <FundingAmountRenderer amount={scholarship.funding.amount} currency={currency} />
+          )}
           {scholarship.url && (
             <a
               href={scholarship.url}
@@ -190,26 +410,113 @@ function ScholarshipsRenderer({ scholarships }: { scholarships: ParsedUniversity
   )
 }
 
+// GRE badge colors, green where the GRE can be skipped
+const GRE_BADGE_CLASSES: Record<GreRequirement, string> = {
+  'required': 'bg-red-100 text-red-800',
+  'recommended': 'bg-yellow-100 text-yellow-800',
+  'optional': 'bg-green-100 text-green-800',
+  'not-required': 'bg-green-100 text-green-800',
+  'not-accepted': 'bg-gray-100 text-gray-700'
+}
+
+// Component for rendering structured admission requirements as badges
+function RequirementBadges({ requirements }: { requirements: AdmissionRequirements }) {
+  const { minGpa, gre, englishTests, degree, documents } = requirements
+  const badge = 'px-1.5 py-0.5 text-xs font-medium rounded-full'
+  const fields = degree.anyDiscipline
+    ? 'Any discipline'
+    : degree.fields.length > 0 ? `${degree.fields.join(' / ')}${degree.relatedAccepted ? ' or related' : ''}` : null
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {minGpa && (
+        <span className={`${badge} bg-blue-100 text-blue-800`}>GPA ≥ {minGpa.value}/{minGpa.scale}</span>
+      )}
+      {gre && <span className={`${badge} ${GRE_BADGE_CLASSES[gre]}`}>{GRE_LABELS[gre]}</span>}
+      {englishTests.map(({ test, minScore }) => (
+        <span key={test} className={`${badge} bg-purple-100 text-purple-800`}>
+          {test}{minScore !== null ? ` ≥ ${minScore}` : ''}
+        </span>
+      ))}
+      {fields && <span className={`${badge} bg-gray-100 text-gray-700`}>🎓 {fields}</span>}
+      {degree.classification && (
+        <span className={`${badge} bg-gray-100 text-gray-700`}>{degree.classification} degree</span>
+      )}
+      {documents.map(document => (
+        <span key={document} className={`${badge} bg-orange-100 text-orange-800`}>📄 {DOCUMENT_LABELS[document]}</span>
+      ))}
+    </div>
+  )
+}
+
+// Flag for a field that needs checking against its source again
+function FreshnessBadge({ freshness }: { freshness: FieldFreshness }) {
+  return freshness.status === 'stale' ? (
+    <div className="mt-1">
+      <span
+        className="inline-flex items-center bg-amber-50 text-amber-800 border border-amber-200 px-2 py-0.5 rounded text-xs font-medium"
+        title={freshness.reason}
+      >
+        🕰️ Needs re-check
+      </span>
+      {freshness.verifiedOn && (
+        <div className="text-xs text-gray-500 mt-1">Verified {formatCalendarDate(freshness.verifiedOn)}</div>
+      )}
+    </div>
+  ) : (
+    <div className="mt-1 text-xs text-gray-400" title={freshness.reason}>Never checked</div>
+  )
+}
+
 // Main component for rendering formatted cells
 interface FormattedCellProps {
   column: keyof ParsedUniversity
   value: any
   searchTerm?: string
+  // Currency scholarship amounts are converted to
+  currency?: string
+  // Ranking system to feature: a system, the composite score, or null for the headline ranking
+  rankingSystem?: string | null
+  // Parsed requirements, shown as badges under the acceptance criteria
+  requirements?: AdmissionRequirements
+  // Programs meeting the program filters, and the sub-row toggle, for the programs column
+  matchingPrograms?: Program[]
+  programsExpanded?: boolean
+  onTogglePrograms?: () => void
+  // When the field was last verified; stale and never checked fields are flagged under the value
+  freshness?: FieldFreshness
+  // Sources backing the field; a value no citation backs is outlined as unverified
+  provenance?: FieldProvenance
 }
 
-export default function FormattedCell({ column, value, searchTerm = '' }: FormattedCellProps) {
-  const highlightText = (text: string) => {
-    if (!searchTerm || !text) return text
-    const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi')
-    const parts = text.split(regex)
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <span key={index} className="bg-yellow-200 font-medium px-1 rounded">
-          {part}
-        </span>
-      ) : part
-    )
-  }
+export default function FormattedCell({ freshness, provenance, ...props }: FormattedCellProps) {
+  const flagFreshness = freshness && freshness.status !== 'current'
+  const uncited = provenance && !provenance.cited
+  if (!flagFreshness && !uncited) return <CellContent {...props} />
+  return (
+    <div
+      className={uncited ? 'border border-dashed border-amber-300 bg-amber-50/40 rounded p-1' : undefined}
+      title={uncited ? 'Unverified: no citation backs this value' : undefined}
+    >
+      <CellContent {...props} />
+      {flagFreshness && <FreshnessBadge freshness={freshness} />}
+      {uncited && <div className="mt-1 text-xs font-medium text-amber-700">❓ Unverified</div>}
+    </div>
+  )
+}
+
+function CellContent({
+  column,
+  value,
+  searchTerm = '',
+  currency = DEFAULT_DISPLAY_CURRENCY,
+  rankingSystem = null,
+  requirements,
+  matchingPrograms,
+  programsExpanded,
+  onTogglePrograms
+}: Omit<FormattedCellProps, 'freshness' | 'provenance'>) {
+  const highlightText = (text: string) => <HighlightedText text={text} searchTerm={searchTerm} />
   
   // Handle different column types
   switch (column) {
@@ -244,17 +551,18 @@ export default function FormattedCell({ column, value, searchTerm = '' }: Format
       )
     
     case 'ranking':
-      return (
-        <div className="space-y-1">
-          <div className="font-medium text-gray-900">{value.display}</div>
-          <div className="text-xs text-gray-500 bg-purple-100 px-2 py-1 rounded-full inline-block">
-            {value.system} Ranking
-          </div>
-        </div>
-      )
+      return <RankingRenderer ranking={value} rankingSystem={rankingSystem} />
     
     case 'programs':
-      return <ProgramsRenderer programs={value} />
+      return (
+        <ProgramsRenderer
+          programs={value}
+          searchTerm={searchTerm}
+          matchingPrograms={matchingPrograms}
+          expanded={programsExpanded}
+          onToggleExpand={onTogglePrograms}
+        />
+      )
     
     case 'programStart':
       return (
@@ -273,7 +581,7 @@ export default function FormattedCell({ column, value, searchTerm = '' }: Format
       return <ContactRenderer contact={value} />
     
     case 'scholarships':
-      return <ScholarshipsRenderer scholarships={value} />
+      return <ScholarshipsRenderer scholarships={value} currency={currency} />
     
     case 'url':
       return (
@@ -291,7 +599,15 @@ export default function FormattedCell({ column, value, searchTerm = '' }: Format
       )
     
     case 'citations':
-      return <LinkRenderer links={value} />
+      return <CitationsRenderer citations={value} />
+    
+    case 'acceptanceCriteria':
+      return (
+        <div className="text-sm text-gray-700">
+          {highlightText(value || '')}
+          {requirements && <RequirementBadges requirements={requirements} />}
+        </div>
+      )
     
     default:
       return (
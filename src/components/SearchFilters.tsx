@@ -3,33 +3,49 @@
 import { useState, useEffect, useMemo } from 'react'
 import type { ParsedUniversity } from '@/utils/dataParser'
 import { extractCountries, extractAcceptanceRates } from '@/utils/dataParser'
-import CustomDropdown from './ui/CustomDropdown'
+import { DEFAULT_FILTER_STATE, type FilterState } from '@/utils/urlState'
+import { describeClause, parseSearchQuery, queryClauses, removeQueryClause, type QueryClause } from '@/utils/searchQuery'
+import { buildLocationTree, summarizeCountrySelection } from '@/utils/geography'
+import { formatMoney } from '@/utils/currency'
+import { extractRankingSystems } from '@/utils/rankings'
+import { DEGREE_LABELS, extractDegreeTypes, extractLanguages } from '@/utils/programs'
+import CustomDropdown, { type Option } from './ui/CustomDropdown'
 import CustomSlider from './ui/CustomSlider'
 import FilterChips from './ui/FilterChips'
 
 interface SearchFiltersProps {
   universities: ParsedUniversity[]
-  onFilterChange: (filteredData: ParsedUniversity[], searchTerm: string) => void
+  // Filter values are owned by the parent so they can live in the URL
+  filters: FilterState
+  onFiltersChange: (filters: FilterState) => void
+  // Extra controls shown in the header, e.g. the presets menu
+  actions?: React.ReactNode
+  // Display currency; new stipend minimums are entered in it
+  currency: string
 }
 
-// Custom hook for debounced search
-function useDebounce<T>(value: T, delay: number): T {
-  const [debouncedValue, setDebouncedValue] = useState(value)
+// Pause in typing after which the search term is applied
+const SEARCH_DEBOUNCE_MS = 300
 
-  useEffect(() => {
-    const handler = setTimeout(() => {
-      setDebouncedValue(value)
-    }, delay)
-
-    return () => {
-      clearTimeout(handler)
-    }
-  }, [value, delay])
-
-  return debouncedValue
+const CLAUSE_CHIP_COLORS: Record<QueryClause['kind'], 'blue' | 'green' | 'purple' | 'red' | 'gray'> = {
+  text: 'blue',
+  field: 'green',
+  compare: 'purple',
+  not: 'red',
+  or: 'gray'
 }
 
-export default function SearchFilters({ universities, onFilterChange }: SearchFiltersProps) {
+// Example queries shown in the syntax help
+const QUERY_EXAMPLES = [
+  'country:germany program:"machine learning"',
+  'acceptance:>20 qs:<50',
+  'deadline:<2026-01-01 NOT country:usa',
+  'ielts:<=6.5 gre:optional',
+  'degree:meng program:"computer science"',
+  '(scholarship:DAAD OR scholarship:chevening) engineering'
+]
+
+export default function SearchFilters({ universities, filters, onFiltersChange, actions, currency }: SearchFiltersProps) {
   // Get acceptance rate range first to initialize state correctly
   const { minAcceptanceRate, maxAcceptanceRate } = useMemo(() => {
     const rates = extractAcceptanceRates(universities)
@@ -39,8 +55,6 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
     }
   }, [universities])
 
-  const [searchTerm, setSearchTerm] = useState('')
-  const [selectedCountry, setSelectedCountry] = useState('')
   // Get min and max ranking for slider
   const { minRank, maxRank } = useMemo(() => {
     const ranks = universities.map(uni => uni.rank).filter(rank => !isNaN(rank))
@@ -50,91 +64,122 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
     }
   }, [universities])
 
-  const [rankingRange, setRankingRange] = useState([minRank, maxRank])
-  const [acceptanceRateRange, setAcceptanceRateRange] = useState([minAcceptanceRate, maxAcceptanceRate])
-  const [showAdvancedFilters, setShowAdvancedFilters] = useState(false)
-  
-  const debouncedSearchTerm = useDebounce(searchTerm, 300)
+  const { selectedCountries, rankingSystemMax, showAdvancedFilters, fullFundingOnly, minMonthlyStipend, greOptional, maxIelts, maxToefl, hideIneligible, openDeadlinesOnly, degreeTypes, languages } = filters
 
-  // Extract unique countries for filter dropdown
-  const countries = useMemo(() => extractCountries(universities), [universities])
+  // One "top N" filter per ranking system in the data
+  const rankingSystems = useMemo(() => extractRankingSystems(universities), [universities])
 
+  // Program filters offer only what some program in the data has
+  const degreeOptions = useMemo(() => extractDegreeTypes(universities), [universities])
+  const languageOptions = useMemo(() => extractLanguages(universities), [universities])
 
-  // Filter universities based on search criteria
-  useEffect(() => {
-    let filtered = universities
-
-    // Text search across multiple fields
-    if (debouncedSearchTerm) {
-      const searchLower = debouncedSearchTerm.toLowerCase()
-      filtered = filtered.filter(uni => 
-        uni.universityName?.toLowerCase().includes(searchLower) ||
-        uni.cityCountry?.toLowerCase().includes(searchLower) ||
-        uni.programs?.some(program => program.toLowerCase().includes(searchLower)) ||
-        uni.acceptanceCriteria?.toLowerCase().includes(searchLower) ||
-        uni.ranking?.display?.toLowerCase().includes(searchLower) ||
-        uni.scholarships?.some(scholarship => 
-          scholarship.name.toLowerCase().includes(searchLower) ||
-          scholarship.amount.toLowerCase().includes(searchLower)
-        )
-      )
-    }
+  // Add or remove one entry of a multi-choice filter
+  const toggleItem = <T,>(items: T[], item: T): T[] =>
+    items.includes(item) ? items.filter(existing => existing !== item) : [...items, item]
 
-    // Country filter
-    if (selectedCountry) {
-      filtered = filtered.filter(uni => 
-        uni.cityCountry?.includes(selectedCountry)
-      )
-    }
+  // A minimum restored from a link or preset keeps its own currency
+  const stipendCurrency = minMonthlyStipend?.currency ?? currency
 
-    // Ranking range filter
-    filtered = filtered.filter(uni => {
-      const rank = uni.rank
-      return rank >= rankingRange[0] && rank <= rankingRange[1]
-    })
+  // Unset (or open-ended) ranges cover the full slider
+  const rankingRange = useMemo<[number, number]>(() => [
+    Math.max(filters.rankingRange?.[0] ?? minRank, minRank),
+    Math.min(filters.rankingRange?.[1] ?? maxRank, maxRank)
+  ], [filters.rankingRange, minRank, maxRank])
+  const acceptanceRateRange = useMemo<[number, number]>(() => [
+    Math.max(filters.acceptanceRateRange?.[0] ?? minAcceptanceRate, minAcceptanceRate),
+    Math.min(filters.acceptanceRateRange?.[1] ?? maxAcceptanceRate, maxAcceptanceRate)
+  ], [filters.acceptanceRateRange, minAcceptanceRate, maxAcceptanceRate])
 
-    // Acceptance rate filter
-    if (showAdvancedFilters) {
-      filtered = filtered.filter(uni => {
-        const rate = uni.acceptanceRate.value
-        return rate >= acceptanceRateRange[0] && rate <= acceptanceRateRange[1]
-      })
-    }
+  const updateFilters = (changes: Partial<FilterState>) => {
+    onFiltersChange({ ...filters, ...changes })
+  }
+
+  const setSelectedCountries = (countries: string[]) => updateFilters({ selectedCountries: countries })
+  const setShowAdvancedFilters = (show: boolean) => updateFilters({ showAdvancedFilters: show })
+
+  // An empty limit removes the system's filter
+  const setRankingSystemMax = (system: string, max: number) => {
+    const others = Object.fromEntries(Object.entries(rankingSystemMax).filter(([name]) => name !== system))
+    updateFilters({ rankingSystemMax: Number.isInteger(max) && max >= 1 ? { ...others, [system]: max } : others })
+  }
 
-    onFilterChange(filtered, debouncedSearchTerm)
-  }, [debouncedSearchTerm, selectedCountry, rankingRange, acceptanceRateRange, showAdvancedFilters, universities, onFilterChange])
+  // An empty or zero minimum is stored as unset
+  const setStipendMinimum = (amount: number, currency: string) => updateFilters({
+    minMonthlyStipend: amount > 0 ? { amount, currency } : null
+  })
+
+  // A range spanning the full slider is stored as unset
+  const setRankingRange = ([min, max]: number[]) => updateFilters({
+    rankingRange: min === minRank && max === maxRank ? null : [min, max]
+  })
+  const setAcceptanceRateRange = ([min, max]: number[]) => updateFilters({
+    acceptanceRateRange: min === minAcceptanceRate && max === maxAcceptanceRate ? null : [min, max]
+  })
+
+  // The input updates immediately; the filter only after typing pauses
+  const [searchTerm, setSearchTerm] = useState(filters.searchTerm)
+
+  useEffect(() => {
+    if (searchTerm === filters.searchTerm) return
+    const handler = setTimeout(() => onFiltersChange({ ...filters, searchTerm }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(handler)
+  }, [searchTerm, filters, onFiltersChange])
+
+  // Follow the search term when it changes from outside (back/forward, shared link)
+  useEffect(() => {
+    setSearchTerm(filters.searchTerm)
+  }, [filters.searchTerm])
+
+  // Parse the settled query; errors are shown under the input rather than while typing
+  const parsedQuery = useMemo(() => parseSearchQuery(filters.searchTerm), [filters.searchTerm])
+  const queryError = 'error' in parsedQuery && searchTerm === filters.searchTerm ? parsedQuery.error : null
+  const queryClauseNodes = useMemo(() => 'query' in parsedQuery ? queryClauses(parsedQuery.query) : [], [parsedQuery])
+
+  // Extract unique countries for filter dropdown, grouped by continent and region
+  const countries = useMemo(() => extractCountries(universities), [universities])
+  const locationTree = useMemo(() => buildLocationTree(universities, countries), [universities, countries])
+  const locationOptions = useMemo(() => locationTree.continents.flatMap(continent => [
+    { value: `continent:${continent.name}`, label: continent.name, count: continent.count, values: continent.countries, icon: '🌍' },
+    ...continent.regions.flatMap(region => [
+      // A region named like its continent would repeat the row above
+      ...(region.name !== continent.name
+        ? [{ value: `region:${region.name}`, label: region.name, count: region.count, values: region.countries, depth: 1 }]
+        : []),
+      ...region.countryCounts.map(({ country, count }) => ({ value: country, label: country, count, icon: '🏛️', depth: 2 }))
+    ])
+  ] as Option[]), [locationTree])
 
   const clearFilters = () => {
     setSearchTerm('')
-    setSelectedCountry('')
-    setRankingRange([minRank, maxRank])
-    setAcceptanceRateRange([minAcceptanceRate, maxAcceptanceRate])
-    setShowAdvancedFilters(false)
+    onFiltersChange(DEFAULT_FILTER_STATE)
   }
 
   // Generate filter chips
   const filterChips = useMemo(() => {
     const chips = []
     
-    if (debouncedSearchTerm) {
+    // One chip per condition of the search query
+    queryClauseNodes.forEach((node, index) => {
+      const clause = describeClause(node)
       chips.push({
-        id: 'search',
-        label: 'Search',
-        value: `"${debouncedSearchTerm}"`,
-        color: 'blue' as const,
+        id: `query-${index}`,
+        label: clause.label,
+        value: clause.value,
+        color: CLAUSE_CHIP_COLORS[clause.kind],
         removable: true
       })
-    }
+    })
     
-    if (selectedCountry) {
+    // Whole continents and regions get one chip instead of one per country
+    summarizeCountrySelection(locationTree, selectedCountries).forEach(group => {
       chips.push({
-        id: 'country',
-        label: 'Country',
-        value: selectedCountry,
+        id: `location-${group.kind}-${group.name}`,
+        label: group.kind === 'continent' ? 'Continent' : group.kind === 'region' ? 'Region' : 'Country',
+        value: group.name,
         color: 'green' as const,
         removable: true
       })
-    }
+    })
     
     if (rankingRange[0] !== minRank || rankingRange[1] !== maxRank) {
       chips.push({
@@ -146,6 +191,106 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
       })
     }
     
+    Object.entries(rankingSystemMax).forEach(([system, max]) => {
+      chips.push({
+        id: `ranking-system-${system}`,
+        label: system,
+        value: `Top ${max}`,
+        color: 'purple' as const,
+        removable: true
+      })
+    })
+    
+    if (fullFundingOnly) {
+      chips.push({
+        id: 'full-funding',
+        label: 'Funding',
+        value: 'Full funding',
+        color: 'green' as const,
+        removable: true
+      })
+    }
+    
+    if (minMonthlyStipend) {
+      chips.push({
+        id: 'stipend',
+        label: 'Stipend',
+        value: `≥ ${formatMoney(minMonthlyStipend.amount, minMonthlyStipend.currency)}/month`,
+        color: 'blue' as const,
+        removable: true
+      })
+    }
+    
+    if (greOptional) {
+      chips.push({
+        id: 'gre',
+        label: 'GRE',
+        value: 'Not required',
+        color: 'gray' as const,
+        removable: true
+      })
+    }
+    
+    if (maxIelts !== null) {
+      chips.push({
+        id: 'ielts',
+        label: 'IELTS',
+        value: `≤ ${maxIelts}`,
+        color: 'gray' as const,
+        removable: true
+      })
+    }
+    
+    if (maxToefl !== null) {
+      chips.push({
+        id: 'toefl',
+        label: 'TOEFL',
+        value: `≤ ${maxToefl}`,
+        color: 'gray' as const,
+        removable: true
+      })
+    }
+    
+    if (hideIneligible) {
+      chips.push({
+        id: 'eligible',
+        label: 'Eligibility',
+        value: 'Hide not eligible',
+        color: 'gray' as const,
+        removable: true
+      })
+    }
+    
+    if (openDeadlinesOnly) {
+      chips.push({
+        id: 'deadline',
+        label: 'Deadline',
+        value: 'Still open',
+        color: 'green' as const,
+        removable: true
+      })
+    }
+    
+    if (degreeTypes.length > 0) {
+      chips.push({
+        id: 'degree',
+        label: 'Degree',
+        value: degreeTypes.map(type => DEGREE_LABELS[type]).join(', '),
+        color: 'purple' as const,
+        removable: true
+      })
+    }
+    
+    if (languages.length > 0) {
+      chips.push({
+        id: 'language',
+        label: 'Taught in',
+        value: languages.join(', '),
+        color: 'purple' as const,
+        removable: true
+      })
+    }
+    
     if (showAdvancedFilters && (acceptanceRateRange[0] !== minAcceptanceRate || acceptanceRateRange[1] !== maxAcceptanceRate)) {
       chips.push({
         id: 'acceptance',
@@ -157,22 +302,62 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
     }
     
     return chips
-  }, [debouncedSearchTerm, selectedCountry, rankingRange, acceptanceRateRange, showAdvancedFilters, minRank, maxRank, minAcceptanceRate, maxAcceptanceRate])
+  }, [queryClauseNodes, locationTree, selectedCountries, rankingRange, rankingSystemMax, fullFundingOnly, minMonthlyStipend, greOptional, maxIelts, maxToefl, hideIneligible, openDeadlinesOnly, degreeTypes, languages, acceptanceRateRange, showAdvancedFilters, minRank, maxRank, minAcceptanceRate, maxAcceptanceRate])
 
   // Handle chip removal
   const handleChipRemove = (chipId: string) => {
+    if (chipId.startsWith('query-') && 'query' in parsedQuery) {
+      const remaining = removeQueryClause(parsedQuery.query, Number(chipId.slice('query-'.length)))
+      setSearchTerm(remaining)
+      updateFilters({ searchTerm: remaining })
+      return
+    }
+
+    if (chipId.startsWith('ranking-system-')) {
+      setRankingSystemMax(chipId.slice('ranking-system-'.length), NaN)
+      return
+    }
+
+    if (chipId.startsWith('location-')) {
+      const group = summarizeCountrySelection(locationTree, selectedCountries)
+        .find(candidate => `location-${candidate.kind}-${candidate.name}` === chipId)
+      if (group) setSelectedCountries(selectedCountries.filter(country => !group.countries.includes(country)))
+      return
+    }
+
     switch (chipId) {
-      case 'search':
-        setSearchTerm('')
+      case 'ranking':
+        updateFilters({ rankingRange: null })
         break
-      case 'country':
-        setSelectedCountry('')
+      case 'full-funding':
+        updateFilters({ fullFundingOnly: false })
         break
-      case 'ranking':
-        setRankingRange([minRank, maxRank])
+      case 'stipend':
+        updateFilters({ minMonthlyStipend: null })
+        break
+      case 'gre':
+        updateFilters({ greOptional: false })
+        break
+      case 'ielts':
+        updateFilters({ maxIelts: null })
+        break
+      case 'toefl':
+        updateFilters({ maxToefl: null })
+        break
+      case 'eligible':
+        updateFilters({ hideIneligible: false })
+        break
+      case 'deadline':
+        updateFilters({ openDeadlinesOnly: false })
+        break
+      case 'degree':
+        updateFilters({ degreeTypes: [] })
+        break
+      case 'language':
+        updateFilters({ languages: [] })
         break
       case 'acceptance':
-        setAcceptanceRateRange([minAcceptanceRate, maxAcceptanceRate])
+        updateFilters({ acceptanceRateRange: null })
         break
     }
   }
@@ -185,15 +370,18 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
           <h2 className="text-xl font-bold text-gray-900">🔍 Search & Filter Universities</h2>
           <p className="text-sm text-gray-600 mt-1">Find your perfect university match</p>
         </div>
-        <button
-          onClick={() => setShowAdvancedFilters(!showAdvancedFilters)}
-          className="px-4 py-2 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors duration-150 flex items-center space-x-2"
-        >
-          <span>{showAdvancedFilters ? 'Basic' : 'Advanced'} Filters</span>
-          <svg className={`w-4 h-4 transform transition-transform ${showAdvancedFilters ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-          </svg>
-        </button>
+        <div className="flex items-center space-x-3">
+          {actions}
+          <button
+            onClick={() => setShowAdvancedFilters(!showAdvancedFilters)}
+            className="px-4 py-2 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors duration-150 flex items-center space-x-2"
+          >
+            <span>{showAdvancedFilters ? 'Basic' : 'Advanced'} Filters</span>
+            <svg className={`w-4 h-4 transform transition-transform ${showAdvancedFilters ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
       </div>
       
       <div className="space-y-6">
@@ -210,9 +398,12 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
                 type="text"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="Search by name, location, programs, funding, or criteria..."
-                className="w-full px-4 py-3 pl-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white shadow-sm"
+                placeholder='Search by name, location, programs... or try country:germany acceptance:>20'
+                className={`w-full px-4 py-3 pl-12 border rounded-lg focus:ring-2 focus:border-transparent bg-white shadow-sm ${
+                  queryError ? 'border-red-400 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+                }`}
                 aria-describedby="search-help"
+                aria-invalid={queryError !== null}
               />
               <div className="absolute inset-y-0 left-0 flex items-center pl-3">
                 <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -230,28 +421,63 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
                 </button>
               )}
             </div>
-            <p id="search-help" className="mt-1 text-xs text-gray-500">
-              Search across all university data including programs, funding, and contact info
-            </p>
+            {queryError ? (
+              <div id="search-help" className="mt-1 text-xs text-red-600" role="alert">
+                <span className="font-medium">⚠️ {queryError.message}</span>
+                <code className="block mt-1 font-mono text-gray-700 whitespace-pre-wrap">
+                  {filters.searchTerm.slice(0, queryError.position)}
+                  <span className="bg-red-100 text-red-700 underline decoration-wavy">
+                    {filters.searchTerm.slice(queryError.position) || ' '}
+                  </span>
+                </code>
+              </div>
+            ) : (
+              <p id="search-help" className="mt-1 text-xs text-gray-500">
+                Search across all university data including programs, funding, and contact info
+              </p>
+            )}
+            <details className="mt-1 text-xs text-gray-500">
+              <summary className="cursor-pointer text-blue-600 hover:text-blue-800">Query syntax</summary>
+              <div className="mt-2 space-y-1">
+                <p>
+                  Fields: <code>name:</code> <code>country:</code> <code>city:</code> <code>program:</code>{' '}
+                  <code>scholarship:</code> <code>criteria:</code> <code>gre:</code> <code>degree:</code> <code>language:</code> for text; <code>acceptance:</code> <code>rank:</code>{' '}
+                  <code>ranking:</code> <code>qs:</code> <code>the:</code> <code>arwu:</code> <code>composite:</code>{' '}
+                  <code>ielts:</code> <code>toefl:</code> <code>gpa:</code> (on a 4-point scale) <code>deadline:</code> with <code>&lt;</code> <code>&lt;=</code>{' '}
+                  <code>&gt;</code> <code>&gt;=</code> or an exact value.
+                </p>
+                <p>
+                  <code>program:</code> <code>degree:</code> <code>language:</code> and <code>deadline:</code> describe one program, so
+                  together they have to hold for the same program.
+                </p>
+                <p>Combine with <code>AND</code> (the default), <code>OR</code>, <code>NOT</code> and parentheses; quote phrases.</p>
+                <ul className="space-y-1">
+                  {QUERY_EXAMPLES.map(example => (
+                    <li key={example}>
+                      <button
+                        type="button"
+                        onClick={() => setSearchTerm(example)}
+                        className="font-mono text-gray-700 bg-gray-100 hover:bg-gray-200 px-2 py-0.5 rounded"
+                      >
+                        {example}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </details>
           </div>
 
           {/* Country Filter */}
           <div>
             <CustomDropdown
-              label="🌍 Country"
-              value={selectedCountry}
-              onChange={setSelectedCountry}
+              label="🌍 Location"
+              multiple
+              value={selectedCountries}
+              onChange={setSelectedCountries}
               placeholder={`All Countries (${countries.length})`}
               searchable
-              options={[
-                { value: '', label: `All Countries (${countries.length})`, count: universities.length },
-                ...countries.map(country => ({
-                  value: country,
-                  label: country,
-                  count: universities.filter(uni => uni.cityCountry.includes(country)).length,
-                  icon: '🏛️'
-                }))
-              ]}
+              options={locationOptions}
               icon={
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -269,7 +495,7 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
               label="🏆 University Ranking Range"
               min={minRank}
               max={maxRank}
-              value={rankingRange as [number, number]}
+              value={rankingRange}
               onChange={(value) => {
                 const newValue = Array.isArray(value) ? value : [value, value]
                 setRankingRange([newValue[0], newValue[1]])
@@ -299,6 +525,201 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
           </div>
         </div>
 
+        {/* Ranking System Filters */}
+        {rankingSystems.length > 0 && (
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">🏅 Position in ranking system</span>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              {rankingSystems.map(system => (
+                <label key={system} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span className="w-16 shrink-0 font-medium">{system}</span>
+                  <span className="text-gray-500">top</span>
+                  <input
+                    type="number"
+                    min={1}
+                    step={10}
+                    value={rankingSystemMax[system] ?? ''}
+                    onChange={(e) => setRankingSystemMax(system, Number(e.target.value))}
+                    placeholder="Any"
+                    className="w-full min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white shadow-sm"
+                    aria-label={`Highest ${system} position`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Funding Filters */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">💰 Funding</span>
+            <button
+              type="button"
+              onClick={() => updateFilters({ fullFundingOnly: !fullFundingOnly })}
+              className={`w-full px-4 py-3 text-sm rounded-lg border transition-colors duration-150 flex items-center space-x-2 ${
+                fullFundingOnly
+                  ? 'bg-green-50 border-green-300 text-green-800'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+              aria-pressed={fullFundingOnly}
+            >
+              <span>{fullFundingOnly ? '✅' : '⬜'}</span>
+              <span>Has full funding (tuition and living costs)</span>
+            </button>
+          </div>
+
+          <div>
+            <label htmlFor="stipend-min" className="block text-sm font-medium text-gray-700 mb-2">
+              🪙 Stipend of at least (per month)
+            </label>
+            <div className="relative">
+              <input
+                id="stipend-min"
+                type="number"
+                min={0}
+                step={100}
+                value={minMonthlyStipend?.amount ?? ''}
+                onChange={(e) => setStipendMinimum(Number(e.target.value), stipendCurrency)}
+                placeholder="Any amount"
+                className="w-full px-4 py-3 pr-16 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white shadow-sm"
+              />
+              <span className="absolute inset-y-0 right-0 flex items-center pr-4 text-sm text-gray-500">{stipendCurrency}</span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Stipends in other currencies are converted with offline rates; yearly and per-semester amounts are spread over months
+            </p>
+          </div>
+        </div>
+
+        {/* Requirement Filters */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-2">📝 Admission requirements</span>
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-3">
+            <button
+              type="button"
+              onClick={() => updateFilters({ hideIneligible: !hideIneligible })}
+              className={`px-4 py-2 text-sm rounded-lg border transition-colors duration-150 flex items-center space-x-2 ${
+                hideIneligible
+                  ? 'bg-indigo-50 border-indigo-300 text-indigo-800'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+              aria-pressed={hideIneligible}
+              title="Uses the scores in your 🎯 Personal fit profile; borderline and unknown cases stay listed"
+            >
+              <span>{hideIneligible ? '✅' : '⬜'}</span>
+              <span>Hide where I&apos;m not eligible</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => updateFilters({ greOptional: !greOptional })}
+              className={`px-4 py-2 text-sm rounded-lg border transition-colors duration-150 flex items-center space-x-2 ${
+                greOptional
+                  ? 'bg-indigo-50 border-indigo-300 text-indigo-800'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+              aria-pressed={greOptional}
+              title="Criteria that do not mention the GRE count as not requiring it"
+            >
+              <span>{greOptional ? '✅' : '⬜'}</span>
+              <span>GRE not required</span>
+            </button>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span className="shrink-0">IELTS minimum ≤</span>
+              <input
+                type="number"
+                min={0}
+                max={9}
+                step={0.5}
+                value={maxIelts ?? ''}
+                onChange={(e) => updateFilters({ maxIelts: Number(e.target.value) > 0 ? Number(e.target.value) : null })}
+                placeholder="Any"
+                className="w-full min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white shadow-sm"
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span className="shrink-0">TOEFL minimum ≤</span>
+              <input
+                type="number"
+                min={0}
+                max={120}
+                step={5}
+                value={maxToefl ?? ''}
+                onChange={(e) => updateFilters({ maxToefl: Number(e.target.value) > 0 ? Number(e.target.value) : null })}
+                placeholder="Any"
+                className="w-full min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white shadow-sm"
+              />
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            Score limits only match universities that state a minimum for that test
+          </p>
+        </div>
+
+        {/* Program Filters */}
+        {degreeOptions.length > 0 && (
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">🎓 Programs</span>
+            <div className="flex flex-wrap gap-2">
+              {degreeOptions.map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => updateFilters({ degreeTypes: toggleItem(degreeTypes, type) })}
+                  className={`px-3 py-1.5 text-sm rounded-lg border transition-colors duration-150 ${
+                    degreeTypes.includes(type)
+                      ? 'bg-purple-50 border-purple-300 text-purple-800'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                  aria-pressed={degreeTypes.includes(type)}
+                >
+                  {DEGREE_LABELS[type]}
+                </button>
+              ))}
+              {languageOptions.map(language => (
+                <button
+                  key={language}
+                  type="button"
+                  onClick={() => updateFilters({ languages: toggleItem(languages, language) })}
+                  className={`px-3 py-1.5 text-sm rounded-lg border transition-colors duration-150 ${
+                    languages.includes(language)
+                      ? 'bg-purple-50 border-purple-300 text-purple-800'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                  aria-pressed={languages.includes(language)}
+                  title={`Taught in ${language}`}
+                >
+                  🗣️ {language}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              A university matches when one of its programs meets every program filter; expand its programs in the table to see which
+            </p>
+          </div>
+        )}
+
+        {/* Deadline Filter */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-2">📅 Deadlines</span>
+          <button
+            type="button"
+            onClick={() => updateFilters({ openDeadlinesOnly: !openDeadlinesOnly })}
+            className={`px-4 py-2 text-sm rounded-lg border transition-colors duration-150 flex items-center space-x-2 ${
+              openDeadlinesOnly
+                ? 'bg-green-50 border-green-300 text-green-800'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+            aria-pressed={openDeadlinesOnly}
+          >
+            <span>{openDeadlinesOnly ? '✅' : '⬜'}</span>
+            <span>Still taking applications</span>
+          </button>
+          <p className="mt-1 text-xs text-gray-500">
+            A round of the university or one of its programs has not closed yet, or admissions are rolling; deadlines that were not announced do not match
+          </p>
+        </div>
+
         {/* Advanced Filters */}
         {showAdvancedFilters && (
           <div className="border-t border-gray-200 pt-6 mt-6">
@@ -310,7 +731,7 @@ export default function SearchFilters({ universities, onFilterChange }: SearchFi
                   label="📊 Acceptance Rate Range"
                   min={minAcceptanceRate}
                   max={maxAcceptanceRate}
-                  value={acceptanceRateRange as [number, number]}
+                  value={acceptanceRateRange}
                   onChange={(value) => {
                     const newValue = Array.isArray(value) ? value : [value, value]
                     setAcceptanceRateRange([newValue[0], newValue[1]])
@@ -0,0 +1,237 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { ParsedUniversity } from '@/utils/dataParser'
+import {
+  APPLICATION_STATUSES,
+  normalizeTag,
+  shortlistKey,
+  type ApplicationStatus,
+  type Shortlist,
+  type ShortlistEntry
+} from '@/utils/shortlist'
+import FormattedCell from './FormattedCell'
+
+// Fields of an entry the user can edit
+export type ShortlistEntryChanges = Partial<Pick<ShortlistEntry, 'status' | 'notes' | 'tags'>>
+
+interface ShortlistViewProps {
+  universities: ParsedUniversity[]
+  shortlist: Shortlist
+  onUpdate: (key: string, changes: ShortlistEntryChanges) => void
+  onRemove: (key: string) => void
+}
+
+export const STATUS_CONFIG: Record<ApplicationStatus, { label: string; icon: string; className: string }> = {
+  considering: { label: 'Considering', icon: '🤔', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+  preparing: { label: 'Preparing', icon: '📝', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  submitted: { label: 'Submitted', icon: '📨', className: 'bg-purple-100 text-purple-800 border-purple-200' },
+  admitted: { label: 'Admitted', icon: '🎉', className: 'bg-green-100 text-green-800 border-green-200' },
+  rejected: { label: 'Rejected', icon: '❌', className: 'bg-red-100 text-red-800 border-red-200' },
+  declined: { label: 'Declined', icon: '🚫', className: 'bg-orange-100 text-orange-800 border-orange-200' }
+}
+
+function TagEditor({ tags, suggestions, onChange }: {
+  tags: string[]
+  suggestions: string[]
+  onChange: (tags: string[]) => void
+}) {
+  const [draft, setDraft] = useState('')
+
+  const addTag = () => {
+    const tag = normalizeTag(draft)
+    if (tag && !tags.includes(tag)) onChange([...tags, tag])
+    setDraft('')
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map(tag => (
+        <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 border border-indigo-200">
+          #{tag}
+          <button
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            className="ml-1 hover:bg-black/10 rounded-full p-0.5 transition-colors"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault()
+            addTag()
+          }
+        }}
+        onBlur={addTag}
+        list="shortlist-tag-suggestions"
+        placeholder="Add tag..."
+        className="px-2 py-1 text-xs border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent w-28"
+        aria-label="Add tag"
+      />
+      <datalist id="shortlist-tag-suggestions">
+        {suggestions.filter(tag => !tags.includes(tag)).map(tag => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  )
+}
+
+export default function ShortlistView({ universities, shortlist, onUpdate, onRemove }: ShortlistViewProps) {
+  const [statusFilter, setStatusFilter] = useState<ApplicationStatus | ''>('')
+
+  // Pair each entry with its university, ordered by rank; dropped universities go last
+  const items = useMemo(() => {
+    const byKey = new Map(universities.map(university => [shortlistKey(university), university]))
+    return Object.entries(shortlist)
+      .map(([key, entry]) => ({ key, entry, university: byKey.get(key) }))
+      .sort((a, b) => (a.university?.rank ?? Infinity) - (b.university?.rank ?? Infinity) ||
+        a.entry.universityName.localeCompare(b.entry.universityName))
+  }, [universities, shortlist])
+
+  const statusCounts = useMemo(() => {
+    const counts = Object.fromEntries(APPLICATION_STATUSES.map(status => [status, 0])) as Record<ApplicationStatus, number>
+    items.forEach(({ entry }) => counts[entry.status]++)
+    return counts
+  }, [items])
+
+  const allTags = useMemo(
+    () => Array.from(new Set(items.flatMap(({ entry }) => entry.tags))).sort(),
+    [items]
+  )
+
+  const displayItems = statusFilter ? items.filter(({ entry }) => entry.status === statusFilter) : items
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-16 bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="text-gray-500 space-y-4">
+          <div className="text-5xl">⭐</div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Your list is empty</h3>
+            <p className="mt-2 text-gray-600 max-w-md mx-auto">
+              Star universities in the Data Table to track notes, tags and application status here.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Status Filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setStatusFilter('')}
+          className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+            statusFilter === '' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          All ({items.length})
+        </button>
+        {APPLICATION_STATUSES.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+              statusFilter === status ? 'ring-2 ring-blue-500 ' : ''
+            }${STATUS_CONFIG[status].className}`}
+          >
+            {STATUS_CONFIG[status].icon} {STATUS_CONFIG[status].label} ({statusCounts[status]})
+          </button>
+        ))}
+      </div>
+
+      {displayItems.length === 0 && (
+        <div className="text-center py-8 text-sm text-gray-500 bg-white rounded-xl border border-gray-200">
+          No universities with status &quot;{statusFilter && STATUS_CONFIG[statusFilter].label}&quot;
+        </div>
+      )}
+
+      {/* Entries */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {displayItems.map(({ key, entry, university }) => (
+          <div key={key} className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {university && <span className="text-gray-400 mr-2">#{university.rank}</span>}
+                  {university?.url ? (
+                    <a href={university.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600 hover:underline">
+                      {entry.universityName}
+                    </a>
+                  ) : entry.universityName}
+                </h3>
+                <p className="text-sm text-gray-600">📍 {entry.cityCountry}</p>
+                {!university && (
+                  <p className="mt-1 text-xs text-amber-700">⚠️ No longer in the current dataset</p>
+                )}
+              </div>
+              <button
+                onClick={() => onRemove(key)}
+                className="text-yellow-500 hover:text-gray-400 text-xl leading-none"
+                title="Remove from my list"
+                aria-label={`Remove ${entry.universityName} from my list`}
+              >
+                ★
+              </button>
+            </div>
+
+            {university && (
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Deadline</div>
+                  <FormattedCell column="appDeadline" value={university.appDeadline} />
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Acceptance Rate</div>
+                  <FormattedCell column="acceptanceRate" value={university.acceptanceRate} />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <label htmlFor={`status-${key}`} className="text-sm font-medium text-gray-700">Status</label>
+              <select
+                id={`status-${key}`}
+                value={entry.status}
+                onChange={(e) => onUpdate(key, { status: e.target.value as ApplicationStatus })}
+                className={`px-3 py-1.5 text-sm rounded-lg border focus:ring-2 focus:ring-blue-500 ${STATUS_CONFIG[entry.status].className}`}
+              >
+                {APPLICATION_STATUSES.map(status => (
+                  <option key={status} value={status}>
+                    {STATUS_CONFIG[status].icon} {STATUS_CONFIG[status].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <TagEditor
+              tags={entry.tags}
+              suggestions={allTags}
+              onChange={(tags) => onUpdate(key, { tags })}
+            />
+
+            <textarea
+              value={entry.notes}
+              onChange={(e) => onUpdate(key, { notes: e.target.value })}
+              placeholder="Notes: contacts, documents, impressions..."
+              rows={3}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label={`Notes for ${entry.universityName}`}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
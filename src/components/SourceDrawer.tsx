@@ -0,0 +1,112 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type { ParsedUniversity } from '@/utils/dataParser'
+import { formatCalendarDate } from '@/utils/deadlines'
+import { VERIFIABLE_FIELD_LABELS } from '@/utils/freshness'
+import { CITED_FIELDS, citationDomain, generalCitations, getProvenance, type FieldSource } from '@/utils/provenance'
+
+interface SourceDrawerProps {
+  university: ParsedUniversity
+  onClose: () => void
+}
+
+function SourceLink({ source }: { source: FieldSource }) {
+  return (
+    <li>
+      <a
+        href={source.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+        title={source.url}
+      >
+        🔗 {source.domain}
+      </a>
+      {source.note && <span className="text-xs text-gray-500"> · {source.note}</span>}
+    </li>
+  )
+}
+
+export default function SourceDrawer({ university, onClose }: SourceDrawerProps) {
+  const closeRef = useRef<HTMLButtonElement>(null)
+  const provenance = getProvenance(university)
+  const fields = CITED_FIELDS.flatMap(field => provenance[field] ?? [])
+  const uncited = fields.filter(field => !field.cited).length
+  const general = generalCitations(university)
+
+  useEffect(() => {
+    closeRef.current?.focus()
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-gray-900/30" onClick={onClose} aria-hidden="true" />
+      <aside
+        className="relative w-full max-w-md h-full overflow-y-auto bg-white shadow-2xl border-l border-gray-200"
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Sources for ${university.universityName}`}
+      >
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-4 flex items-start justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">📚 Sources</h3>
+            <p className="text-sm text-gray-600">{university.universityName}</p>
+            <p className={`text-xs mt-1 ${uncited > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+              {uncited > 0
+                ? `${uncited} of ${fields.length} fields have no citation`
+                : `Every field is backed by a citation`}
+            </p>
+          </div>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="px-2 py-1 text-gray-500 hover:text-gray-800 rounded-lg hover:bg-gray-100"
+            aria-label="Close sources"
+          >
+            ✕
+          </button>
+        </div>
+
+        <ul className="divide-y divide-gray-100">
+          {fields.map(({ field, sources, estimated, cited }) => (
+            <li key={field} className={`p-4 ${cited ? '' : 'bg-amber-50/60'}`}>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900">{VERIFIABLE_FIELD_LABELS[field]}</span>
+                {estimated && (
+                  <span className="px-2 py-0.5 text-xs rounded bg-orange-100 text-orange-800">📐 Estimated</span>
+                )}
+                {!cited && (
+                  <span className="px-2 py-0.5 text-xs rounded border border-dashed border-amber-400 text-amber-800">
+                    ❓ Unverified: no citation
+                  </span>
+                )}
+              </div>
+              {sources.length > 0 && <ul className="mt-2 space-y-1">{sources.map(source => <SourceLink key={source.url} source={source} />)}</ul>}
+              {university.lastVerified[field] && (
+                <div className="mt-1 text-xs text-gray-500">Checked {formatCalendarDate(university.lastVerified[field])}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {(general.length > 0 || university.url) && (
+          <div className="p-4 border-t border-gray-200 bg-gray-50">
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Other sources</h4>
+            <ul className="space-y-1">
+              {university.url && (
+                <SourceLink source={{ url: university.url, domain: citationDomain(university.url), note: 'Official website' }} />
+              )}
+              {general.map(citation => <SourceLink key={citation.url} source={citation} />)}
+            </ul>
+          </div>
+        )}
+      </aside>
+    </div>
+  )
+}
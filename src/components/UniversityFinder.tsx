@@ -1,33 +1,370 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import type { ParsedUniversity, AppMetadata } from '@/utils/dataParser'
+import type { ValidationReport } from '@/utils/dataValidator'
+import { DEFAULT_SORT, filterUniversities, matchPrograms, RELEVANCE_SORT, type FilterCriteria, type SortConfig } from '@/utils/universityQuery'
+import { searchQueryText } from '@/utils/searchQuery'
+import {
+  DEFAULT_VIEW_STATE,
+  viewStateFromSearchParams,
+  viewStateToSearchParams,
+  type FilterState,
+  type FinderTab,
+  type TableState,
+  type ViewState
+} from '@/utils/urlState'
+import { MAX_COMPARE } from '@/utils/comparison'
+import { DISPLAY_CURRENCIES, EXCHANGE_RATES } from '@/utils/currency'
+import { universityKey } from '@/utils/datasetMerger'
+import {
+  SHORTLIST_STORAGE_KEY,
+  createShortlistEntry,
+  loadShortlist,
+  parseShortlist,
+  saveShortlist,
+  shortlistKey,
+  withoutEntry,
+  type Shortlist
+} from '@/utils/shortlist'
+import {
+  PRESETS_STORAGE_KEY,
+  createPreset,
+  isPresetActive,
+  loadPresets,
+  mergePresets,
+  parsePresetsFile,
+  savePresets,
+  type FilterPreset
+} from '@/utils/filterPresets'
+import {
+  FIT_PROFILE_STORAGE_KEY,
+  DEFAULT_FIT_WEIGHTS,
+  EMPTY_FIT_PROFILE,
+  computeFitScores,
+  loadFitSettings,
+  parseFitSettings,
+  saveFitSettings,
+  type FitProfile,
+  type FitWeights
+} from '@/utils/fitScore'
+import { computeEligibility } from '@/utils/eligibility'
+import { computeFreshness } from '@/utils/freshness'
 import SearchFilters from './SearchFilters'
+import FitProfilePanel from './FitProfilePanel'
+import FilterPresetsMenu from './FilterPresetsMenu'
 import DataTable from './DataTable'
 import DataVisualization from './DataVisualization'
+import DataValidationReport from './DataValidationReport'
+import DeadlineCalendar from './DeadlineCalendar'
+import ComparisonView from './ComparisonView'
+import ShortlistView, { type ShortlistEntryChanges } from './ShortlistView'
 
 interface UniversityFinderProps {
   universities: ParsedUniversity[]
   metadata: AppMetadata
+  report?: ValidationReport
 }
 
-export default function UniversityFinder({ universities, metadata }: UniversityFinderProps) {
-  const [filteredUniversities, setFilteredUniversities] = useState<ParsedUniversity[]>(universities)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [activeTab, setActiveTab] = useState<'table' | 'analytics'>('table')
+// Wait for sliders and typing to settle before adding a history entry
+const URL_UPDATE_DELAY = 400
 
-  // Handle filter changes from SearchFilters component
-  const handleFilterChange = useCallback((filtered: ParsedUniversity[], term: string) => {
-    setFilteredUniversities(filtered)
-    setSearchTerm(term)
+// Keep the view state in the query string, with one history entry per settled change
+function useUrlViewState(): [ViewState, React.Dispatch<React.SetStateAction<ViewState>>] {
+  const [viewState, setViewState] = useState<ViewState>(DEFAULT_VIEW_STATE)
+  const [isRestored, setIsRestored] = useState(false)
+  // Restored state is already in the history; only normalize its URL
+  const replaceNextUpdate = useRef(true)
+
+  // Restore on load and whenever the user navigates back or forward
+  useEffect(() => {
+    const restore = () => {
+      replaceNextUpdate.current = true
+      setViewState(viewStateFromSearchParams(new URLSearchParams(window.location.search)))
+    }
+
+    restore()
+    setIsRestored(true)
+    window.addEventListener('popstate', restore)
+    return () => window.removeEventListener('popstate', restore)
+  }, [])
+
+  useEffect(() => {
+    if (!isRestored) return
+
+    const handler = setTimeout(() => {
+      const search = viewStateToSearchParams(viewState).toString()
+      const url = search ? `?${search}` : window.location.pathname
+      const replace = replaceNextUpdate.current
+      replaceNextUpdate.current = false
+
+      if (search === window.location.search.replace(/^\?/, '')) return
+      if (replace) {
+        window.history.replaceState(null, '', url)
+      } else {
+        window.history.pushState(null, '', url)
+      }
+    }, URL_UPDATE_DELAY)
+
+    return () => clearTimeout(handler)
+  }, [viewState, isRestored])
+
+  return [viewState, setViewState]
+}
+
+// Keep the shortlist in localStorage and follow edits made in other browser tabs
+function useShortlist() {
+  const [shortlist, setShortlist] = useState<Shortlist>({})
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  useEffect(() => {
+    setShortlist(loadShortlist(window.localStorage))
+    setIsLoaded(true)
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SHORTLIST_STORAGE_KEY) setShortlist(parseShortlist(event.newValue))
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  useEffect(() => {
+    if (isLoaded) saveShortlist(window.localStorage, shortlist)
+  }, [shortlist, isLoaded])
+
+  const toggleShortlist = useCallback((university: ParsedUniversity) => {
+    const key = shortlistKey(university)
+    setShortlist(prev => prev[key]
+      ? withoutEntry(prev, key)
+      : { ...prev, [key]: createShortlistEntry(university) })
+  }, [])
+
+  const updateEntry = useCallback((key: string, changes: ShortlistEntryChanges) => {
+    setShortlist(prev => prev[key]
+      ? { ...prev, [key]: { ...prev[key], ...changes, updatedAt: new Date().toISOString() } }
+      : prev)
+  }, [])
+
+  const removeEntry = useCallback((key: string) => {
+    setShortlist(prev => withoutEntry(prev, key))
+  }, [])
+
+  return { shortlist, toggleShortlist, updateEntry, removeEntry }
+}
+
+// Keep named filter presets in localStorage and follow edits made in other browser tabs
+function useFilterPresets() {
+  const [presets, setPresets] = useState<FilterPreset[]>([])
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  useEffect(() => {
+    setPresets(loadPresets(window.localStorage))
+    setIsLoaded(true)
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== PRESETS_STORAGE_KEY) return
+      const parsed = event.newValue ? parsePresetsFile(event.newValue) : { presets: [] }
+      if ('presets' in parsed) setPresets(parsed.presets)
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  useEffect(() => {
+    if (isLoaded) savePresets(window.localStorage, presets)
+  }, [presets, isLoaded])
+
+  const importPresets = useCallback((incoming: FilterPreset[]) => {
+    setPresets(prev => mergePresets(prev, incoming))
+  }, [])
+
+  const deletePreset = useCallback((name: string) => {
+    setPresets(prev => prev.filter(preset => preset.name !== name))
+  }, [])
+
+  return { presets, importPresets, deletePreset }
+}
+
+// Keep the fit profile and weights in localStorage and follow edits made in other browser tabs
+function useFitProfile() {
+  const [profile, setProfile] = useState<FitProfile>(EMPTY_FIT_PROFILE)
+  const [weights, setWeights] = useState<FitWeights>(DEFAULT_FIT_WEIGHTS)
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  useEffect(() => {
+    const stored = loadFitSettings(window.localStorage)
+    setProfile(stored.profile)
+    setWeights(stored.weights)
+    setIsLoaded(true)
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== FIT_PROFILE_STORAGE_KEY) return
+      const parsed = parseFitSettings(event.newValue)
+      setProfile(parsed.profile)
+      setWeights(parsed.weights)
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
   }, [])
 
+  useEffect(() => {
+    if (isLoaded) saveFitSettings(window.localStorage, profile, weights)
+  }, [profile, weights, isLoaded])
+
+  return { profile, setProfile, weights, setWeights }
+}
+
+/**
+ * Rank by relevance when a free-text search starts from the default order, and go back to it when the text is cleared
+ */
+function sortForSearch(sortConfig: SortConfig, previousTerm: string, nextTerm: string): SortConfig {
+  const wasSearching = searchQueryText(previousTerm).trim() !== ''
+  const isSearching = searchQueryText(nextTerm).trim() !== ''
+  if (!wasSearching && isSearching && sortConfig.column === DEFAULT_SORT.column && sortConfig.direction === DEFAULT_SORT.direction) {
+    return RELEVANCE_SORT
+  }
+  if (!isSearching && sortConfig.column === 'relevance') return DEFAULT_SORT
+  return sortConfig
+}
+
+export default function UniversityFinder({ universities, metadata, report }: UniversityFinderProps) {
+  const [viewState, setViewState] = useUrlViewState()
+  const { shortlist, toggleShortlist, updateEntry, removeEntry } = useShortlist()
+  const shortlistCount = Object.keys(shortlist).length
+  const shortlistedUniversities = useMemo(
+    () => universities.filter(university => shortlist[shortlistKey(university)]),
+    [universities, shortlist]
+  )
+  const { filters, activeTab } = viewState
+  const { presets, importPresets, deletePreset } = useFilterPresets()
+  const { profile, setProfile, weights, setWeights } = useFitProfile()
+  const fitScores = useMemo(() => computeFitScores(universities, profile, weights), [universities, profile, weights])
+  const eligibility = useMemo(() => computeEligibility(universities, profile), [universities, profile])
+  const freshness = useMemo(() => computeFreshness(universities), [universities])
+  const activePreset = presets.find(preset => isPresetActive(preset, filters, viewState.table))
+  const searchTerm = filters.searchTerm
+  // Free text of the query, for highlighting and relevance
+  const searchText = useMemo(() => searchQueryText(searchTerm), [searchTerm])
+
+  const criteria = useMemo((): FilterCriteria => ({
+    searchTerm: filters.searchTerm,
+    countries: filters.selectedCountries,
+    rankingRange: filters.rankingRange || undefined,
+    rankingSystemMax: filters.rankingSystemMax,
+    // Acceptance rate only applies while the advanced filters are open
+    acceptanceRateRange: filters.showAdvancedFilters ? filters.acceptanceRateRange || undefined : undefined,
+    fullFunding: filters.fullFundingOnly,
+    minMonthlyStipend: filters.minMonthlyStipend || undefined,
+    greOptional: filters.greOptional,
+    maxIelts: filters.maxIelts ?? undefined,
+    maxToefl: filters.maxToefl ?? undefined,
+    eligibleFor: filters.hideIneligible ? profile : undefined,
+    openDeadline: filters.openDeadlinesOnly,
+    degreeTypes: filters.degreeTypes,
+    languages: filters.languages
+  }), [filters, profile])
+
+  const filteredUniversities = useMemo(() => filterUniversities(universities, criteria), [universities, criteria])
+  // The same filters as universities API parameters, for the deadline digest; the profile stays in the browser
+  const digestFilterParams = useMemo(() => viewStateToSearchParams({
+    ...DEFAULT_VIEW_STATE,
+    filters: {
+      ...filters,
+      acceptanceRateRange: filters.showAdvancedFilters ? filters.acceptanceRateRange : DEFAULT_VIEW_STATE.filters.acceptanceRateRange
+    }
+  }), [filters])
+  // Which programs of each result meet the program-level criteria, when there are any
+  const matchingPrograms = useMemo(() => matchPrograms(filteredUniversities, criteria), [filteredUniversities, criteria])
+
+  // New filters start from the first page of results
+  const handleFiltersChange = useCallback((nextFilters: FilterState) => {
+    setViewState(prev => ({
+      ...prev,
+      filters: nextFilters,
+      table: {
+        ...prev.table,
+        sortConfig: sortForSearch(prev.table.sortConfig, prev.filters.searchTerm, nextFilters.searchTerm),
+        currentPage: 1
+      }
+    }))
+  }, [setViewState])
+
+  const handleTableStateChange = useCallback((table: TableState) => {
+    setViewState(prev => ({ ...prev, table }))
+  }, [setViewState])
+
+  const applyPreset = useCallback((preset: FilterPreset) => {
+    setViewState(prev => ({
+      ...prev,
+      filters: preset.filters,
+      table: { ...prev.table, sortConfig: preset.sortConfig, visibleColumns: preset.visibleColumns, currentPage: 1 }
+    }))
+  }, [setViewState])
+
+  const saveCurrentAsPreset = (name: string) => {
+    importPresets([createPreset(name, filters, viewState.table)])
+  }
+
+  const setActiveTab = (tab: FinderTab) => {
+    setViewState(prev => ({ ...prev, activeTab: tab }))
+  }
+
+  const setCurrency = (currency: string) => {
+    setViewState(prev => ({ ...prev, currency }))
+  }
+
+  // Selected universities in selection order; keys from stale links are ignored
+  const comparedUniversities = useMemo(() => {
+    const byKey = new Map(universities.map(university => [universityKey(university), university]))
+    return viewState.comparison.flatMap(key => byKey.get(key) || [])
+  }, [universities, viewState.comparison])
+
+  const toggleCompare = useCallback((university: ParsedUniversity) => {
+    const key = universityKey(university)
+    setViewState(prev => ({
+      ...prev,
+      comparison: prev.comparison.includes(key)
+        ? prev.comparison.filter(k => k !== key)
+        : [...prev.comparison, key].slice(0, MAX_COMPARE)
+    }))
+  }, [setViewState])
+
+  const removeFromComparison = useCallback((key: string) => {
+    setViewState(prev => ({ ...prev, comparison: prev.comparison.filter(k => k !== key) }))
+  }, [setViewState])
+
   return (
     <div className="space-y-8">
+      {/* Data validation issues (shown in the empty state instead when nothing loaded) */}
+      {report && universities.length > 0 && (
+        <DataValidationReport report={report} />
+      )}
+
       {/* Search and Filter Controls */}
       <SearchFilters 
         universities={universities}
-        onFilterChange={handleFilterChange}
+        filters={filters}
+        onFiltersChange={handleFiltersChange}
+        currency={viewState.currency}
+        actions={
+          <FilterPresetsMenu
+            presets={presets}
+            activePresetName={activePreset?.name ?? null}
+            onApply={applyPreset}
+            onSave={saveCurrentAsPreset}
+            onDelete={deletePreset}
+            onImport={importPresets}
+          />
+        }
+      />
+
+      {/* Personal profile for the fit score */}
+      <FitProfilePanel
+        profile={profile}
+        weights={weights}
+        onProfileChange={setProfile}
+        onWeightsChange={setWeights}
+        currency={viewState.currency}
       />
 
       {/* Tab Navigation */}
@@ -53,6 +390,36 @@ export default function UniversityFinder({ universities, metadata }: UniversityF
           >
             📊 Analytics & Insights
           </button>
+          <button
+            onClick={() => setActiveTab('calendar')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'calendar'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            🗓️ Deadlines
+          </button>
+          <button
+            onClick={() => setActiveTab('compare')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'compare'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            ⚖️ Compare ({comparedUniversities.length})
+          </button>
+          <button
+            onClick={() => setActiveTab('shortlist')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'shortlist'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            ⭐ My List ({shortlistCount})
+          </button>
         </nav>
       </div>
 
@@ -76,14 +443,29 @@ export default function UniversityFinder({ universities, metadata }: UniversityF
           )}
         </div>
         
-        {filteredUniversities.length === 0 && universities.length > 0 && (
-          <div className="flex items-center space-x-2 text-sm text-amber-700 bg-amber-100 px-3 py-2 rounded-lg">
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
-            </svg>
-            <span>No universities match your current filters</span>
-          </div>
-        )}
+        <div className="flex items-center space-x-4">
+          {filteredUniversities.length === 0 && universities.length > 0 && (
+            <div className="flex items-center space-x-2 text-sm text-amber-700 bg-amber-100 px-3 py-2 rounded-lg">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
+              </svg>
+              <span>No universities match your current filters</span>
+            </div>
+          )}
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700" title={`Offline exchange rates as of ${EXCHANGE_RATES.asOf}`}>
+            <span>💱 Amounts in</span>
+            <select
+              value={viewState.currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500"
+            >
+              {DISPLAY_CURRENCIES.map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </label>
+        </div>
       </div>
 
       {/* Tab Content */}
@@ -92,21 +474,38 @@ export default function UniversityFinder({ universities, metadata }: UniversityF
         filteredUniversities.length > 0 ? (
           <DataTable 
             universities={filteredUniversities}
-            searchTerm={searchTerm}
+            searchTerm={searchText}
+            currency={viewState.currency}
+            metadata={metadata}
+            tableState={viewState.table}
+            onTableStateChange={handleTableStateChange}
+            shortlist={shortlist}
+            onToggleShortlist={toggleShortlist}
+            comparison={viewState.comparison}
+            onToggleCompare={toggleCompare}
+            fitScores={fitScores}
+            eligibility={eligibility}
+            matchingPrograms={matchingPrograms ?? undefined}
+            freshness={freshness}
           />
         ) : universities.length === 0 ? (
-          <div className="text-center py-16 bg-white rounded-xl shadow-sm border border-gray-200">
-            <div className="text-gray-500 space-y-4">
-              <svg className="mx-auto h-16 w-16 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 48 48">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M34 40h10v-4a6 6 0 00-10.712-3.714M34 40H14m20 0v-4a6 6 0 00-10.712-3.714M14 40H4v-4a6 6 0 016-6 6 6 0 016 6v4zm10-12a4 4 0 100-8 4 4 0 000 8z" />
-              </svg>
-              <div>
-                <h3 className="text-xl font-semibold text-gray-900">No universities data</h3>
-                <p className="mt-2 text-gray-600 max-w-md mx-auto">
-                  Unable to load university data. Please check the data source and try again.
-                </p>
+          <div className="space-y-6">
+            <div className="text-center py-16 bg-white rounded-xl shadow-sm border border-gray-200">
+              <div className="text-gray-500 space-y-4">
+                <svg className="mx-auto h-16 w-16 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 48 48">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M34 40h10v-4a6 6 0 00-10.712-3.714M34 40H14m20 0v-4a6 6 0 00-10.712-3.714M14 40H4v-4a6 6 0 016-6 6 6 0 016 6v4zm10-12a4 4 0 100-8 4 4 0 000 8z" />
+                </svg>
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900">No universities data</h3>
+                  <p className="mt-2 text-gray-600 max-w-md mx-auto">
+                    {report && report.errors.length > 0
+                      ? 'The data source failed validation. See the report below for details.'
+                      : 'Unable to load university data. Please check the data source and try again.'}
+                  </p>
+                </div>
               </div>
             </div>
+            {report && <DataValidationReport report={report} defaultOpen />}
           </div>
         ) : (
           <div className="text-center py-16 bg-white rounded-xl shadow-sm border border-gray-200">
@@ -123,9 +522,33 @@ export default function UniversityFinder({ universities, metadata }: UniversityF
             </div>
           </div>
         )
-      ) : (
+      ) : activeTab === 'analytics' ? (
         /* Analytics Tab */
-        <DataVisualization universities={filteredUniversities} />
+        <DataVisualization universities={filteredUniversities} freshness={freshness} />
+      ) : activeTab === 'compare' ? (
+        /* Comparison Tab */
+        <ComparisonView
+          universities={comparedUniversities}
+          shareQuery={viewStateToSearchParams(viewState).toString()}
+          currency={viewState.currency}
+          onRemove={removeFromComparison}
+          onClear={() => setViewState(prev => ({ ...prev, comparison: [] }))}
+        />
+      ) : activeTab === 'calendar' ? (
+        /* Deadline Calendar Tab */
+        <DeadlineCalendar
+          universities={filteredUniversities}
+          shortlistedUniversities={shortlistedUniversities}
+          filterParams={digestFilterParams}
+        />
+      ) : (
+        /* My List Tab (independent of the search filters) */
+        <ShortlistView
+          universities={universities}
+          shortlist={shortlist}
+          onUpdate={updateEntry}
+          onRemove={removeEntry}
+        />
       )}
     </div>
   )
@@ -2,17 +2,19 @@
 
 import { useState, useRef, useEffect } from 'react'
 
-interface Option {
+export interface Option {
   value: string
   label: string
   count?: number
   icon?: string
+  // Multi-select only: the option stands for these values (e.g. a region for its countries)
+  values?: string[]
+  // Indentation level for nested options
+  depth?: number
 }
 
-interface CustomDropdownProps {
+interface BaseDropdownProps {
   options: Option[]
-  value: string
-  onChange: (value: string) => void
   placeholder?: string
   label?: string
   icon?: React.ReactNode
@@ -21,17 +23,62 @@ interface CustomDropdownProps {
   className?: string
 }
 
-export default function CustomDropdown({
-  options,
-  value,
-  onChange,
-  placeholder = 'Select an option',
-  label,
-  icon,
-  searchable = false,
-  disabled = false,
-  className = ''
-}: CustomDropdownProps) {
+interface SingleSelectProps extends BaseDropdownProps {
+  multiple?: false
+  value: string
+  onChange: (value: string) => void
+}
+
+// Options get checkboxes and the menu stays open while choosing
+interface MultiSelectProps extends BaseDropdownProps {
+  multiple: true
+  value: string[]
+  onChange: (value: string[]) => void
+}
+
+type CustomDropdownProps = SingleSelectProps | MultiSelectProps
+
+type CheckState = 'checked' | 'mixed' | 'unchecked'
+
+const DEPTH_PADDING = ['pl-4', 'pl-9', 'pl-14']
+
+/**
+ * Values an option selects: its group values, or just its own value
+ */
+function optionValues(option: Option): string[] {
+  return option.values ?? [option.value]
+}
+
+/**
+ * Labels for a multi-selection, naming whole groups instead of their members
+ */
+function summarizeSelection(options: Option[], selected: Set<string>): string[] {
+  const covered = new Set<string>()
+  const labels: string[] = []
+  options.forEach(option => {
+    const values = optionValues(option)
+    if (values.length === 0 || values.every(value => covered.has(value))) return
+    if (values.every(value => selected.has(value))) {
+      labels.push(option.label)
+      values.forEach(value => covered.add(value))
+    }
+  })
+  return labels
+}
+
+export default function CustomDropdown(props: CustomDropdownProps) {
+  const {
+    options,
+    placeholder = 'Select an option',
+    label,
+    icon,
+    searchable = false,
+    disabled = false,
+    className = ''
+  } = props
+  const value = props.multiple ? '' : props.value
+  const selectedValues = new Set(props.multiple ? props.value : [])
+
   const [isOpen, setIsOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
   const [focusedIndex, setFocusedIndex] = useState(-1)
@@ -47,7 +94,22 @@ export default function CustomDropdown({
     : options
 
   // Get selected option
-  const selectedOption = options.find(option => option.value === value)
+  const selectedOption = props.multiple ? undefined : options.find(option => option.value === value)
+
+  // Multi-select: what the button shows
+  const selectionLabels = props.multiple ? summarizeSelection(options, selectedValues) : []
+  const selectionCount = props.multiple
+    ? options
+      .filter(option => !option.values && selectedValues.has(option.value))
+      .reduce((sum, option) => sum + (option.count ?? 0), 0)
+    : 0
+
+  const checkState = (option: Option): CheckState => {
+    const values = optionValues(option)
+    const chosen = values.filter(v => selectedValues.has(v)).length
+    if (chosen === 0) return 'unchecked'
+    return chosen === values.length ? 'checked' : 'mixed'
+  }
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -102,7 +164,7 @@ export default function CustomDropdown({
       case 'Enter':
         e.preventDefault()
         if (focusedIndex >= 0 && filteredOptions[focusedIndex]) {
-          handleSelect(filteredOptions[focusedIndex].value)
+          handleSelect(filteredOptions[focusedIndex])
         }
         break
       case 'Tab':
@@ -113,8 +175,21 @@ export default function CustomDropdown({
     }
   }
 
-  const handleSelect = (optionValue: string) => {
-    onChange(optionValue)
+  const handleSelect = (option: Option) => {
+    if (props.multiple) {
+      // Checking a group adds all of its values; unchecking a fully checked one removes them
+      const values = optionValues(option)
+      const next = new Set(selectedValues)
+      if (checkState(option) === 'checked') {
+        values.forEach(v => next.delete(v))
+      } else {
+        values.forEach(v => next.add(v))
+      }
+      props.onChange(Array.from(next))
+      return
+    }
+
+    props.onChange(option.value)
     setIsOpen(false)
     setSearchTerm('')
     setFocusedIndex(-1)
@@ -165,14 +240,26 @@ export default function CustomDropdown({
           )}
           
           {/* Selected Value or Placeholder */}
-          <span className={`block truncate ${
-            selectedOption ? 'text-gray-900 font-medium' : 'text-gray-500'
-          }`}>
-            {selectedOption?.label || placeholder}
-          </span>
+          {props.multiple ? (
+            <span className={`block truncate ${
+              selectionLabels.length > 0 ? 'text-gray-900 font-medium' : 'text-gray-500'
+            }`}>
+              {selectionLabels.length > 0 ? selectionLabels.join(', ') : placeholder}
+            </span>
+          ) : (
+            <span className={`block truncate ${
+              selectedOption ? 'text-gray-900 font-medium' : 'text-gray-500'
+            }`}>
+              {selectedOption?.label || placeholder}
+            </span>
+          )}
           
           {/* Count Badge */}
-          {selectedOption?.count !== undefined && (
+          {props.multiple ? selectionLabels.length > 0 && (
+            <span className="ml-auto bg-blue-100 text-blue-800 text-xs font-medium px-2 py-1 rounded-full">
+              {selectionCount}
+            </span>
+          ) : selectedOption?.count !== undefined && (
             <span className="ml-auto bg-blue-100 text-blue-800 text-xs font-medium px-2 py-1 rounded-full">
               {selectedOption.count}
             </span>
@@ -196,7 +283,7 @@ export default function CustomDropdown({
 
       {/* Dropdown Menu */}
       {isOpen && (
-        <div className="absolute z-50 w-full mt-2 bg-white rounded-xl border border-gray-200 shadow-2xl max-h-80 overflow-hidden">
+        <div className="absolute z-50 w-full mt-2 bg-white rounded-xl border border-gray-200 shadow-2xl max-h-96 overflow-hidden">
           {/* Search Input */}
           {searchable && (
             <div className="p-3 border-b border-gray-100">
@@ -219,7 +306,7 @@ export default function CustomDropdown({
           )}
 
           {/* Options List */}
-          <div className="max-h-60 overflow-y-auto py-1">
+          <div className="max-h-60 overflow-y-auto py-1" role="listbox" aria-multiselectable={props.multiple || undefined}>
             {filteredOptions.length === 0 ? (
               <div className="px-4 py-8 text-center text-gray-500">
                 <svg className="mx-auto h-8 w-8 text-gray-300 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -228,45 +315,81 @@ export default function CustomDropdown({
                 <p className="text-sm">No options found</p>
               </div>
             ) : (
-              filteredOptions.map((option, index) => (
-                <button
-                  key={option.value}
-                  type="button"
-                  onClick={() => handleSelect(option.value)}
-                  className={`
-                    w-full px-4 py-3 text-left hover:bg-blue-50 focus:bg-blue-50 focus:outline-none transition-colors duration-150
-                    ${index === focusedIndex ? 'bg-blue-50' : ''}
-                    ${option.value === value ? 'bg-blue-100 text-blue-900 font-medium' : 'text-gray-900'}
-                  `}
-                  role="option"
-                  aria-selected={option.value === value}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-3">
-                      {option.icon && (
-                        <span className="text-lg">{option.icon}</span>
+              filteredOptions.map((option, index) => {
+                const state = props.multiple ? checkState(option) : option.value === value ? 'checked' : 'unchecked'
+                const isSelected = state === 'checked'
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => handleSelect(option)}
+                    className={`
+                      w-full pr-4 py-3 text-left hover:bg-blue-50 focus:bg-blue-50 focus:outline-none transition-colors duration-150
+                      ${DEPTH_PADDING[Math.min(option.depth ?? 0, DEPTH_PADDING.length - 1)]}
+                      ${index === focusedIndex ? 'bg-blue-50' : ''}
+                      ${isSelected ? 'bg-blue-100 text-blue-900 font-medium' : 'text-gray-900'}
+                      ${option.values ? 'font-semibold' : ''}
+                    `}
+                    role="option"
+                    aria-selected={isSelected}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        {/* Checkbox */}
+                        {props.multiple && (
+                          <span
+                            className={`flex-shrink-0 w-4 h-4 rounded border flex items-center justify-center ${
+                              state === 'unchecked' ? 'border-gray-300 bg-white' : 'border-blue-600 bg-blue-600 text-white'
+                            }`}
+                            aria-hidden="true"
+                          >
+                            {state === 'checked' && (
+                              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                              </svg>
+                            )}
+                            {state === 'mixed' && <span className="w-2 h-0.5 bg-white" />}
+                          </span>
+                        )}
+                        {option.icon && (
+                          <span className="text-lg">{option.icon}</span>
+                        )}
+                        <span className="block truncate">{option.label}</span>
+                      </div>
+                      
+                      {/* Count Badge */}
+                      {option.count !== undefined && (
+                        <span className="bg-gray-100 text-gray-600 text-xs font-medium px-2 py-1 rounded-full ml-2">
+                          {option.count}
+                        </span>
+                      )}
+                      
+                      {/* Selected Indicator */}
+                      {!props.multiple && isSelected && (
+                        <svg className="w-5 h-5 text-blue-600 ml-2" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                        </svg>
                       )}
-                      <span className="block truncate">{option.label}</span>
                     </div>
-                    
-                    {/* Count Badge */}
-                    {option.count !== undefined && (
-                      <span className="bg-gray-100 text-gray-600 text-xs font-medium px-2 py-1 rounded-full ml-2">
-                        {option.count}
-                      </span>
-                    )}
-                    
-                    {/* Selected Indicator */}
-                    {option.value === value && (
-                      <svg className="w-5 h-5 text-blue-600 ml-2" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                    )}
-                  </div>
-                </button>
-              ))
+                  </button>
+                )
+              })
             )}
           </div>
+
+          {/* Multi-select footer */}
+          {props.multiple && selectedValues.size > 0 && (
+            <div className="px-4 py-2 border-t border-gray-100 flex items-center justify-between text-xs text-gray-600">
+              <span>{selectedValues.size} selected</span>
+              <button
+                type="button"
+                onClick={() => props.onChange([])}
+                className="text-blue-600 hover:text-blue-800 underline"
+              >
+                Clear selection
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,21 @@
+/**
+ * Read a value from browser storage, or null when storage is unavailable, e.g. in private browsing
+ */
+export function readStorage(storage: Storage, key: string): string | null {
+  try {
+    return storage.getItem(key)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Write a value to browser storage; a failure (unavailable or full storage) is logged, naming what was being saved
+ */
+export function writeStorage(storage: Storage, key: string, value: string, description: string) {
+  try {
+    storage.setItem(key, value)
+  } catch (error) {
+    console.error(`Could not save ${description}:`, error)
+  }
+}
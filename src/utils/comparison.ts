@@ -0,0 +1,70 @@
+import type { ParsedUniversity } from './dataParser'
+import { deadlineSortValue } from './deadlines'
+import type { UniversityColumn } from './universityQuery'
+
+export const MIN_COMPARE = 2
+export const MAX_COMPARE = 4
+
+// How to score a field and whether the lowest or highest score wins
+interface BestValueRule {
+  label: string
+  score: (university: ParsedUniversity) => number | null
+  best: 'lowest' | 'highest'
+}
+
+/**
+ * Rough measure of funding: fully funded awards count far more than partial ones
+ */
+export function fundingScore(scholarships: ParsedUniversity['scholarships']): number {
+  return scholarships.reduce((score, scholarship) => score + (scholarship.funding.tier === 'full' ? 10 : 1), 0)
+}
+
+export const BEST_VALUE_RULES: Partial<Record<UniversityColumn, BestValueRule>> = {
+  rank: { label: 'Lowest rank', score: university => university.rank, best: 'lowest' },
+  ranking: {
+    label: 'Best composite ranking',
+    score: university => isNaN(university.ranking.composite) ? null : university.ranking.composite,
+    best: 'highest'
+  },
+  acceptanceRate: {
+    label: 'Highest acceptance rate',
+    score: university => isNaN(university.acceptanceRate.value) ? null : university.acceptanceRate.value,
+    best: 'highest'
+  },
+  appDeadline: {
+    label: 'Earliest deadline',
+    score: university => {
+      // The next round to close; rolling admissions without an end date are not compared
+      const closesAt = deadlineSortValue(university.appDeadline)
+      return Number.isFinite(closesAt) ? closesAt : null
+    },
+    best: 'lowest'
+  },
+  scholarships: {
+    label: 'Most funding',
+    score: university => university.scholarships.length > 0 ? fundingScore(university.scholarships) : null,
+    best: 'highest'
+  }
+}
+
+/**
+ * Find which universities hold the best value for each rule; ties share the highlight
+ * and nothing is highlighted when every value is the same
+ */
+export function findBestValues(universities: ParsedUniversity[]): Partial<Record<UniversityColumn, Set<number>>> {
+  const best: Partial<Record<UniversityColumn, Set<number>>> = {}
+
+  Object.entries(BEST_VALUE_RULES).forEach(([column, rule]) => {
+    if (!rule) return
+
+    const scores = universities.map(rule.score)
+    const known = scores.filter((score): score is number => score !== null)
+    if (known.length === 0) return
+
+    const target = rule.best === 'lowest' ? Math.min(...known) : Math.max(...known)
+    const winners = new Set(scores.flatMap((score, index) => score === target ? [index] : []))
+    if (winners.size < universities.length) best[column as UniversityColumn] = winners
+  })
+
+  return best
+}
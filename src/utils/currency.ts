@@ -0,0 +1,84 @@
+import bundledRates from '../data/rates/exchange-rates.json'
+
+// Units of each currency per one unit of the base currency, as of a given date
+export interface ExchangeRates {
+  version: number
+  base: string
+  asOf: string
+  rates: Record<string, number>
+}
+
+const RATES_VERSION = 1
+
+/**
+ * Check an exchange-rate table, reporting what is wrong with it
+ */
+export function parseExchangeRates(value: unknown): { rates: ExchangeRates } | { error: string } {
+  if (typeof value !== 'object' || value === null) return { error: 'Expected an object' }
+  const table = value as Record<string, unknown>
+  if (table.version !== RATES_VERSION) {
+    return { error: `Unsupported exchange rates version ${String(table.version)}` }
+  }
+  if (typeof table.base !== 'string' || typeof table.asOf !== 'string') {
+    return { error: 'Expected "base" and "asOf" strings' }
+  }
+  if (typeof table.rates !== 'object' || table.rates === null) {
+    return { error: 'Expected a "rates" object' }
+  }
+
+  const rates: Record<string, number> = {}
+  for (const [currency, rate] of Object.entries(table.rates)) {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      return { error: `Rate for ${currency} must be a positive number` }
+    }
+    rates[currency.toUpperCase()] = rate
+  }
+  if (rates[table.base] !== 1) {
+    return { error: `The base currency ${table.base} must have a rate of 1` }
+  }
+
+  return { rates: { version: RATES_VERSION, base: table.base, asOf: table.asOf, rates } }
+}
+
+const parsedRates = parseExchangeRates(bundledRates)
+if ('error' in parsedRates) console.error('Invalid bundled exchange rates:', parsedRates.error)
+
+// Rates bundled with the data; without them only same-currency amounts can be compared
+export const EXCHANGE_RATES: ExchangeRates = 'rates' in parsedRates
+  ? parsedRates.rates
+  : { version: RATES_VERSION, base: 'USD', asOf: '', rates: { USD: 1 } }
+
+// Currencies the display currency can be set to
+export const DISPLAY_CURRENCIES = Object.keys(EXCHANGE_RATES.rates).sort()
+
+export const DEFAULT_DISPLAY_CURRENCY = EXCHANGE_RATES.base
+
+/**
+ * Whether a currency can be converted with the bundled rates
+ */
+export function isSupportedCurrency(currency: string): boolean {
+  return currency in EXCHANGE_RATES.rates
+}
+
+/**
+ * Convert an amount between currencies, or null when either currency has no rate
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: ExchangeRates = EXCHANGE_RATES): number | null {
+  if (from === to) return amount
+  const fromRate = rates.rates[from]
+  const toRate = rates.rates[to]
+  if (fromRate === undefined || toRate === undefined) return null
+  return amount / fromRate * toRate
+}
+
+/**
+ * Format money in a currency without decimals, e.g. "€1,200" or "CHF 8,000"
+ */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount)
+  } catch {
+    // Not an ISO code Intl knows
+    return `${currency} ${Math.round(amount).toLocaleString('en-US')}`
+  }
+}
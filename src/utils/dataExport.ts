@@ -0,0 +1,195 @@
+import { extractCountry, type AppMetadata, type ParsedUniversity, type RawUniversity, type RawUniversityData } from './dataParser'
+import type { UniversityColumn } from './universityQuery'
+import { isOverallRanking } from './rankings'
+import { toRawProgram } from './programs'
+import { deadlineToText, toRawDeadline } from './deadlines'
+import { toRawCitation } from './provenance'
+import { buildXlsxWorkbook, XLSX_MIME_TYPE, type XlsxSheet } from './xlsxWriter'
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'xlsx'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON (re-loadable dataset)', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown table', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  xlsx: { label: 'Excel workbook (sheet per country)', extension: 'xlsx', mimeType: XLSX_MIME_TYPE }
+}
+
+// A column with the header text used in human-readable exports
+export interface ExportColumn {
+  key: UniversityColumn
+  header: string
+}
+
+const LIST_SEPARATOR = '; '
+
+/**
+ * Flatten a field to a single line of text
+ */
+export function formatExportValue(university: ParsedUniversity, column: UniversityColumn): string {
+  switch (column) {
+    case 'ranking':
+      return university.ranking.entries.map(entry => entry.display).join('; ')
+    case 'programs':
+      return university.programs.map(program => program.name).join(LIST_SEPARATOR)
+    case 'appDeadline':
+      return deadlineToText(university.appDeadline)
+    case 'acceptanceRate':
+      return university.acceptanceRate.display
+    case 'scholarships':
+      return university.scholarships
+        .map(scholarship => [
+          scholarship.name,
+          scholarship.amount && `(${scholarship.amount})`,
+          scholarship.url && `<${scholarship.url}>`
+        ].filter(Boolean).join(' '))
+        .join(LIST_SEPARATOR)
+    case 'contact':
+      return university.contact.email
+    case 'citations':
+      return university.citations.map(citation => citation.url).join(LIST_SEPARATOR)
+    default:
+      return String(university[column] ?? '')
+  }
+}
+
+/**
+ * Quote a CSV field when needed, and neutralize values a spreadsheet would run as a formula
+ */
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * RFC 4180 CSV with field names as headers; starts with a BOM so Excel reads it as UTF-8
+ */
+export function toCsv(universities: ParsedUniversity[], columns: ExportColumn[]): string {
+  const lines = [
+    columns.map(column => csvField(column.key)).join(','),
+    ...universities.map(university =>
+      columns.map(column => csvField(formatExportValue(university, column.key))).join(',')
+    )
+  ]
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+/**
+ * Convert a parsed university back to the raw dataset format
+ */
+export function toRawUniversity(university: ParsedUniversity): RawUniversity {
+  return {
+    rank: university.rank,
+    universityName: university.universityName,
+    cityCountry: university.cityCountry,
+    rankings: university.ranking.entries.map(({ system, value, year, scope, upperBound, sourceUrl }) => ({
+      system,
+      value,
+      ...(year !== null && { year }),
+      ...(!isOverallRanking({ scope }) && { scope }),
+      ...(upperBound && { upperBound }),
+      ...(sourceUrl && { sourceUrl })
+    })),
+    programs: university.programs.map(toRawProgram),
+    programStart: university.programStart,
+    appDeadline: toRawDeadline(university.appDeadline),
+    acceptanceRate: {
+      value: isNaN(university.acceptanceRate.value) ? null : university.acceptanceRate.value,
+      estimated: university.acceptanceRate.estimated
+    },
+    acceptanceCriteria: university.acceptanceCriteria,
+    scholarships: university.scholarships.map(({ name, amount, url }) => ({ name, amount, ...(url && { url }) })),
+    contact: university.contact.email,
+    url: university.url,
+    imageUrl: university.imageUrl,
+    citations: university.citations.map(toRawCitation),
+    ...(Object.keys(university.lastVerified).length > 0 && { fieldsLastVerified: university.lastVerified }),
+    ...(university.sources && { sources: university.sources })
+  }
+}
+
+/**
+ * A complete dataset that can be dropped into the data directory and loaded again.
+ * Every field is kept regardless of column visibility, since loading needs them all.
+ */
+export function toJsonDataset(universities: ParsedUniversity[], metadata: AppMetadata): string {
+  const data: RawUniversityData = {
+    generatedOn: new Date().toISOString().slice(0, 10),
+    rankingNote: metadata.rankingNote,
+    universities: universities.map(toRawUniversity)
+  }
+  return JSON.stringify(data, null, 2) + '\n'
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function markdownCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
+
+/**
+ * GitHub-flavored Markdown table
+ */
+export function toMarkdown(universities: ParsedUniversity[], columns: ExportColumn[]): string {
+  const lines = [
+    `| ${columns.map(column => markdownCell(column.header)).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...universities.map(university =>
+      `| ${columns.map(column => markdownCell(formatExportValue(university, column.key))).join(' | ')} |`
+    )
+  ]
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Country part of a "City, Country" location
+ */
+function countryOf(university: ParsedUniversity): string {
+  return extractCountry(university.cityCountry) || 'Other'
+}
+
+/**
+ * Workbook with one sheet per country, in the order countries first appear
+ */
+export function toXlsx(universities: ParsedUniversity[], columns: ExportColumn[]): Uint8Array {
+  const byCountry = new Map<string, ParsedUniversity[]>()
+  universities.forEach(university => {
+    const country = countryOf(university)
+    byCountry.set(country, [...(byCountry.get(country) || []), university])
+  })
+
+  const sheets: XlsxSheet[] = Array.from(byCountry.entries()).map(([country, countryUniversities]) => {
+    const rows = countryUniversities.map(university => columns.map(column =>
+      column.key === 'rank' ? university.rank : formatExportValue(university, column.key)
+    ))
+    const columnWidths = columns.map((column, i) => Math.min(
+      60,
+      Math.max(column.header.length, ...rows.map(row => String(row[i]).length)) + 2
+    ))
+    return { name: country, rows: [columns.map(column => column.header), ...rows], columnWidths }
+  })
+
+  return buildXlsxWorkbook(sheets)
+}
+
+/**
+ * Serialize universities in the given format
+ */
+export function exportUniversities(
+  format: ExportFormat,
+  universities: ParsedUniversity[],
+  columns: ExportColumn[],
+  metadata: AppMetadata
+): string | Uint8Array {
+  switch (format) {
+    case 'csv':
+      return toCsv(universities, columns)
+    case 'json':
+      return toJsonDataset(universities, metadata)
+    case 'markdown':
+      return toMarkdown(universities, columns)
+    case 'xlsx':
+      return toXlsx(universities, columns)
+  }
+}
@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { toParsedUniversities, type AppMetadata, type ParsedUniversity, type RawUniversityData } from './dataParser'
+import { createFatalReport, createValidationReport, validateUniversityData, type ValidationReport } from './dataValidator'
+import { mergeUniversityDatasets, type MergePrecedence, type SourceDataset } from './datasetMerger'
+import { toRawUniversityData } from './legacyImporter'
+
+export interface LoadDatasetsOptions {
+  // Directory scanned for `*.json` datasets
+  directory?: string
+  precedence?: MergePrecedence
+}
+
+export interface LoadedUniversities {
+  universities: ParsedUniversity[]
+  metadata: AppMetadata
+  report: ValidationReport
+}
+
+// A snapshot of the dataset, or the current merged datasets
+export interface DatasetVersion {
+  // Snapshot file name without `.json`, or CURRENT_VERSION
+  version: string
+  data: RawUniversityData
+}
+
+export const DEFAULT_DATA_DIRECTORY = path.join(process.cwd(), 'src', 'data')
+
+// Earlier versions of the dataset, kept for comparison; not loaded into the app
+export const DEFAULT_SNAPSHOT_DIRECTORY = path.join(DEFAULT_DATA_DIRECTORY, 'snapshots')
+
+export const CURRENT_VERSION = 'current'
+
+// Used by the page and every API route so they serve the same merge. Conflicting fields are taken from the
+// dataset with the newest `generatedOn`; use { strategy: 'priority', order: ['file-a.json', 'file-b.json'] } to pin an order instead
+export const DATASET_PRECEDENCE: MergePrecedence = { strategy: 'newest' }
+
+/**
+ * Fold a per-file report into the combined report, tagging issues with the file name
+ */
+function appendReport(combined: ValidationReport, report: ValidationReport, source: string) {
+  combined.totalRecords += report.totalRecords
+  combined.validRecords += report.validRecords
+  combined.invalidRecords += report.invalidRecords
+  combined.errors.push(...report.errors.map(issue => ({ ...issue, source })))
+  combined.warnings.push(...report.warnings.map(issue => ({ ...issue, source })))
+}
+
+/**
+ * Read and validate every dataset in a directory
+ */
+export async function readDatasets(directory: string): Promise<{ datasets: SourceDataset[]; report: ValidationReport }> {
+  const report = createValidationReport()
+  const datasets: SourceDataset[] = []
+
+  let files: string[]
+  try {
+    files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort()
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { datasets, report: createFatalReport('', `Could not read data directory: ${message}`) }
+  }
+
+  for (const file of files) {
+    try {
+      const fileContents = await fs.readFile(path.join(directory, file), 'utf8')
+      const { data, report: fileReport } = validateUniversityData(toRawUniversityData(JSON.parse(fileContents)))
+      appendReport(report, fileReport, file)
+      datasets.push({ source: file, data })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      appendReport(report, createFatalReport('', `Could not load dataset: ${message}`), file)
+    }
+  }
+
+  if (files.length === 0) {
+    report.errors.push({ severity: 'error', recordIndex: null, field: '', message: `No .json datasets found in ${directory}` })
+  }
+
+  return { datasets, report }
+}
+
+/**
+ * Load every dataset in the data directory, merge them and parse the result
+ */
+export async function loadUniversities(options: LoadDatasetsOptions = {}): Promise<LoadedUniversities> {
+  const directory = options.directory || DEFAULT_DATA_DIRECTORY
+  const precedence = options.precedence || DATASET_PRECEDENCE
+
+  const { datasets, report } = await readDatasets(directory)
+  const merged = mergeUniversityDatasets(datasets, precedence)
+
+  return {
+    universities: toParsedUniversities(merged),
+    metadata: {
+      generatedOn: merged.generatedOn,
+      rankingNote: merged.rankingNote,
+      sources: datasets.map(dataset => dataset.source)
+    },
+    report
+  }
+}
+
+/**
+ * Every snapshot in the snapshot directory, oldest first by `generatedOn`, followed by the current merged datasets.
+ * Snapshots that fail validation are skipped; a missing snapshot directory means there are none.
+ */
+export async function loadDatasetVersions(
+  options: LoadDatasetsOptions & { snapshotDirectory?: string } = {}
+): Promise<DatasetVersion[]> {
+  const current = await readDatasets(options.directory || DEFAULT_DATA_DIRECTORY)
+  const snapshots = await readDatasets(options.snapshotDirectory || DEFAULT_SNAPSHOT_DIRECTORY)
+
+  const generatedTime = (data: RawUniversityData) => new Date(data.generatedOn).getTime() || 0
+  return [
+    ...snapshots.datasets
+      .filter(snapshot => snapshot.data.universities.length > 0)
+      .sort((a, b) => generatedTime(a.data) - generatedTime(b.data) || a.source.localeCompare(b.source))
+      .map(snapshot => ({ version: snapshot.source.replace(/\.json$/, ''), data: snapshot.data })),
+    { version: CURRENT_VERSION, data: mergeUniversityDatasets(current.datasets, options.precedence || DATASET_PRECEDENCE) }
+  ]
+}
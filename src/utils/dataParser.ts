@@ -1,23 +1,32 @@
+import { validateUniversityData, type ValidationReport } from './dataValidator'
+import { parseAppDeadline, type Deadline } from './deadlines'
+import { VERIFIABLE_FIELDS } from './freshness'
+import { classifyScholarship, type FundingAmount, type ScholarshipFunding } from './funding'
+import { parseProgram, type DegreeType } from './programs'
+import { parseCitations, type Citation } from './provenance'
+import { parseRankings } from './rankings'
+import { parseRequirements, type AdmissionRequirements } from './requirements'
+
 // Raw data interface from JSON
-interface RawUniversityData {
+export interface RawUniversityData {
   generatedOn: string
   rankingNote: string
   universities: RawUniversity[]
+  excludedUniversities?: unknown[]
 }
 
-interface RawUniversity {
+export interface RawUniversity {
   rank: number
   universityName: string
   cityCountry: string
-  ranking: {
-    system: string
-    value: number
-  }
-  programs: string[]
+  // Every ranking list the university appears in
+  rankings: RawRanking[]
+  programs: RawProgram[]
   programStart: string
-  appDeadline: string
+  appDeadline: RawDeadline
   acceptanceRate: {
-    value: number
+    // null when the source does not report a rate
+    value: number | null
     estimated: boolean
   }
   acceptanceCriteria: string
@@ -29,7 +38,107 @@ interface RawUniversity {
   contact: string
   url: string
   imageUrl?: string
-  citations?: string[]
+  citations?: RawCitation[]
+  // When the record was last checked against its sources, as YYYY-MM-DD or an ISO timestamp
+  lastVerified?: string
+  // Check dates of single fields, keyed by field name; these win over lastVerified
+  fieldsLastVerified?: FieldDates
+  // Source file of each field, filled in when several datasets are merged
+  sources?: FieldSources
+}
+
+// One position in one ranking list, e.g. QS 2025 #12 overall or THE 2024 #3 in Computer Science
+export interface RawRanking {
+  system: string
+  value: number
+  year?: number
+  // "overall" (the default) or a subject such as "Computer Science"
+  scope?: string
+  // The position is a bound rather than exact, e.g. "Top 3 in Computer Science"
+  upperBound?: boolean
+  sourceUrl?: string
+}
+
+// An application deadline: text such as "2025-12-15", "Sep 2026", "2025-12-01 (expected)", "Rolling admissions"
+// or "Priority: 2025-12-01; Final: 2026-01-15", or a record for several rounds and a time zone
+export type RawDeadline = string | RawDeadlineRecord
+
+export interface RawDeadlineRecord {
+  rounds?: Array<{
+    // One of DEADLINE_ROUND_KINDS; a lone or last unlabelled round is the final one
+    kind?: string
+    label?: string
+    // YYYY-MM-DD, or YYYY-MM when only the month is known
+    date: string
+    estimated?: boolean
+  }>
+  rolling?: boolean
+  // IANA time zone the rounds close in, e.g. "America/New_York"
+  timeZone?: string
+  notes?: string
+}
+
+// A source link: a bare URL, or a record naming the fields it backs, e.g. { "url": "...", "fields": ["acceptanceRate"] }
+export type RawCitation = string | RawCitationRecord
+
+export interface RawCitationRecord {
+  url: string
+  // Names of the fields the source backs, e.g. "acceptanceRate", "appDeadline" or "scholarships"
+  fields?: string[]
+  // What the source says, e.g. "Class profile 2024"
+  note?: string
+}
+
+// One program; only the name is required, and the dates override the university's own
+export interface RawProgram {
+  name: string
+  // One of DEGREE_TYPES; read from the name when missing
+  degreeType?: string
+  durationMonths?: number
+  // Languages of instruction, e.g. ["English", "German"]
+  languages?: string[]
+  programStart?: string
+  appDeadline?: RawDeadline
+  // Free text such as "€1,500 per semester" or "No tuition fees"
+  tuition?: string
+  // Tracks or focus areas, e.g. ["Machine Learning", "Security"]
+  specializations?: string[]
+}
+
+// Maps a RawUniversity field name to the dataset file it was taken from, or to every file that contributed
+// to a field combined from several datasets, such as rankings
+export type FieldSources = Record<string, string | string[]>
+
+// Maps a RawUniversity field name to a YYYY-MM-DD date
+export type FieldDates = Record<string, string>
+
+export interface ParsedRanking {
+  system: string
+  value: number
+  year: number | null
+  scope: string
+  upperBound: boolean
+  sourceUrl?: string
+  display: string
+}
+
+// A program with the university's start date and deadline filled in where it has none of its own
+export interface Program {
+  name: string
+  // null when the name does not say, e.g. "Master in Data Science"
+  degreeType: DegreeType | null
+  durationMonths: number | null
+  // Empty when not stated
+  languages: string[]
+  programStart: string
+  appDeadline: Deadline
+  // Dates that are the program's own rather than the university's
+  overrides: Array<'programStart' | 'appDeadline'>
+  tuition: {
+    text: string
+    amount: FundingAmount | null
+  } | null
+  specializations: string[]
 }
 
 // Parsed university interface for the app
@@ -38,26 +147,34 @@ export interface ParsedUniversity {
   universityName: string
   cityCountry: string
   ranking: {
+    // Headline ranking: the latest overall ranking of the best-known system
     system: string
+    // NaN when the university has no rankings
     value: number
     display: string
+    // Every ranking, grouped by system with each system's representative ranking first
+    entries: ParsedRanking[]
+    // 0–100 across systems, higher is better; NaN without rankings
+    composite: number
   }
-  programs: string[]
+  programs: Program[]
   programStart: string
-  appDeadline: {
-    date: string
-    formatted: string
-  }
+  appDeadline: Deadline
   acceptanceRate: {
+    // NaN when the rate is not reported
     value: number
     estimated: boolean
     display: string
   }
   acceptanceCriteria: string
+  // Structured requirements read from the acceptance criteria
+  requirements: AdmissionRequirements
   scholarships: Array<{
     name: string
     amount: string
     url?: string
+    // Funding tier and amount read from the name and amount text
+    funding: ScholarshipFunding
   }>
   contact: {
     email: string
@@ -65,13 +182,18 @@ export interface ParsedUniversity {
   }
   url: string
   imageUrl?: string
-  citations: string[]
+  citations: Citation[]
+  // When each field was last verified, with the record's date filled in; fields never checked are missing
+  lastVerified: FieldDates
+  sources?: FieldSources
 }
 
 // App metadata
 export interface AppMetadata {
   generatedOn: string
   rankingNote: string
+  // Dataset files the universities were loaded from
+  sources?: string[]
 }
 
 // URL regex pattern to extract links
@@ -86,25 +208,26 @@ const PHONE_REGEX = /(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0
 /**
  * Extract URLs from text and return cleaned text with separate links array
  */
-function extractLinks(text: string): { text: string; links: string[] } {
+export function extractLinks(text: string): { text: string; links: string[] } {
   if (!text) return { text: '', links: [] }
   
   const links = Array.from(text.match(URL_REGEX) || [])
   const cleanText = text.replace(URL_REGEX, '').trim()
   
-  return { text: cleanText, links: links.map(link => decodeURIComponent(link)) }
+  // Links stay percent-encoded so they remain valid hrefs
+  return { text: cleanText, links }
 }
 
 /**
  * Extract contact information (emails and phones) from text
  */
-function extractContacts(text: string): { contact: string; emails: string[]; phones: string[] } {
+export function extractContacts(text: string): { contact: string; emails: string[]; phones: string[] } {
   if (!text) return { contact: '', emails: [], phones: [] }
   
   const emails = Array.from(text.match(EMAIL_REGEX) || [])
   const phones = Array.from(text.match(PHONE_REGEX) || [])
   
-  let cleanText = text.replace(EMAIL_REGEX, '').replace(PHONE_REGEX, '').trim()
+  const cleanText = text.replace(EMAIL_REGEX, '').replace(PHONE_REGEX, '').trim()
   
   return { contact: cleanText, emails, phones }
 }
@@ -112,7 +235,7 @@ function extractContacts(text: string): { contact: string; emails: string[]; pho
 /**
  * Parse acceptance rate and extract percentage
  */
-function parseAcceptanceRate(text: string): { rate: string; notes: string; links: string[] } {
+export function parseAcceptanceRate(text: string): { rate: string; notes: string; links: string[] } {
   if (!text) return { rate: 'N/A', notes: '', links: [] }
   
   const { text: cleanText, links } = extractLinks(text)
@@ -127,40 +250,10 @@ function parseAcceptanceRate(text: string): { rate: string; notes: string; links
   return { rate, notes, links }
 }
 
-/**
- * Parse application deadline and extract date information
- */
-function parseDeadline(text: string): { date: string; notes: string; links: string[] } {
-  if (!text) return { date: '', notes: '', links: [] }
-  
-  const { text: cleanText, links } = extractLinks(text)
-  
-  // Try to extract date in various formats
-  const datePatterns = [
-    /(\d{4}-\d{2}-\d{2})/,  // YYYY-MM-DD
-    /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{4}/i,  // Mon YYYY
-    /(\w+\s+\d{1,2},?\s+\d{4})/  // Month DD, YYYY
-  ]
-  
-  let date = ''
-  let notes = cleanText
-  
-  for (const pattern of datePatterns) {
-    const match = cleanText.match(pattern)
-    if (match) {
-      date = match[1]
-      notes = cleanText.replace(pattern, '').trim()
-      break
-    }
-  }
-  
-  return { date, notes, links }
-}
-
 /**
  * Clean and decode malformed text
  */
-function cleanText(text: string): string {
+export function cleanText(text: string): string {
   if (!text) return ''
   
   return text
@@ -173,22 +266,6 @@ function cleanText(text: string): string {
     .trim()
 }
 
-/**
- * Format date string for display
- */
-function formatDate(dateStr: string): string {
-  try {
-    const date = new Date(dateStr)
-    return date.toLocaleDateString('en-US', { 
-      year: 'numeric', 
-      month: 'long', 
-      day: 'numeric' 
-    })
-  } catch {
-    return dateStr
-  }
-}
-
 /**
  * Check if a string is an email address
  */
@@ -197,48 +274,70 @@ function isEmail(str: string): boolean {
 }
 
 /**
- * Main function to parse university data from new JSON structure
+ * Convert already-validated raw records into the app format
  */
-export function parseUniversityData(rawData: RawUniversityData): { universities: ParsedUniversity[], metadata: AppMetadata } {
-  const metadata: AppMetadata = {
-    generatedOn: rawData.generatedOn,
-    rankingNote: rawData.rankingNote
-  }
+export function toParsedUniversities(rawData: RawUniversityData): ParsedUniversity[] {
+  return rawData.universities.map(university => {
+    const appDeadline = parseAppDeadline(university.appDeadline)
 
-  const universities: ParsedUniversity[] = rawData.universities.map(university => {
     return {
       rank: university.rank,
       universityName: university.universityName,
       cityCountry: university.cityCountry,
-      ranking: {
-        system: university.ranking.system,
-        value: university.ranking.value,
-        display: `${university.ranking.system} #${university.ranking.value}`
-      },
-      programs: university.programs,
+      ranking: parseRankings(university.rankings),
+      programs: university.programs.map(program => parseProgram(program, { programStart: university.programStart, appDeadline })),
       programStart: university.programStart,
-      appDeadline: {
-        date: university.appDeadline,
-        formatted: formatDate(university.appDeadline)
-      },
+      appDeadline,
       acceptanceRate: {
-        value: university.acceptanceRate.value,
+        value: university.acceptanceRate.value ?? NaN,
         estimated: university.acceptanceRate.estimated,
-        display: `${university.acceptanceRate.value}%${university.acceptanceRate.estimated ? ' (est.)' : ''}`
+        display: university.acceptanceRate.value === null
+          ? 'N/A'
+          : `${university.acceptanceRate.value}%${university.acceptanceRate.estimated ? ' (est.)' : ''}`
       },
       acceptanceCriteria: university.acceptanceCriteria,
-      scholarships: university.scholarships,
+      requirements: parseRequirements(university.acceptanceCriteria),
+      scholarships: university.scholarships.map(scholarship => ({
+        ...scholarship,
+        funding: classifyScholarship(scholarship)
+      })),
       contact: {
         email: university.contact,
         isEmail: isEmail(university.contact)
       },
       url: university.url,
       imageUrl: university.imageUrl,
-      citations: university.citations || []
+      citations: parseCitations(university.citations || []),
+      lastVerified: Object.fromEntries(VERIFIABLE_FIELDS.flatMap(field => {
+        const date = university.fieldsLastVerified?.[field] || university.lastVerified
+        return date ? [[field, date]] : []
+      })),
+      sources: university.sources
     }
-  }).filter(uni => uni.universityName && uni.rank > 0)
+  })
+}
+
+/**
+ * Main function to parse university data from new JSON structure.
+ * Input is validated first; invalid records are skipped and listed in the report.
+ */
+export function parseUniversityData(rawInput: unknown): { universities: ParsedUniversity[], metadata: AppMetadata, report: ValidationReport } {
+  const { data: rawData, report } = validateUniversityData(rawInput)
+
+  const metadata: AppMetadata = {
+    generatedOn: rawData.generatedOn,
+    rankingNote: rawData.rankingNote
+  }
+
+  return { universities: toParsedUniversities(rawData), metadata, report }
+}
 
-  return { universities, metadata }
+/**
+ * Country part of a "City, Country" location, or '' when there is none
+ */
+export function extractCountry(cityCountry: string): string {
+  const parts = (cityCountry || '').split(',')
+  return parts.length > 1 ? parts[parts.length - 1].trim() : ''
 }
 
 /**
@@ -248,14 +347,8 @@ export function extractCountries(universities: ParsedUniversity[]): string[] {
   const countries = new Set<string>()
   
   universities.forEach(uni => {
-    const cityCountry = uni.cityCountry
-    if (cityCountry) {
-      const parts = cityCountry.split(',')
-      if (parts.length > 1) {
-        const country = parts[parts.length - 1].trim()
-        if (country) countries.add(country)
-      }
-    }
+    const country = extractCountry(uni.cityCountry)
+    if (country) countries.add(country)
   })
   
   return Array.from(countries).sort()
@@ -0,0 +1,533 @@
+import type { RawCitation, RawDeadline, RawDeadlineRecord, RawProgram, RawRanking, RawUniversity, RawUniversityData } from './dataParser'
+import { DEADLINE_ROUND_KINDS, findDate, isValidTimeZone, parseDeadlineText } from './deadlines'
+import { isVerifiableField, toVerificationDate } from './freshness'
+import { DEGREE_TYPES, isDegreeType } from './programs'
+import { CITED_FIELDS, isCitedField } from './provenance'
+
+export type ValidationSeverity = 'error' | 'warning'
+
+// A single problem found while validating the raw dataset
+export interface ValidationIssue {
+  severity: ValidationSeverity
+  // Index of the record in `universities`, or null for dataset-level issues
+  recordIndex: number | null
+  universityName?: string
+  // Dataset file the issue was found in, when several files are loaded
+  source?: string
+  // Dotted path of the offending field, e.g. `acceptanceRate.value`
+  field: string
+  message: string
+}
+
+// Structured report returned alongside the parsed data
+export interface ValidationReport {
+  totalRecords: number
+  validRecords: number
+  invalidRecords: number
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+type RecordIssue = Omit<ValidationIssue, 'recordIndex' | 'universityName'>
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Describe the runtime type of a value for error messages
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && isNaN(value)) return 'NaN'
+  return typeof value
+}
+
+/**
+ * Check that a string can be turned into a real date
+ */
+function isParsableDate(value: string): boolean {
+  return !isNaN(new Date(value).getTime())
+}
+
+/**
+ * Create an empty report for the given number of records
+ */
+export function createValidationReport(totalRecords = 0): ValidationReport {
+  return { totalRecords, validRecords: 0, invalidRecords: 0, errors: [], warnings: [] }
+}
+
+/**
+ * Build a report for a dataset that could not be read at all
+ */
+export function createFatalReport(field: string, message: string): ValidationReport {
+  return {
+    ...createValidationReport(),
+    errors: [{ severity: 'error', recordIndex: null, field, message }]
+  }
+}
+
+/**
+ * Validate one record and return a sanitized copy (or null when it has errors)
+ */
+function validateRecord(raw: unknown): { record: RawUniversity | null; issues: RecordIssue[] } {
+  const issues: RecordIssue[] = []
+  const error = (field: string, message: string) => issues.push({ severity: 'error', field, message })
+  const warning = (field: string, message: string) => issues.push({ severity: 'warning', field, message })
+
+  if (!isObject(raw)) {
+    error('', `Expected an object but got ${describeType(raw)}`)
+    return { record: null, issues }
+  }
+
+  // Required scalar fields
+  if (!isFiniteNumber(raw.rank)) {
+    error('rank', raw.rank === undefined ? 'Missing required field' : `Expected a number but got ${describeType(raw.rank)}`)
+  } else if (!Number.isInteger(raw.rank) || raw.rank < 1) {
+    error('rank', `Rank must be a positive integer (got ${raw.rank})`)
+  }
+
+  for (const field of ['universityName', 'cityCountry'] as const) {
+    if (raw[field] === undefined) error(field, 'Missing required field')
+    else if (typeof raw[field] !== 'string') error(field, `Expected a string but got ${describeType(raw[field])}`)
+    else if (!isNonEmptyString(raw[field])) error(field, 'Must not be empty')
+  }
+
+  if (isNonEmptyString(raw.cityCountry) && !raw.cityCountry.includes(',')) {
+    warning('cityCountry', `Expected "City, Country" but got "${raw.cityCountry}"`)
+  }
+
+  // Rankings: a list, or the single `ranking` object of older datasets
+  let rankings: RawRanking[] = []
+  const validateRanking = (ranking: unknown, field: string): RawRanking | null => {
+    if (!isObject(ranking)) {
+      error(field, `Expected an object but got ${describeType(ranking)}`)
+      return null
+    }
+    let isValid = true
+    if (!isNonEmptyString(ranking.system)) {
+      error(`${field}.system`, `Expected a non-empty string but got ${describeType(ranking.system)}`)
+      isValid = false
+    }
+    if (!isFiniteNumber(ranking.value)) {
+      error(`${field}.value`, `Expected a number but got ${describeType(ranking.value)}`)
+      isValid = false
+    } else if (ranking.value < 1) {
+      error(`${field}.value`, `Ranking must be 1 or higher (got ${ranking.value})`)
+      isValid = false
+    }
+    if (ranking.year !== undefined && !(isFiniteNumber(ranking.year) && Number.isInteger(ranking.year))) {
+      warning(`${field}.year`, `Ignored year of type ${describeType(ranking.year)}`)
+    }
+    if (ranking.scope !== undefined && typeof ranking.scope !== 'string') {
+      warning(`${field}.scope`, `Ignored scope of type ${describeType(ranking.scope)}`)
+    }
+    if (ranking.upperBound !== undefined && typeof ranking.upperBound !== 'boolean') {
+      warning(`${field}.upperBound`, `Ignored upperBound of type ${describeType(ranking.upperBound)}`)
+    }
+    if (ranking.sourceUrl !== undefined && typeof ranking.sourceUrl !== 'string') {
+      warning(`${field}.sourceUrl`, `Ignored sourceUrl of type ${describeType(ranking.sourceUrl)}`)
+    }
+    if (!isValid) return null
+
+    return {
+      system: (ranking.system as string).trim(),
+      value: ranking.value as number,
+      ...(isFiniteNumber(ranking.year) && Number.isInteger(ranking.year) && { year: ranking.year }),
+      ...(isNonEmptyString(ranking.scope) && { scope: ranking.scope.trim() }),
+      ...(ranking.upperBound === true && { upperBound: true }),
+      ...(isNonEmptyString(ranking.sourceUrl) && { sourceUrl: ranking.sourceUrl })
+    }
+  }
+
+  if (raw.rankings !== undefined) {
+    if (!Array.isArray(raw.rankings)) {
+      error('rankings', `Expected an array but got ${describeType(raw.rankings)}`)
+    } else {
+      // An empty list is an unranked university
+      if (raw.rankings.length === 0) warning('rankings', 'No rankings listed')
+      rankings = raw.rankings
+        .map((ranking, index) => validateRanking(ranking, `rankings[${index}]`))
+        .filter((ranking): ranking is RawRanking => ranking !== null)
+    }
+  } else if (raw.ranking !== undefined) {
+    const ranking = validateRanking(raw.ranking, 'ranking')
+    if (ranking) rankings = [ranking]
+  } else {
+    error('rankings', 'Missing required field')
+  }
+
+  // Deadlines: text, or a record of rounds; unreadable rounds and details are dropped with a warning
+  const validateDeadline = (value: unknown, field: string): RawDeadline | null => {
+    if (typeof value === 'string') {
+      const parsed = parseDeadlineText(value)
+      if (parsed.rounds.length === 0 && !parsed.rolling) warning(field, `"${value}" is not a recognizable date`)
+      return value
+    }
+    if (!isObject(value)) return null
+
+    const rounds: NonNullable<RawDeadlineRecord['rounds']> = []
+    if (value.rounds !== undefined && !Array.isArray(value.rounds)) {
+      warning(`${field}.rounds`, `Ignored rounds of type ${describeType(value.rounds)}`)
+    } else if (Array.isArray(value.rounds)) {
+      value.rounds.forEach((round, index) => {
+        const roundField = `${field}.rounds[${index}]`
+        if (!isObject(round) || !isNonEmptyString(round.date) || !findDate(round.date)) {
+          warning(roundField, 'Dropped round without a recognizable date')
+          return
+        }
+        const hasKind = typeof round.kind === 'string' && (DEADLINE_ROUND_KINDS as string[]).includes(round.kind)
+        if (round.kind !== undefined && !hasKind) {
+          warning(`${roundField}.kind`, `Ignored round kind "${String(round.kind)}"; expected one of ${DEADLINE_ROUND_KINDS.join(', ')}`)
+        }
+        rounds.push({
+          ...(hasKind && { kind: round.kind as string }),
+          ...(isNonEmptyString(round.label) && { label: round.label.trim() }),
+          date: round.date,
+          ...(round.estimated === true && { estimated: true })
+        })
+      })
+    }
+
+    const hasTimeZone = isNonEmptyString(value.timeZone) && isValidTimeZone(value.timeZone)
+    if (value.timeZone !== undefined && !hasTimeZone) {
+      warning(`${field}.timeZone`, `Ignored time zone "${String(value.timeZone)}"; expected an IANA name such as Europe/Berlin`)
+    }
+    if (value.rolling !== undefined && typeof value.rolling !== 'boolean') {
+      warning(`${field}.rolling`, `Ignored rolling of type ${describeType(value.rolling)}`)
+    }
+    if (rounds.length === 0 && value.rolling !== true) warning(field, 'No dated rounds and no rolling admissions')
+
+    return {
+      rounds,
+      ...(value.rolling === true && { rolling: true }),
+      ...(hasTimeZone && { timeZone: value.timeZone as string }),
+      ...(isNonEmptyString(value.notes) && { notes: value.notes.trim() })
+    }
+  }
+
+  // Programs: plain names, or objects with details; invalid details are dropped with a warning
+  const validateProgram = (program: unknown, field: string): RawProgram | null => {
+    if (isNonEmptyString(program)) return { name: program.trim() }
+    if (!isObject(program)) {
+      warning(field, `Dropped program entry of type ${describeType(program)}`)
+      return null
+    }
+    if (!isNonEmptyString(program.name)) {
+      warning(field, 'Dropped program without a name')
+      return null
+    }
+
+    const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isNonEmptyString)
+    if (program.degreeType !== undefined && !(typeof program.degreeType === 'string' && isDegreeType(program.degreeType))) {
+      warning(`${field}.degreeType`, `Ignored degree type "${String(program.degreeType)}"; expected one of ${DEGREE_TYPES.join(', ')}`)
+    }
+    const hasDuration = isFiniteNumber(program.durationMonths) && Number.isInteger(program.durationMonths) && program.durationMonths > 0
+    if (program.durationMonths !== undefined && !hasDuration) {
+      warning(`${field}.durationMonths`, `Ignored duration ${String(program.durationMonths)}; expected a whole number of months`)
+    }
+    for (const list of ['languages', 'specializations'] as const) {
+      if (program[list] !== undefined && !isStringList(program[list])) {
+        warning(`${field}.${list}`, `Ignored ${list}; expected an array of strings`)
+      }
+    }
+    if (program.programStart !== undefined) {
+      if (!isNonEmptyString(program.programStart)) {
+        warning(`${field}.programStart`, `Ignored programStart of type ${describeType(program.programStart)}`)
+      } else if (!isParsableDate(program.programStart)) {
+        warning(`${field}.programStart`, `"${program.programStart}" is not a recognizable date`)
+      }
+    }
+    const appDeadline = program.appDeadline === undefined || program.appDeadline === ''
+      ? null
+      : validateDeadline(program.appDeadline, `${field}.appDeadline`)
+    if (program.appDeadline !== undefined && program.appDeadline !== '' && appDeadline === null) {
+      warning(`${field}.appDeadline`, `Ignored appDeadline of type ${describeType(program.appDeadline)}`)
+    }
+    if (program.tuition !== undefined && typeof program.tuition !== 'string') {
+      warning(`${field}.tuition`, `Ignored tuition of type ${describeType(program.tuition)}`)
+    }
+
+    return {
+      name: program.name.trim(),
+      ...(typeof program.degreeType === 'string' && isDegreeType(program.degreeType) && { degreeType: program.degreeType }),
+      ...(hasDuration && { durationMonths: program.durationMonths as number }),
+      ...(isStringList(program.languages) && program.languages.length > 0 && { languages: program.languages.map(language => language.trim()) }),
+      ...(isNonEmptyString(program.programStart) && { programStart: program.programStart }),
+      ...(appDeadline !== null && { appDeadline }),
+      ...(isNonEmptyString(program.tuition) && { tuition: program.tuition }),
+      ...(isStringList(program.specializations) && program.specializations.length > 0 && {
+        specializations: program.specializations.map(specialization => specialization.trim())
+      })
+    }
+  }
+
+  let programs: RawProgram[] = []
+  if (!Array.isArray(raw.programs)) {
+    error('programs', raw.programs === undefined ? 'Missing required field' : `Expected an array but got ${describeType(raw.programs)}`)
+  } else {
+    programs = raw.programs
+      .map((program, index) => validateProgram(program, `programs[${index}]`))
+      .filter((program): program is RawProgram => program !== null)
+    if (programs.length === 0) warning('programs', 'No programs listed')
+  }
+
+  // Dates
+  if (raw.programStart === undefined || raw.programStart === null || raw.programStart === '') {
+    warning('programStart', 'Missing value')
+  } else if (typeof raw.programStart !== 'string') {
+    error('programStart', `Expected a string but got ${describeType(raw.programStart)}`)
+  } else if (!isParsableDate(raw.programStart)) {
+    warning('programStart', `"${raw.programStart}" is not a recognizable date`)
+  }
+
+  let appDeadline: RawDeadline = ''
+  if (raw.appDeadline === undefined || raw.appDeadline === null || raw.appDeadline === '') {
+    warning('appDeadline', 'Missing value')
+  } else {
+    const deadline = validateDeadline(raw.appDeadline, 'appDeadline')
+    if (deadline === null) error('appDeadline', `Expected a string or an object but got ${describeType(raw.appDeadline)}`)
+    else appDeadline = deadline
+  }
+
+  // Acceptance rate
+  if (!isObject(raw.acceptanceRate)) {
+    error('acceptanceRate', raw.acceptanceRate === undefined ? 'Missing required field' : `Expected an object but got ${describeType(raw.acceptanceRate)}`)
+  } else {
+    if (raw.acceptanceRate.value === null) {
+      warning('acceptanceRate.value', 'Acceptance rate not reported')
+    } else if (!isFiniteNumber(raw.acceptanceRate.value)) {
+      error('acceptanceRate.value', `Expected a number or null but got ${describeType(raw.acceptanceRate.value)}`)
+    } else if (raw.acceptanceRate.value < 0 || raw.acceptanceRate.value > 100) {
+      error('acceptanceRate.value', `Acceptance rate must be between 0 and 100 (got ${raw.acceptanceRate.value})`)
+    }
+    if (typeof raw.acceptanceRate.estimated !== 'boolean') {
+      warning('acceptanceRate.estimated', 'Missing or non-boolean flag, treating the rate as estimated')
+    }
+  }
+
+  if (raw.acceptanceCriteria !== undefined && typeof raw.acceptanceCriteria !== 'string') {
+    error('acceptanceCriteria', `Expected a string but got ${describeType(raw.acceptanceCriteria)}`)
+  }
+
+  // Scholarships
+  let scholarships: RawUniversity['scholarships'] = []
+  if (raw.scholarships !== undefined && !Array.isArray(raw.scholarships)) {
+    error('scholarships', `Expected an array but got ${describeType(raw.scholarships)}`)
+  } else if (Array.isArray(raw.scholarships)) {
+    scholarships = raw.scholarships.flatMap((scholarship, index) => {
+      if (!isObject(scholarship) || !isNonEmptyString(scholarship.name)) {
+        warning(`scholarships[${index}]`, 'Dropped scholarship without a name')
+        return []
+      }
+      if (scholarship.url !== undefined && typeof scholarship.url !== 'string') {
+        warning(`scholarships[${index}].url`, `Ignored url of type ${describeType(scholarship.url)}`)
+      }
+      return [{
+        name: scholarship.name,
+        amount: typeof scholarship.amount === 'string' ? scholarship.amount : '',
+        url: typeof scholarship.url === 'string' ? scholarship.url : undefined
+      }]
+    })
+  }
+
+  // Contact and links
+  if (raw.contact !== undefined && typeof raw.contact !== 'string') {
+    warning('contact', `Ignored contact of type ${describeType(raw.contact)}`)
+  }
+  if (raw.url !== undefined && typeof raw.url !== 'string') {
+    warning('url', `Ignored url of type ${describeType(raw.url)}`)
+  }
+  if (raw.imageUrl !== undefined && typeof raw.imageUrl !== 'string') {
+    warning('imageUrl', `Ignored imageUrl of type ${describeType(raw.imageUrl)}`)
+  }
+
+  let citations: RawCitation[] = []
+  if (raw.citations !== undefined && !Array.isArray(raw.citations)) {
+    warning('citations', `Ignored citations of type ${describeType(raw.citations)}`)
+  } else if (Array.isArray(raw.citations)) {
+    citations = raw.citations.flatMap((citation, index): RawCitation[] => {
+      if (typeof citation === 'string') return [citation]
+      if (!isObject(citation) || !isNonEmptyString(citation.url)) {
+        warning(`citations[${index}]`, 'Dropped citation without a url')
+        return []
+      }
+      let fields: string[] = []
+      if (Array.isArray(citation.fields)) {
+        fields = citation.fields.filter((field): field is string => typeof field === 'string' && isCitedField(field))
+        citation.fields.filter(field => !fields.includes(field as string)).forEach(field => {
+          warning(`citations[${index}].fields`, `Ignored field "${String(field)}"; expected one of ${CITED_FIELDS.join(', ')}`)
+        })
+      } else if (citation.fields !== undefined) {
+        warning(`citations[${index}].fields`, `Ignored fields of type ${describeType(citation.fields)}`)
+      }
+      return [{
+        url: citation.url,
+        ...(fields.length > 0 && { fields }),
+        ...(isNonEmptyString(citation.note) && { note: citation.note })
+      }]
+    })
+  }
+
+  let lastVerified: string | undefined
+  if (raw.lastVerified !== undefined) {
+    lastVerified = typeof raw.lastVerified === 'string' ? toVerificationDate(raw.lastVerified) ?? undefined : undefined
+    if (!lastVerified) warning('lastVerified', `Ignored "${String(raw.lastVerified)}"; expected a date such as 2025-11-03`)
+  }
+
+  let fieldsLastVerified: Record<string, string> | undefined
+  if (isObject(raw.fieldsLastVerified)) {
+    fieldsLastVerified = {}
+    for (const [field, value] of Object.entries(raw.fieldsLastVerified)) {
+      const date = typeof value === 'string' ? toVerificationDate(value) : null
+      if (!isVerifiableField(field)) {
+        warning(`fieldsLastVerified.${field}`, 'Ignored a field that has no verification date')
+      } else if (!date) {
+        warning(`fieldsLastVerified.${field}`, `Ignored "${String(value)}"; expected a date such as 2025-11-03`)
+      } else {
+        fieldsLastVerified[field] = date
+      }
+    }
+  } else if (raw.fieldsLastVerified !== undefined) {
+    warning('fieldsLastVerified', `Ignored fieldsLastVerified of type ${describeType(raw.fieldsLastVerified)}`)
+  }
+
+  let sources: Record<string, string | string[]> | undefined
+  if (isObject(raw.sources)) {
+    sources = Object.fromEntries(
+      Object.entries(raw.sources).filter((entry): entry is [string, string | string[]] =>
+        typeof entry[1] === 'string' || (Array.isArray(entry[1]) && entry[1].every(source => typeof source === 'string')))
+    )
+  } else if (raw.sources !== undefined) {
+    warning('sources', `Ignored sources of type ${describeType(raw.sources)}`)
+  }
+
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { record: null, issues }
+  }
+
+  const acceptanceRate = raw.acceptanceRate as { value: number | null; estimated?: unknown }
+
+  return {
+    record: {
+      rank: raw.rank as number,
+      universityName: (raw.universityName as string).trim(),
+      cityCountry: (raw.cityCountry as string).trim(),
+      rankings,
+      programs,
+      programStart: typeof raw.programStart === 'string' ? raw.programStart : '',
+      appDeadline,
+      acceptanceRate: {
+        value: acceptanceRate.value,
+        estimated: typeof acceptanceRate.estimated === 'boolean' ? acceptanceRate.estimated : true
+      },
+      acceptanceCriteria: typeof raw.acceptanceCriteria === 'string' ? raw.acceptanceCriteria : '',
+      scholarships,
+      contact: typeof raw.contact === 'string' ? raw.contact : '',
+      url: typeof raw.url === 'string' ? raw.url : '',
+      imageUrl: typeof raw.imageUrl === 'string' ? raw.imageUrl : undefined,
+      citations,
+      ...(lastVerified && { lastVerified }),
+      ...(fieldsLastVerified && Object.keys(fieldsLastVerified).length > 0 && { fieldsLastVerified }),
+      sources
+    },
+    issues
+  }
+}
+
+/**
+ * Validate raw JSON against the RawUniversityData shape.
+ * Records with errors are dropped, records with only warnings are kept.
+ */
+export function validateUniversityData(rawData: unknown): { data: RawUniversityData; report: ValidationReport } {
+  const emptyData: RawUniversityData = { generatedOn: '', rankingNote: '', universities: [] }
+
+  if (!isObject(rawData)) {
+    return {
+      data: emptyData,
+      report: createFatalReport('', `Expected a dataset object but got ${describeType(rawData)}`)
+    }
+  }
+
+  if (!Array.isArray(rawData.universities)) {
+    return {
+      data: emptyData,
+      report: createFatalReport('universities', `Expected an array but got ${describeType(rawData.universities)}`)
+    }
+  }
+
+  const records: unknown[] = rawData.universities
+  const report = createValidationReport(records.length)
+  const pushIssue = (issue: ValidationIssue) => {
+    if (issue.severity === 'error') report.errors.push(issue)
+    else report.warnings.push(issue)
+  }
+
+  // Dataset-level metadata
+  for (const field of ['generatedOn', 'rankingNote'] as const) {
+    if (typeof rawData[field] !== 'string') {
+      pushIssue({ severity: 'warning', recordIndex: null, field, message: 'Missing or non-string metadata field' })
+    }
+  }
+  if (typeof rawData.generatedOn === 'string' && rawData.generatedOn && !isParsableDate(rawData.generatedOn)) {
+    pushIssue({ severity: 'warning', recordIndex: null, field: 'generatedOn', message: `"${rawData.generatedOn}" is not a recognizable date` })
+  }
+
+  const universities: RawUniversity[] = []
+  const seenRanks = new Map<number, string>()
+
+  records.forEach((raw, index) => {
+    const { record, issues } = validateRecord(raw)
+    const universityName = isObject(raw) && typeof raw.universityName === 'string' ? raw.universityName : undefined
+
+    issues.forEach(issue => pushIssue({ ...issue, recordIndex: index, universityName }))
+
+    if (!record) {
+      report.invalidRecords++
+      return
+    }
+
+    // Cross-record checks
+    const duplicateOf = seenRanks.get(record.rank)
+    if (duplicateOf !== undefined) {
+      pushIssue({
+        severity: 'warning',
+        recordIndex: index,
+        universityName,
+        field: 'rank',
+        message: `Duplicate rank #${record.rank} (already used by ${duplicateOf})`
+      })
+    } else {
+      seenRanks.set(record.rank, record.universityName)
+    }
+
+    if (record.rank > records.length) {
+      pushIssue({
+        severity: 'warning',
+        recordIndex: index,
+        universityName,
+        field: 'rank',
+        message: `Rank #${record.rank} is outside the dataset size (${records.length})`
+      })
+    }
+
+    universities.push(record)
+    report.validRecords++
+  })
+
+  return {
+    data: {
+      generatedOn: typeof rawData.generatedOn === 'string' ? rawData.generatedOn : '',
+      rankingNote: typeof rawData.rankingNote === 'string' ? rawData.rankingNote : '',
+      universities,
+      excludedUniversities: Array.isArray(rawData.excludedUniversities) ? rawData.excludedUniversities : undefined
+    },
+    report
+  }
+}
@@ -0,0 +1,339 @@
+import type { RawDeadline, RawProgram, RawUniversity, RawUniversityData } from './dataParser'
+import { universityKey } from './datasetMerger'
+import { deadlineToText, parseAppDeadline } from './deadlines'
+import { parseCitations } from './provenance'
+import { parseRankings } from './rankings'
+
+// Fields compared between snapshots; provenance and verification dates are bookkeeping, not content, and
+// ranks are renumbered whenever a university is added or removed, so moves are reported on their own
+export type DiffField =
+  | 'universityName'
+  | 'cityCountry'
+  | 'rankings'
+  | 'programs'
+  | 'programStart'
+  | 'appDeadline'
+  | 'acceptanceRate'
+  | 'acceptanceCriteria'
+  | 'scholarships'
+  | 'contact'
+  | 'url'
+  | 'imageUrl'
+  | 'citations'
+
+export const DIFF_FIELD_LABELS: Record<DiffField, string> = {
+  universityName: 'Name',
+  cityCountry: 'Location',
+  rankings: 'Ranking',
+  programs: 'Program',
+  programStart: 'Start date',
+  appDeadline: 'Deadline',
+  acceptanceRate: 'Acceptance rate',
+  acceptanceCriteria: 'Acceptance criteria',
+  scholarships: 'Scholarship',
+  contact: 'Contact',
+  url: 'Website',
+  imageUrl: 'Image',
+  citations: 'Citation'
+}
+
+// One change to one field of a university; list fields report one change per item
+export interface FieldChange {
+  field: DiffField
+  kind: 'added' | 'removed' | 'changed'
+  // Program, scholarship or ranking the change is about, for list fields
+  item?: string
+  // Text forms of the old and new value; null for added and removed items
+  before: string | null
+  after: string | null
+  // e.g. "Deadline moved 2025-12-01 → 2025-12-15"
+  summary: string
+}
+
+// A university by identity, as it is listed in the diff
+export interface DiffUniversity {
+  key: string
+  universityName: string
+  cityCountry: string
+  rank: number
+}
+
+export interface UniversityChanges extends DiffUniversity {
+  changes: FieldChange[]
+}
+
+// A university that changed places with others in both snapshots
+export interface RankChange extends DiffUniversity {
+  previousRank: number
+}
+
+export interface DatasetDiff {
+  from: { version: string; generatedOn: string }
+  to: { version: string; generatedOn: string }
+  added: DiffUniversity[]
+  removed: DiffUniversity[]
+  changed: UniversityChanges[]
+  // Moves that are not explained by universities added or removed above them
+  moved: RankChange[]
+  // Universities in both snapshots without any field change
+  unchanged: number
+}
+
+const DIFF_FIELDS = Object.keys(DIFF_FIELD_LABELS) as DiffField[]
+
+/**
+ * Describe a value change such as "Deadline moved 2025-12-01 → 2025-12-15", where '' means the value is missing
+ */
+function changeSummary(label: string, before: string, after: string, isDate: boolean): string {
+  if (!before) return `${label} set to ${after}`
+  if (!after) return `${label} removed (was ${before})`
+  return `${label} ${isDate ? 'moved' : 'changed'} ${before} → ${after}`
+}
+
+/**
+ * Compare two text forms of a value, where '' means the value is missing; `part` names what of a list item changed
+ */
+function compareText(field: DiffField, before: string, after: string, item?: string, part?: string): FieldChange[] {
+  if (before === after) return []
+  const label = `${DIFF_FIELD_LABELS[field]}${item ? ` "${item}"` : ''}${part ? ` ${part}` : ''}`
+  return [{
+    field,
+    kind: !before ? 'added' : !after ? 'removed' : 'changed',
+    ...(item && { item }),
+    before: before || null,
+    after: after || null,
+    summary: changeSummary(label, before, after, field === 'appDeadline' || field === 'programStart')
+  }]
+}
+
+/**
+ * Compare two keyed lists: items only in one of them are added or removed, the rest are compared with `compareItem`
+ */
+function compareLists<T>(
+  field: DiffField,
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+  nameOf: (item: T) => string,
+  compareItem: (before: T, after: T, name: string) => FieldChange[]
+): FieldChange[] {
+  const beforeByKey = new Map(before.map(item => [keyOf(item), item]))
+  const afterByKey = new Map(after.map(item => [keyOf(item), item]))
+  const label = DIFF_FIELD_LABELS[field]
+
+  return [
+    ...after.filter(item => !beforeByKey.has(keyOf(item))).map((item): FieldChange => ({
+      field, kind: 'added', item: nameOf(item), before: null, after: nameOf(item), summary: `${label} added: ${nameOf(item)}`
+    })),
+    ...before.filter(item => !afterByKey.has(keyOf(item))).map((item): FieldChange => ({
+      field, kind: 'removed', item: nameOf(item), before: nameOf(item), after: null, summary: `${label} removed: ${nameOf(item)}`
+    })),
+    ...after.flatMap(item => {
+      const previous = beforeByKey.get(keyOf(item))
+      return previous ? compareItem(previous, item, nameOf(item)) : []
+    })
+  ]
+}
+
+const deadlineText = (deadline: RawDeadline | undefined) => (deadline ? deadlineToText(parseAppDeadline(deadline)) : '')
+
+const listText = (values: string[] | undefined) => (values ?? []).join(', ')
+
+/**
+ * Changes to one program, each worded like "Program "MSc CS": deadline moved 2025-12-01 → 2025-12-15"
+ */
+function compareProgram(before: RawProgram, after: RawProgram, name: string): FieldChange[] {
+  const months = (value: number | undefined) => (value ? `${value} months` : '')
+  const parts: Array<[string, string, string, boolean]> = [
+    ['degree', before.degreeType ?? '', after.degreeType ?? '', false],
+    ['duration', months(before.durationMonths), months(after.durationMonths), false],
+    ['languages', listText(before.languages), listText(after.languages), false],
+    ['start date', before.programStart ?? '', after.programStart ?? '', true],
+    ['deadline', deadlineText(before.appDeadline), deadlineText(after.appDeadline), true],
+    ['tuition', before.tuition ?? '', after.tuition ?? '', false],
+    ['specializations', listText(before.specializations), listText(after.specializations), false]
+  ]
+  return parts.filter(([, old, next]) => old !== next).map(([part, old, next, isDate]) => ({
+    field: 'programs',
+    kind: 'changed',
+    item: name,
+    before: old || null,
+    after: next || null,
+    summary: changeSummary(`Program "${name}": ${part}`, old, next, isDate)
+  }))
+}
+
+/**
+ * Text form of an acceptance rate, e.g. "7%" or "7% (est.)"
+ */
+function acceptanceRateText(rate: RawUniversity['acceptanceRate']): string {
+  return rate.value === null ? '' : `${rate.value}%${rate.estimated ? ' (est.)' : ''}`
+}
+
+/**
+ * Changes to one field between two records of the same university
+ */
+function compareField(field: DiffField, before: RawUniversity, after: RawUniversity): FieldChange[] {
+  switch (field) {
+    case 'rankings': {
+      const entryKey = (entry: { system: string; year: number | null; scope: string }) => `${entry.system}|${entry.year ?? ''}|${entry.scope.toLowerCase()}`
+      return compareLists(field, parseRankings(before.rankings).entries, parseRankings(after.rankings).entries, entryKey,
+        entry => entry.display,
+        (old, next) => compareText(field, old.display, next.display))
+    }
+    case 'programs':
+      return compareLists(field, before.programs, after.programs, program => program.name.trim().toLowerCase(), program => program.name, compareProgram)
+    case 'appDeadline':
+      return compareText(field, deadlineText(before.appDeadline), deadlineText(after.appDeadline))
+    case 'acceptanceRate':
+      return compareText(field, acceptanceRateText(before.acceptanceRate), acceptanceRateText(after.acceptanceRate))
+    case 'scholarships':
+      return compareLists(field, before.scholarships, after.scholarships, scholarship => scholarship.name.trim().toLowerCase(),
+        scholarship => scholarship.name,
+        (old, next, name) => [
+          ...compareText(field, old.amount, next.amount, name, 'amount'),
+          ...compareText(field, old.url ?? '', next.url ?? '', name, 'link')
+        ])
+    case 'citations':
+      return compareLists(field, parseCitations(before.citations ?? []), parseCitations(after.citations ?? []), citation => citation.url,
+        citation => citation.url,
+        (old, next, url) => compareText(field, listText(old.fields), listText(next.fields), url, 'fields'))
+    case 'acceptanceCriteria':
+      // Criteria are long free text; say that they changed and keep both versions for the reader
+      return compareText(field, before.acceptanceCriteria, after.acceptanceCriteria).map(change => ({
+        ...change,
+        summary: change.kind === 'changed' ? 'Acceptance criteria revised' : `Acceptance criteria ${change.kind}`
+      }))
+    default:
+      return compareText(field, before[field] ?? '', after[field] ?? '')
+  }
+}
+
+/**
+ * Field-level changes between two records of the same university
+ */
+export function diffUniversity(before: RawUniversity, after: RawUniversity): FieldChange[] {
+  return DIFF_FIELDS.flatMap(field => compareField(field, before, after))
+}
+
+const describeUniversity = (key: string, university: RawUniversity): DiffUniversity => ({
+  key,
+  universityName: university.universityName,
+  cityCountry: university.cityCountry,
+  rank: university.rank
+})
+
+/**
+ * Universities in both snapshots that changed places: the fewest whose moves explain the new order, found as
+ * the ones outside the longest run that kept its relative order
+ */
+function findMoves(
+  beforeByKey: Map<string, RawUniversity>,
+  afterByKey: Map<string, RawUniversity>
+): RankChange[] {
+  const common = Array.from(afterByKey.keys())
+    .filter(key => beforeByKey.has(key))
+    .sort((a, b) => afterByKey.get(a)!.rank - afterByKey.get(b)!.rank)
+  const previousRanks = common.map(key => beforeByKey.get(key)!.rank)
+
+  // Longest increasing run of previous ranks, with patience sorting: `tails[n]` ends the best run of length n + 1
+  const tails: number[] = []
+  const links: number[] = []
+  previousRanks.forEach((rank, index) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (previousRanks[tails[middle]] < rank) low = middle + 1
+      else high = middle
+    }
+    links[index] = low > 0 ? tails[low - 1] : -1
+    tails[low] = index
+  })
+  const kept = new Set<number>()
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = links[index]) kept.add(index)
+
+  return common.flatMap((key, index) => kept.has(index)
+    ? []
+    : [{ ...describeUniversity(key, afterByKey.get(key)!), previousRank: previousRanks[index] }])
+}
+
+/**
+ * Compare two snapshots by university identity (normalized name and city): universities added and removed, and
+ * field-level changes for the ones in both, ordered by their rank in the newer snapshot
+ */
+export function diffDatasets(
+  before: RawUniversityData,
+  after: RawUniversityData,
+  versions: { from: string; to: string } = { from: before.generatedOn, to: after.generatedOn }
+): DatasetDiff {
+  const beforeByKey = new Map(before.universities.map(university => [universityKey(university), university]))
+  const afterByKey = new Map(after.universities.map(university => [universityKey(university), university]))
+
+  const changed: UniversityChanges[] = []
+  let unchanged = 0
+  afterByKey.forEach((university, key) => {
+    const previous = beforeByKey.get(key)
+    if (!previous) return
+    const changes = diffUniversity(previous, university)
+    if (changes.length > 0) changed.push({ ...describeUniversity(key, university), changes })
+    else unchanged++
+  })
+
+  const byRank = (a: DiffUniversity, b: DiffUniversity) => a.rank - b.rank
+  return {
+    from: { version: versions.from, generatedOn: before.generatedOn },
+    to: { version: versions.to, generatedOn: after.generatedOn },
+    added: Array.from(afterByKey, ([key, university]) => describeUniversity(key, university))
+      .filter(university => !beforeByKey.has(university.key))
+      .sort(byRank),
+    removed: Array.from(beforeByKey, ([key, university]) => describeUniversity(key, university))
+      .filter(university => !afterByKey.has(university.key))
+      .sort(byRank),
+    changed: changed.sort(byRank),
+    moved: findMoves(beforeByKey, afterByKey),
+    unchanged
+  }
+}
+
+/**
+ * Number of field-level changes across the diff
+ */
+export function countChanges(diff: DatasetDiff): number {
+  return diff.changed.reduce((sum, university) => sum + university.changes.length, 0)
+}
+
+/**
+ * One-line overview, e.g. "2 added, 1 removed, 14 changes in 9 universities, 3 moved"
+ */
+export function summarizeDiff(diff: DatasetDiff): string {
+  const parts = [
+    diff.added.length > 0 && `${diff.added.length} added`,
+    diff.removed.length > 0 && `${diff.removed.length} removed`,
+    diff.changed.length > 0 && `${countChanges(diff)} change${countChanges(diff) === 1 ? '' : 's'} in ${diff.changed.length} universit${diff.changed.length === 1 ? 'y' : 'ies'}`,
+    diff.moved.length > 0 && `${diff.moved.length} moved`
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : 'No changes'
+}
+
+/**
+ * Machine-readable changelog: the diff as JSON, with the overview and the count of changes
+ */
+export function diffToChangelog(diff: DatasetDiff): string {
+  return JSON.stringify({ summary: summarizeDiff(diff), changes: countChanges(diff), ...diff }, null, 2) + '\n'
+}
+
+/**
+ * Read `from` and `to` versions from query parameters; by default the newest version is compared with the one before it
+ */
+export function parseDiffQuery(params: URLSearchParams, versions: string[]): { query: { from: string; to: string } } | { error: string } {
+  if (versions.length < 2) return { error: 'There is no earlier snapshot to compare with' }
+
+  const to = params.get('to') || versions[versions.length - 1]
+  if (!versions.includes(to)) return { error: `Unknown version "${to}"; available: ${versions.join(', ')}` }
+
+  const from = params.get('from') || versions[Math.max(0, versions.indexOf(to) - 1)]
+  if (!versions.includes(from)) return { error: `Unknown version "${from}"; available: ${versions.join(', ')}` }
+
+  return { query: { from, to } }
+}
@@ -0,0 +1,193 @@
+import type { FieldDates, FieldSources, RawUniversity, RawUniversityData } from './dataParser'
+import { mergeCitations } from './provenance'
+import { mergeRankings } from './rankings'
+
+// A validated dataset together with the file it was read from
+export interface SourceDataset {
+  source: string
+  data: RawUniversityData
+}
+
+// How field-level conflicts between datasets are resolved
+export type MergePrecedence =
+  // The dataset with the newest `generatedOn` wins
+  | { strategy: 'newest' }
+  // Files listed first win; unlisted files follow, newest first
+  | { strategy: 'priority'; order: string[] }
+
+type MergeableField = Exclude<keyof RawUniversity, 'sources' | 'lastVerified' | 'fieldsLastVerified'>
+
+const MERGEABLE_FIELDS: MergeableField[] = [
+  'rank',
+  'universityName',
+  'cityCountry',
+  'rankings',
+  'programs',
+  'programStart',
+  'appDeadline',
+  'acceptanceRate',
+  'acceptanceCriteria',
+  'scholarships',
+  'contact',
+  'url',
+  'imageUrl',
+  'citations'
+]
+
+/**
+ * Lowercase, strip accents, parenthesized abbreviations and punctuation
+ */
+function normalizeForMatching(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/^the\s+/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Identity of a university across datasets: normalized name plus city
+ */
+export function universityKey(university: Pick<RawUniversity, 'universityName' | 'cityCountry'>): string {
+  const city = university.cityCountry.split(',')[0] || ''
+  return `${normalizeForMatching(university.universityName)}|${normalizeForMatching(city)}`
+}
+
+/**
+ * Check whether a field carries real information worth taking over
+ */
+function hasValue(field: MergeableField, value: unknown): boolean {
+  if (value === undefined || value === null) return false
+  if (typeof value === 'string') return value.trim().length > 0 && !(field === 'imageUrl' && value === 'Unknown')
+  if (Array.isArray(value)) return value.length > 0
+  if (field === 'acceptanceRate') return (value as RawUniversity['acceptanceRate']).value !== null
+  return true
+}
+
+const generatedTime = (dataset: SourceDataset) => {
+  const time = new Date(dataset.data.generatedOn).getTime()
+  return isNaN(time) ? -Infinity : time
+}
+
+/**
+ * Files a record's field came from: the ones it already names, or the dataset it is read from
+ */
+function sourcesOf(university: RawUniversity, field: MergeableField, dataset: SourceDataset): string[] {
+  const named = university.sources?.[field]
+  return named === undefined ? [dataset.source] : Array.isArray(named) ? named : [named]
+}
+
+/**
+ * Add files to those a combined field came from; a single file stays a plain name
+ */
+function addSources(sources: FieldSources, field: MergeableField, added: string[]) {
+  const current = sources[field]
+  const files = Array.from(new Set([...(current === undefined ? [] : Array.isArray(current) ? current : [current]), ...added]))
+  sources[field] = files.length === 1 ? files[0] : files
+}
+
+/**
+ * When a record's field was last checked: its own date or the record's; a file's generation date is not a check
+ */
+function verifiedOn(university: RawUniversity, field: MergeableField): string | undefined {
+  return university.fieldsLastVerified?.[field] || university.lastVerified || undefined
+}
+
+/**
+ * Sort datasets from highest to lowest precedence
+ */
+export function orderByPrecedence(datasets: SourceDataset[], precedence: MergePrecedence): SourceDataset[] {
+  const byNewest = (a: SourceDataset, b: SourceDataset) =>
+    generatedTime(b) - generatedTime(a) || a.source.localeCompare(b.source)
+
+  if (precedence.strategy === 'newest') {
+    return [...datasets].sort(byNewest)
+  }
+
+  const priorityOf = (dataset: SourceDataset) => {
+    const index = precedence.order.indexOf(dataset.source)
+    return index === -1 ? precedence.order.length : index
+  }
+  return [...datasets].sort((a, b) => priorityOf(a) - priorityOf(b) || byNewest(a, b))
+}
+
+/**
+ * Merge datasets by university identity, taking each field from the highest-precedence
+ * dataset that has a value for it. Ranks are renumbered so that records keep the order
+ * of the dataset their rank came from, with lower-precedence datasets appended after.
+ * Verification dates follow the fields, so merged records only carry per-field dates.
+ */
+export function mergeUniversityDatasets(datasets: SourceDataset[], precedence: MergePrecedence): RawUniversityData {
+  const ordered = orderByPrecedence(datasets, precedence)
+  const merged = new Map<string, { record: RawUniversity; sources: FieldSources; verified: FieldDates; rankOrder: [number, number] }>()
+
+  ordered.forEach((dataset, datasetIndex) => {
+    dataset.data.universities.forEach(university => {
+      const key = universityKey(university)
+      const existing = merged.get(key)
+
+      if (!existing) {
+        const sources: FieldSources = {}
+        const verified: FieldDates = {}
+        MERGEABLE_FIELDS.forEach(field => {
+          if (!hasValue(field, university[field])) return
+          sources[field] = university.sources?.[field] || dataset.source
+          const date = verifiedOn(university, field)
+          if (date) verified[field] = date
+        })
+        const record = { ...university }
+        delete record.lastVerified
+        delete record.fieldsLastVerified
+        merged.set(key, {
+          record,
+          sources,
+          verified,
+          rankOrder: [datasetIndex, university.rank]
+        })
+        return
+      }
+
+      // Fill only the fields that higher-precedence datasets left empty
+      MERGEABLE_FIELDS.forEach(field => {
+        if (!hasValue(field, existing.record[field]) && hasValue(field, university[field])) {
+          existing.record = { ...existing.record, [field]: university[field] }
+          existing.sources[field] = university.sources?.[field] || dataset.source
+          const date = verifiedOn(university, field)
+          if (date) existing.verified[field] = date
+        }
+      })
+
+      // Rankings complement each other: add systems, years and subjects the record does not have yet,
+      // and the files they came from
+      const rankings = mergeRankings(existing.record.rankings, university.rankings)
+      if (rankings.length > existing.record.rankings.length) addSources(existing.sources, 'rankings', sourcesOf(university, 'rankings', dataset))
+      existing.record = { ...existing.record, rankings }
+      // So do citations: add links the record does not have, and the fields other datasets link them to
+      const citations = mergeCitations(existing.record.citations ?? [], university.citations ?? [])
+      if (JSON.stringify(citations) !== JSON.stringify(existing.record.citations ?? [])) {
+        addSources(existing.sources, 'citations', sourcesOf(university, 'citations', dataset))
+      }
+      existing.record = { ...existing.record, citations }
+    })
+  })
+
+  const universities = Array.from(merged.values())
+    .sort((a, b) => a.rankOrder[0] - b.rankOrder[0] || a.rankOrder[1] - b.rankOrder[1])
+    .map(({ record, sources, verified }, index) => ({
+      ...record,
+      rank: index + 1,
+      ...(Object.keys(verified).length > 0 && { fieldsLastVerified: verified }),
+      sources
+    }))
+
+  const newest = [...datasets].sort((a, b) => generatedTime(b) - generatedTime(a))[0]
+
+  return {
+    generatedOn: newest?.data.generatedOn || '',
+    rankingNote: ordered.find(dataset => dataset.data.rankingNote)?.data.rankingNote || '',
+    universities
+  }
+}
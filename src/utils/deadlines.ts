@@ -0,0 +1,486 @@
+import type { ParsedUniversity, Program, RawDeadline } from './dataParser'
+
+// How close a deadline is, as shown by the deadline badges
+export type DeadlineStatus = 'expired' | 'urgent' | 'soon' | 'future'
+
+export type DeadlineRoundKind = 'priority' | 'scholarship' | 'final' | 'other'
+
+// One application round; a single deadline is one final round
+export interface DeadlineRound {
+  kind: DeadlineRoundKind
+  // As written, e.g. "Round 2"; empty for a lone deadline
+  label: string
+  // YYYY-MM-DD, or YYYY-MM when only the month is known
+  date: string
+  precision: 'day' | 'month'
+  // "expected", "approx." or otherwise not confirmed
+  estimated: boolean
+}
+
+// An application deadline read from a date, free text or a structured record
+export interface Deadline {
+  // In date order
+  rounds: DeadlineRound[]
+  // Applications are reviewed as they arrive, until the last round if there is one
+  rolling: boolean
+  // IANA time zone the rounds close in, e.g. "America/New_York"; null for the reader's own
+  timeZone: string | null
+  // Anything else the source says, e.g. "TBC"
+  notes: string
+  formatted: string
+}
+
+// The round that matters now: the next one to close, or the last one once all have passed
+export interface DeadlineState {
+  round: DeadlineRound
+  daysRemaining: number
+  status: DeadlineStatus
+}
+
+export const URGENT_DAYS = 30
+export const SOON_DAYS = 90
+
+export const DEADLINE_STATUS_LABELS: Record<DeadlineStatus, string> = {
+  expired: 'Expired',
+  urgent: `Urgent (<${URGENT_DAYS} days)`,
+  soon: `Soon (<${SOON_DAYS} days)`,
+  future: 'Upcoming'
+}
+
+export const DEADLINE_ROUND_KINDS: DeadlineRoundKind[] = ['priority', 'scholarship', 'final', 'other']
+
+export const ROUND_KIND_LABELS: Record<DeadlineRoundKind, string> = {
+  priority: 'Priority',
+  scholarship: 'Scholarship',
+  final: 'Final',
+  other: 'Round'
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?'
+
+// Ways a date is written, most precise first
+const DATE_PATTERNS: Array<{ pattern: RegExp; read: (match: RegExpMatchArray) => [number, number, number | null] }> = [
+  { pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/, read: m => [Number(m[1]), Number(m[2]), Number(m[3])] },
+  { pattern: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i'), read: m => [Number(m[3]), monthNumber(m[1]), Number(m[2])] },
+  { pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}\\s+(\\d{4})\\b`, 'i'), read: m => [Number(m[3]), monthNumber(m[2]), Number(m[1])] },
+  { pattern: /\b(\d{4})-(\d{2})\b/, read: m => [Number(m[1]), Number(m[2]), null] },
+  { pattern: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{4})\\b`, 'i'), read: m => [Number(m[2]), monthNumber(m[1]), null] }
+]
+
+const ESTIMATED_PATTERN = /\b(expected|approx(?:\.|imately)?|estimated?|est\.|tentative|projected)|~|≈/i
+
+const ROLLING_PATTERN = /\brolling\b|until (?:all )?(?:places|spots|seats) are filled|continuous(?:ly)? admission/i
+
+const ROUND_KIND_PATTERNS: Array<[DeadlineRoundKind, RegExp]> = [
+  ['priority', /\b(priority|early)\b/i],
+  ['scholarship', /\b(scholarship|funding|fellowship)\b/i],
+  ['final', /\b(final|regular|last|general)\b/i]
+]
+
+// Time zone abbreviations used in deadlines, and the zone each stands for; matched case-sensitively so "est." stays an estimate
+const TIME_ZONE_ABBREVIATIONS: Record<string, string> = {
+  AoE: 'Etc/GMT+12',
+  UTC: 'UTC',
+  GMT: 'Europe/London',
+  BST: 'Europe/London',
+  CET: 'Europe/Berlin',
+  CEST: 'Europe/Berlin',
+  EST: 'America/New_York',
+  EDT: 'America/New_York',
+  ET: 'America/New_York',
+  CST: 'America/Chicago',
+  CDT: 'America/Chicago',
+  CT: 'America/Chicago',
+  MST: 'America/Denver',
+  MDT: 'America/Denver',
+  PST: 'America/Los_Angeles',
+  PDT: 'America/Los_Angeles',
+  PT: 'America/Los_Angeles',
+  JST: 'Asia/Tokyo',
+  KST: 'Asia/Seoul',
+  SGT: 'Asia/Singapore',
+  HKT: 'Asia/Hong_Kong',
+  AEST: 'Australia/Sydney',
+  AEDT: 'Australia/Sydney',
+  NZST: 'Pacific/Auckland',
+  NZDT: 'Pacific/Auckland'
+}
+
+const TIME_ZONE_PATTERN = new RegExp(
+  `\\b(?:(?:Africa|America|Asia|Atlantic|Australia|Europe|Pacific|Etc)/[A-Za-z_+-]+(?:/[A-Za-z_]+)?|${Object.keys(TIME_ZONE_ABBREVIATIONS).join('|')})\\b`
+)
+
+// A dated entry on the calendar
+export interface CalendarEvent {
+  id: string
+  kind: 'deadline' | 'programStart'
+  // Local midnight of the day (or of the first day of the month)
+  date: Date
+  // Only the month is known, e.g. a "2026-09" program start
+  monthOnly: boolean
+  // The application round of a deadline; null for program starts
+  round: DeadlineRound | null
+  // How many earlier rounds of the same deadline share the round's kind and label; 0 for program starts
+  roundOccurrence: number
+  timeZone: string | null
+  university: ParsedUniversity
+  // The program a deadline belongs to when it has a deadline of its own; null for the university's deadline
+  program: Program | null
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Month number (1–12) of an English month name or abbreviation
+ */
+function monthNumber(name: string): number {
+  return MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase()) + 1
+}
+
+/**
+ * Parse YYYY-MM-DD and YYYY-MM as local dates, falling back to Date parsing for other formats
+ */
+export function parseCalendarDate(dateStr: string): { date: Date; monthOnly: boolean } | null {
+  if (!dateStr) return null
+
+  const isoMatch = dateStr.trim().match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/)
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch
+    const date = new Date(Number(year), Number(month) - 1, day ? Number(day) : 1)
+    return isNaN(date.getTime()) ? null : { date, monthOnly: !day }
+  }
+
+  const parsed = new Date(dateStr)
+  if (isNaN(parsed.getTime())) return null
+  return { date: new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()), monthOnly: false }
+}
+
+/**
+ * Format a date string for display, e.g. "December 15, 2025", or "September 2026" for a month
+ */
+export function formatCalendarDate(dateStr: string): string {
+  const parsed = parseCalendarDate(dateStr)
+  if (!parsed) return dateStr
+  return parsed.date.toLocaleDateString('en-US', parsed.monthOnly
+    ? { year: 'numeric', month: 'long' }
+    : { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+/**
+ * Find the first date in a text, as YYYY-MM-DD or YYYY-MM, with where it was found
+ */
+export function findDate(text: string): { date: string; precision: DeadlineRound['precision']; index: number; length: number } | null {
+  for (const { pattern, read } of DATE_PATTERNS) {
+    const match = text.match(pattern)
+    if (!match) continue
+    const [year, month, day] = read(match)
+    if (month < 1 || month > 12) continue
+    if (day !== null && (day < 1 || day > new Date(year, month, 0).getDate())) continue
+    return {
+      date: day === null ? `${year}-${pad(month)}` : `${year}-${pad(month)}-${pad(day)}`,
+      precision: day === null ? 'month' : 'day',
+      index: match.index ?? 0,
+      length: match[0].length
+    }
+  }
+  return null
+}
+
+/**
+ * Check that the runtime knows an IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Time zone named in a text, either as an IANA name or a common abbreviation such as "PST" or "AoE"
+ */
+function findTimeZone(text: string): string | null {
+  const match = text.match(TIME_ZONE_PATTERN)
+  if (!match) return null
+  const zone = TIME_ZONE_ABBREVIATIONS[match[0]] ?? match[0]
+  return isValidTimeZone(zone) ? zone : null
+}
+
+/**
+ * Round kind named in a label such as "Priority deadline" or "Scholarship round"
+ */
+function roundKind(label: string): DeadlineRoundKind | null {
+  return ROUND_KIND_PATTERNS.find(([, pattern]) => pattern.test(label))?.[0] ?? null
+}
+
+/**
+ * Give unlabelled rounds a kind and label once all rounds are known: a lone or last one is final
+ */
+function finishRounds(rounds: Array<Omit<DeadlineRound, 'kind'> & { kind: DeadlineRoundKind | null }>): DeadlineRound[] {
+  const sorted = [...rounds].sort((a, b) => a.date.localeCompare(b.date))
+  return sorted.map((round, index) => {
+    const kind = round.kind ?? (index === sorted.length - 1 ? 'final' : 'other')
+    const label = round.label || (sorted.length > 1 ? (kind === 'other' ? `Round ${index + 1}` : ROUND_KIND_LABELS[kind]) : '')
+    return { ...round, kind, label }
+  })
+}
+
+/**
+ * Read a deadline written as text: "2025-12-15", "Sep 2026", "2025-12-01 (expected)", "Rolling admissions",
+ * "Priority: 2025-12-01; Final: 2026-01-15 PST". Rounds are separated by semicolons, bars or line breaks.
+ */
+export function parseDeadlineText(text: string): Omit<Deadline, 'formatted'> {
+  const notes: string[] = []
+  const rounds = text.split(/[;|\n]/).map(part => part.trim()).filter(Boolean).flatMap(part => {
+    const found = findDate(part)
+    if (!found) {
+      const rest = part.replace(ROLLING_PATTERN, '').replace(TIME_ZONE_PATTERN, '').replace(/\badmissions?\b/i, '').replace(/^[\s,:()-]+|[\s,:()-]+$/g, '')
+      if (rest) notes.push(part)
+      return []
+    }
+    const label = part.slice(0, found.index)
+      .replace(ESTIMATED_PATTERN, '')
+      .replace(ROLLING_PATTERN, '')
+      .replace(/\b(admissions?|deadline|due|by|on|until)\b/gi, '')
+      .replace(/[\s:,(-]+$|^[\s:,(-]+/g, '')
+      .trim()
+    return [{
+      kind: roundKind(label),
+      label: label ? label.charAt(0).toUpperCase() + label.slice(1) : '',
+      date: found.date,
+      precision: found.precision,
+      estimated: ESTIMATED_PATTERN.test(part)
+    }]
+  })
+
+  return {
+    rounds: finishRounds(rounds),
+    rolling: ROLLING_PATTERN.test(text),
+    timeZone: findTimeZone(text),
+    notes: notes.join('; ')
+  }
+}
+
+/**
+ * Parse a validated raw deadline, either text or a structured record
+ */
+export function parseAppDeadline(raw: RawDeadline): Deadline {
+  const parsed = typeof raw === 'string'
+    ? parseDeadlineText(raw)
+    : {
+      rounds: finishRounds((raw.rounds ?? []).flatMap(round => {
+        const found = findDate(round.date)
+        return found ? [{
+          kind: round.kind && (DEADLINE_ROUND_KINDS as string[]).includes(round.kind) ? round.kind as DeadlineRoundKind : null,
+          label: round.label ?? '',
+          date: found.date,
+          precision: found.precision,
+          estimated: round.estimated ?? false
+        }] : []
+      })),
+      rolling: raw.rolling ?? false,
+      timeZone: raw.timeZone && isValidTimeZone(raw.timeZone) ? raw.timeZone : null,
+      notes: raw.notes ?? ''
+    }
+  return { ...parsed, formatted: formatDeadline(parsed) }
+}
+
+/**
+ * Convert a deadline back to the raw format: a plain date when that says it all, otherwise a record
+ */
+export function toRawDeadline(deadline: Deadline): RawDeadline {
+  const { rounds, rolling, timeZone, notes } = deadline
+  if (!rolling && !timeZone) {
+    if (rounds.length === 0) return notes
+    const [round] = rounds
+    if (rounds.length === 1 && !notes && !round.estimated && round.kind === 'final' && !round.label) return round.date
+  }
+  return {
+    rounds: rounds.map(round => ({
+      kind: round.kind,
+      ...(round.label && { label: round.label }),
+      date: round.date,
+      ...(round.estimated && { estimated: true })
+    })),
+    ...(rolling && { rolling }),
+    ...(timeZone && { timeZone }),
+    ...(notes && { notes })
+  }
+}
+
+/**
+ * Display text for one round's date, e.g. "December 15, 2025" or "September 2026 (est.)"
+ */
+export function formatRoundDate(round: DeadlineRound): string {
+  return `${formatCalendarDate(round.date)}${round.estimated ? ' (est.)' : ''}`
+}
+
+/**
+ * One-line display text: the rounds with their labels, rolling admissions and the time zone
+ */
+export function formatDeadline(deadline: Omit<Deadline, 'formatted'>): string {
+  const rounds = deadline.rounds.map(round => `${round.label ? `${round.label}: ` : ''}${formatRoundDate(round)}`).join(' · ')
+  const text = deadline.rolling
+    ? rounds ? `Rolling admissions · ${rounds}` : 'Rolling admissions'
+    : rounds || deadline.notes
+  return rounds && deadline.timeZone ? `${text} (${deadline.timeZone})` : text
+}
+
+/**
+ * Text form that parseDeadlineText reads back, for CSV and other flat exports
+ */
+export function deadlineToText(deadline: Deadline): string {
+  return [
+    ...deadline.rounds.map(round => `${round.label ? `${round.label}: ` : ''}${round.date}${round.estimated ? ' (expected)' : ''}`),
+    deadline.rolling ? 'Rolling admissions' : '',
+    deadline.rounds.length > 0 ? deadline.timeZone ?? '' : '',
+    deadline.notes
+  ].filter(Boolean).join('; ')
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(new Date(instant))
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(entry => entry.type === type)?.value)
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - instant
+}
+
+/**
+ * The instant a round closes: the end of its day, or of its month when only the month is known,
+ * in the deadline's time zone or the reader's own
+ */
+export function roundClosesAt(round: DeadlineRound, timeZone: string | null): Date {
+  const [year, month, day] = round.date.split('-').map(Number)
+  // Midnight after the last day the round covers
+  const [closeYear, closeMonth, closeDay] = round.precision === 'month' ? [year, month, 1] : [year, month - 1, day + 1]
+  if (!timeZone) return new Date(closeYear, closeMonth, closeDay)
+
+  const wallClock = Date.UTC(closeYear, closeMonth, closeDay)
+  const guess = wallClock - timeZoneOffset(wallClock, timeZone)
+  // Check the offset again at the guess, in case a DST change lies in between
+  return new Date(wallClock - timeZoneOffset(guess, timeZone))
+}
+
+/**
+ * Whole days from today until a date (negative once it has passed)
+ */
+export function getDaysRemaining(date: Date, now: Date = new Date()): number {
+  return Math.ceil((date.getTime() - now.getTime()) / DAY_MS)
+}
+
+/**
+ * Bucket a number of remaining days
+ */
+export function getDeadlineStatus(daysRemaining: number): DeadlineStatus {
+  if (daysRemaining < 0) return 'expired'
+  if (daysRemaining < URGENT_DAYS) return 'urgent'
+  if (daysRemaining < SOON_DAYS) return 'soon'
+  return 'future'
+}
+
+/**
+ * Whole days left to apply in a round: 0 on its last day, negative once it has closed
+ */
+export function getRoundDaysRemaining(round: DeadlineRound, timeZone: string | null, now: Date = new Date()): number {
+  return Math.ceil((roundClosesAt(round, timeZone).getTime() - now.getTime()) / DAY_MS) - 1
+}
+
+/**
+ * The next round to close and how close it is, or the last round once all have passed;
+ * null when the deadline has no dates (rolling admissions without an end, or not announced)
+ */
+export function getDeadlineState(deadline: Deadline, now: Date = new Date()): DeadlineState | null {
+  if (deadline.rounds.length === 0) return null
+  const round = deadline.rounds.find(candidate => roundClosesAt(candidate, deadline.timeZone) > now) ??
+    deadline.rounds[deadline.rounds.length - 1]
+  const daysRemaining = getRoundDaysRemaining(round, deadline.timeZone, now)
+  return { round, daysRemaining, status: getDeadlineStatus(daysRemaining) }
+}
+
+/**
+ * Whether applications are still accepted: a round has not closed yet, or admissions roll without an end date
+ */
+export function isDeadlineOpen(deadline: Deadline, now: Date = new Date()): boolean {
+  const state = getDeadlineState(deadline, now)
+  return state ? state.status !== 'expired' : deadline.rolling
+}
+
+/**
+ * Time the current round closes, for sorting; rolling admissions without an end sort after every date,
+ * and deadlines without dates are NaN
+ */
+export function deadlineSortValue(deadline: Deadline, now: Date = new Date()): number {
+  const state = getDeadlineState(deadline, now)
+  if (state) return roundClosesAt(state.round, deadline.timeZone).getTime()
+  return deadline.rolling ? Infinity : NaN
+}
+
+/**
+ * Days left until a calendar event: deadlines count to the end of their round
+ */
+export function getEventDaysRemaining(event: CalendarEvent, now: Date = new Date()): number {
+  return event.round ? getRoundDaysRemaining(event.round, event.timeZone, now) : getDaysRemaining(event.date, now)
+}
+
+/**
+ * Collect application deadlines, including programs' own deadlines, and program starts with a usable date, in date order
+ */
+export function collectCalendarEvents(universities: ParsedUniversity[]): CalendarEvent[] {
+  const events: CalendarEvent[] = []
+
+  universities.forEach(university => {
+    const deadlines: Array<[Program | null, Deadline]> = [
+      [null, university.appDeadline],
+      ...university.programs
+        .filter(program => program.overrides.includes('appDeadline'))
+        .map((program): [Program, Deadline] => [program, program.appDeadline])
+    ]
+    deadlines.forEach(([program, { rounds, timeZone }], deadlineIndex) => {
+      rounds.forEach((round, index) => {
+        const deadline = parseCalendarDate(round.date)
+        const roundOccurrence = rounds.slice(0, index).filter(other => other.kind === round.kind && other.label === round.label).length
+        if (deadline) {
+          events.push({ id: `deadline-${university.rank}-${deadlineIndex}-${index}`, kind: 'deadline', ...deadline, round, roundOccurrence, timeZone, university, program })
+        }
+      })
+    })
+
+    const programStart = parseCalendarDate(university.programStart)
+    if (programStart) {
+      events.push({ id: `start-${university.rank}`, kind: 'programStart', ...programStart, round: null, roundOccurrence: 0, timeZone: null, university, program: null })
+    }
+  })
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime() || a.university.rank - b.university.rank)
+}
+
+/**
+ * Key for grouping events by calendar day
+ */
+export function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+/**
+ * Key for grouping events by calendar month
+ */
+export function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}`
+}
@@ -0,0 +1,418 @@
+import type { ParsedUniversity, Program } from './dataParser'
+import {
+  DEADLINE_STATUS_LABELS,
+  formatCalendarDate,
+  formatRoundDate,
+  getDeadlineStatus,
+  getRoundDaysRemaining,
+  parseCalendarDate,
+  roundClosesAt,
+  SOON_DAYS,
+  URGENT_DAYS,
+  type Deadline,
+  type DeadlineRound,
+  type DeadlineStatus
+} from './deadlines'
+import { shortlistKey } from './shortlist'
+import { parseUniversityQuery, type FilterCriteria } from './universityQuery'
+import { escapeXml } from './xlsxWriter'
+
+export type DigestFormat = 'markdown' | 'email' | 'rss' | 'atom'
+
+export const DIGEST_FORMATS: Record<DigestFormat, { label: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', mimeType: 'text/markdown; charset=utf-8' },
+  email: { label: 'Email (plain text)', mimeType: 'text/plain; charset=utf-8' },
+  rss: { label: 'RSS', mimeType: 'application/rss+xml; charset=utf-8' },
+  atom: { label: 'Atom', mimeType: 'application/atom+xml; charset=utf-8' }
+}
+
+// Most pressing first
+export const DIGEST_STATUS_ORDER: DeadlineStatus[] = ['urgent', 'soon', 'future', 'expired']
+
+// Rounds that closed longer ago than this are left out
+export const DEFAULT_EXPIRED_DAYS = 14
+
+// One application round in the digest
+export interface DigestItem {
+  university: ParsedUniversity
+  // The program the round belongs to when it has a deadline of its own; null for the university's deadline
+  program: Program | null
+  round: DeadlineRound
+  timeZone: string | null
+  closesAt: Date
+  daysRemaining: number
+  status: DeadlineStatus
+}
+
+export interface DeadlineDigest {
+  title: string
+  // Reference date the days are counted from
+  now: Date
+  // Rounds per bucket, soonest first
+  groups: Record<DeadlineStatus, DigestItem[]>
+  // Rolling admissions without an end date
+  rolling: ParsedUniversity[]
+  // No deadline announced
+  undated: ParsedUniversity[]
+}
+
+export interface DigestOptions {
+  title?: string
+  now?: Date
+  expiredDays?: number
+}
+
+// Which universities a digest covers and how it is rendered, as read from the digest route's parameters
+export interface DigestQuery {
+  criteria: FilterCriteria
+  // Shortlist keys; when set, only these universities are included
+  shortlist: string[] | null
+  format: DigestFormat
+  options: DigestOptions
+}
+
+// Where feed and email links point
+export interface DigestLinks {
+  // The app, for items without a university URL
+  siteUrl: string
+  // The feed itself, for the self link
+  feedUrl: string
+}
+
+/**
+ * Rounds of one deadline as digest items, leaving out rounds that closed too long ago
+ */
+function deadlineItems(
+  university: ParsedUniversity,
+  program: Program | null,
+  deadline: Deadline,
+  now: Date,
+  expiredDays: number
+): DigestItem[] {
+  return deadline.rounds.flatMap(round => {
+    const daysRemaining = getRoundDaysRemaining(round, deadline.timeZone, now)
+    if (daysRemaining < -expiredDays) return []
+    return [{
+      university,
+      program,
+      round,
+      timeZone: deadline.timeZone,
+      closesAt: roundClosesAt(round, deadline.timeZone),
+      daysRemaining,
+      status: getDeadlineStatus(daysRemaining)
+    }]
+  })
+}
+
+/**
+ * Group every round of the universities' deadlines, and of programs with deadlines of their own, into status buckets
+ */
+export function buildDeadlineDigest(universities: ParsedUniversity[], options: DigestOptions = {}): DeadlineDigest {
+  const now = options.now ?? new Date()
+  const expiredDays = options.expiredDays ?? DEFAULT_EXPIRED_DAYS
+  const groups: Record<DeadlineStatus, DigestItem[]> = { expired: [], urgent: [], soon: [], future: [] }
+  const rolling: ParsedUniversity[] = []
+  const undated: ParsedUniversity[] = []
+
+  universities.forEach(university => {
+    const { appDeadline } = university
+    if (appDeadline.rounds.length === 0) (appDeadline.rolling ? rolling : undated).push(university)
+
+    const items = [
+      ...deadlineItems(university, null, appDeadline, now, expiredDays),
+      ...university.programs
+        .filter(program => program.overrides.includes('appDeadline'))
+        .flatMap(program => deadlineItems(university, program, program.appDeadline, now, expiredDays))
+    ]
+    items.forEach(item => groups[item.status].push(item))
+  })
+
+  DIGEST_STATUS_ORDER.forEach(status => {
+    groups[status].sort((a, b) => a.closesAt.getTime() - b.closesAt.getTime() || a.university.rank - b.university.rank)
+  })
+
+  return { title: options.title || 'Application deadlines', now, groups, rolling, undated }
+}
+
+/**
+ * Number of rounds in the digest
+ */
+export function digestItemCount(digest: DeadlineDigest): number {
+  return DIGEST_STATUS_ORDER.reduce((count, status) => count + digest.groups[status].length, 0)
+}
+
+/**
+ * "12 days left", "closes today" or "closed 3 days ago"; month-only rounds are "at most" that far off
+ */
+function describeDaysRemaining(item: DigestItem): string {
+  const { daysRemaining } = item
+  if (daysRemaining < 0) return `closed ${-daysRemaining} day${daysRemaining === -1 ? '' : 's'} ago`
+  if (daysRemaining === 0) return 'closes today'
+  return `${item.round.precision === 'month' ? 'at most ' : ''}${daysRemaining} day${daysRemaining === 1 ? '' : 's'} left`
+}
+
+/**
+ * What the round is for, e.g. "MSc in Computer Science, Priority"
+ */
+function describeRound(item: DigestItem): string {
+  return [item.program?.name, item.round.label].filter(Boolean).join(', ')
+}
+
+/**
+ * Date of a round with its time zone, e.g. "December 1, 2025 (est.), America/New_York"
+ */
+function describeDate(item: DigestItem): string {
+  return `${formatRoundDate(item.round)}${item.timeZone ? `, ${item.timeZone}` : ''}`
+}
+
+/**
+ * One-line counts per bucket, e.g. "2 urgent, 5 soon, 1 upcoming"
+ */
+export function summarizeDigest(digest: DeadlineDigest): string {
+  const parts = DIGEST_STATUS_ORDER
+    .filter(status => digest.groups[status].length > 0)
+    .map(status => `${digest.groups[status].length} ${status === 'future' ? 'upcoming' : status}`)
+  return parts.length > 0 ? parts.join(', ') : 'No dated deadlines'
+}
+
+/**
+ * Stable identity of an item; it includes the bucket so feed readers show it again when it becomes more pressing
+ */
+function itemId(item: DigestItem): string {
+  const program = item.program ? `|${item.program.name}` : ''
+  return `${shortlistKey(item.university)}${program}|${item.round.kind}|${item.round.date}|${item.status}`
+}
+
+/**
+ * When an item entered its bucket, used as the feed entry's date
+ */
+function itemUpdated(item: DigestItem, now: Date): Date {
+  const daysBefore = (days: number) => new Date(item.closesAt.getTime() - days * 24 * 60 * 60 * 1000)
+  if (item.status === 'expired') return item.closesAt
+  if (item.status === 'urgent') return daysBefore(URGENT_DAYS)
+  if (item.status === 'soon') return daysBefore(SOON_DAYS)
+  return now
+}
+
+/**
+ * Reference date as a day, e.g. "October 19, 2026"
+ */
+function formatDigestDate(date: Date): string {
+  return formatCalendarDate(`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`)
+}
+
+/**
+ * Markdown with a section per bucket and a list entry per round
+ */
+export function digestToMarkdown(digest: DeadlineDigest): string {
+  const lines = [`# ${digest.title}`, '', `As of ${formatDigestDate(digest.now)}: ${summarizeDigest(digest)}`]
+
+  DIGEST_STATUS_ORDER.forEach(status => {
+    const items = digest.groups[status]
+    if (items.length === 0) return
+    lines.push('', `## ${DEADLINE_STATUS_LABELS[status]} (${items.length})`, '')
+    items.forEach(item => {
+      const name = item.university.url ? `[${item.university.universityName}](${item.university.url})` : item.university.universityName
+      const round = describeRound(item)
+      lines.push(`- **${name}**${round ? ` (${round})` : ''}: ${describeDate(item)}, ${describeDaysRemaining(item)}`)
+    })
+  })
+
+  if (digest.rolling.length > 0) {
+    lines.push('', '## Rolling admissions', '', ...digest.rolling.map(university => `- ${university.universityName}`))
+  }
+  if (digest.undated.length > 0) {
+    lines.push('', '## Not announced', '', ...digest.undated.map(university => `- ${university.universityName}`))
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Plain-text email: a subject naming the most pressing bucket and a body with one block per round
+ */
+export function digestToEmail(digest: DeadlineDigest): { subject: string; body: string } {
+  const urgent = digest.groups.urgent.length
+  const subject = urgent > 0
+    ? `${digest.title}: ${urgent} closing within ${URGENT_DAYS} days`
+    : `${digest.title}: ${summarizeDigest(digest)}`
+
+  const lines = [`${digest.title}, ${formatDigestDate(digest.now)}`, summarizeDigest(digest)]
+  DIGEST_STATUS_ORDER.forEach(status => {
+    const items = digest.groups[status]
+    if (items.length === 0) return
+    lines.push('', DEADLINE_STATUS_LABELS[status].toUpperCase(), '')
+    items.forEach(item => {
+      const round = describeRound(item)
+      lines.push(`* ${item.university.universityName} (${item.university.cityCountry})`)
+      lines.push(`  ${round ? `${round}: ` : ''}${describeDate(item)}, ${describeDaysRemaining(item)}`)
+      if (item.university.url) lines.push(`  ${item.university.url}`)
+    })
+  })
+  if (digest.rolling.length > 0) {
+    lines.push('', 'ROLLING ADMISSIONS', '', ...digest.rolling.map(university => `* ${university.universityName}`))
+  }
+
+  return { subject, body: lines.join('\n') + '\n' }
+}
+
+/**
+ * Title of a feed entry, e.g. "Urgent: Aalto University (Priority), 12 days left"
+ */
+function entryTitle(item: DigestItem): string {
+  const round = describeRound(item)
+  return `${DEADLINE_STATUS_LABELS[item.status].replace(/ \(.*\)$/, '')}: ${item.university.universityName}` +
+    `${round ? ` (${round})` : ''}, ${describeDaysRemaining(item)}`
+}
+
+/**
+ * Text of a feed entry
+ */
+function entrySummary(item: DigestItem): string {
+  return `Application deadline ${describeDate(item)} for ${item.university.universityName}, ${item.university.cityCountry}.`
+}
+
+/**
+ * Every round in bucket order, for the feeds
+ */
+function feedItems(digest: DeadlineDigest): DigestItem[] {
+  return DIGEST_STATUS_ORDER.flatMap(status => digest.groups[status])
+}
+
+/**
+ * RSS 2.0 feed with an item per round
+ */
+export function digestToRss(digest: DeadlineDigest, links: DigestLinks): string {
+  const items = feedItems(digest).map(item => [
+    '    <item>',
+    `      <title>${escapeXml(entryTitle(item))}</title>`,
+    `      <link>${escapeXml(item.university.url || links.siteUrl)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(itemId(item))}</guid>`,
+    `      <pubDate>${itemUpdated(item, digest.now).toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(entrySummary(item))}</description>`,
+    '    </item>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(digest.title)}</title>`,
+    `    <link>${escapeXml(links.siteUrl)}</link>`,
+    `    <atom:link href="${escapeXml(links.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <description>${escapeXml(summarizeDigest(digest))}</description>`,
+    `    <lastBuildDate>${digest.now.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>'
+  ].join('\n') + '\n'
+}
+
+/**
+ * Atom feed with an entry per round
+ */
+export function digestToAtom(digest: DeadlineDigest, links: DigestLinks): string {
+  const entries = feedItems(digest).map(item => [
+    '  <entry>',
+    `    <title>${escapeXml(entryTitle(item))}</title>`,
+    `    <link href="${escapeXml(item.university.url || links.siteUrl)}"/>`,
+    `    <id>urn:university-finder:${escapeXml(encodeURIComponent(itemId(item)))}</id>`,
+    `    <updated>${itemUpdated(item, digest.now).toISOString()}</updated>`,
+    `    <summary>${escapeXml(entrySummary(item))}</summary>`,
+    '  </entry>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(digest.title)}</title>`,
+    `  <subtitle>${escapeXml(summarizeDigest(digest))}</subtitle>`,
+    `  <link href="${escapeXml(links.siteUrl)}"/>`,
+    `  <link href="${escapeXml(links.feedUrl)}" rel="self"/>`,
+    `  <id>${escapeXml(links.feedUrl)}</id>`,
+    `  <updated>${digest.now.toISOString()}</updated>`,
+    '  <author><name>University Finder</name></author>',
+    ...entries,
+    '</feed>'
+  ].join('\n') + '\n'
+}
+
+/**
+ * Render a digest in one of the formats; emails start with a Subject header so they can be piped to sendmail
+ */
+export function renderDigest(digest: DeadlineDigest, format: DigestFormat, links: DigestLinks): string {
+  switch (format) {
+    case 'markdown':
+      return digestToMarkdown(digest)
+    case 'email': {
+      const { subject, body } = digestToEmail(digest)
+      return `Subject: ${subject}\nContent-Type: text/plain; charset=utf-8\n\n${body}`
+    }
+    case 'rss':
+      return digestToRss(digest, links)
+    case 'atom':
+      return digestToAtom(digest, links)
+  }
+}
+
+/**
+ * Check if a string names a digest format
+ */
+export function isDigestFormat(value: string): value is DigestFormat {
+  return Object.prototype.hasOwnProperty.call(DIGEST_FORMATS, value)
+}
+
+// Universities API parameters that order or page results, which a digest has no use for
+const IGNORED_QUERY_PARAMS = ['sort', 'order', 'rankingSystem', 'page', 'pageSize']
+
+/**
+ * Parse digest route parameters: the universities API filters (so a saved filter's link works as is),
+ * shortlist (comma-separated shortlist keys), date (YYYY-MM-DD), format, title and expiredDays
+ */
+export function parseDigestQuery(params: URLSearchParams): { query: DigestQuery } | { error: string } {
+  const filterParams = new URLSearchParams(params)
+  IGNORED_QUERY_PARAMS.forEach(name => filterParams.delete(name))
+  const parsed = parseUniversityQuery(filterParams)
+  if ('error' in parsed) return parsed
+
+  const format = params.get('format') || 'markdown'
+  if (!isDigestFormat(format)) {
+    return { error: `"format" must be one of ${Object.keys(DIGEST_FORMATS).join(', ')}` }
+  }
+
+  const date = params.get('date')
+  const day = date ? parseCalendarDate(date) : null
+  if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !day)) {
+    return { error: `"date" must look like 2025-11-01 (got "${date}")` }
+  }
+
+  const expiredParam = params.get('expiredDays')
+  const expiredDays = expiredParam === null ? undefined : Number(expiredParam)
+  if (expiredDays !== undefined && (!Number.isInteger(expiredDays) || expiredDays < 0)) {
+    return { error: '"expiredDays" must be a whole number of days' }
+  }
+
+  const shortlist = (params.get('shortlist') || '').split(',').map(key => key.trim()).filter(Boolean)
+
+  return {
+    query: {
+      criteria: parsed.query.criteria,
+      shortlist: shortlist.length > 0 ? shortlist : null,
+      format,
+      options: {
+        title: params.get('title')?.trim() || undefined,
+        now: day?.date,
+        expiredDays
+      }
+    }
+  }
+}
+
+/**
+ * Keep the shortlisted universities, when a shortlist is given
+ */
+export function selectShortlisted(universities: ParsedUniversity[], shortlist: string[] | null): ParsedUniversity[] {
+  if (!shortlist) return universities
+  const keys = new Set(shortlist)
+  return universities.filter(university => keys.has(shortlistKey(university)))
+}
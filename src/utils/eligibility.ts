@@ -0,0 +1,126 @@
+import type { ParsedUniversity } from './dataParser'
+import type { FitProfile } from './fitScore'
+import type { AdmissionRequirements, EnglishTest } from './requirements'
+
+export type EligibilityStatus = 'eligible' | 'borderline' | 'not-eligible' | 'unknown'
+
+// One requirement checked against the profile; unknown when the profile lacks the score it needs
+export interface EligibilityCheck {
+  requirement: 'gpa' | 'english' | 'gre'
+  outcome: 'met' | 'borderline' | 'unmet' | 'unknown'
+  reason: string
+}
+
+export interface EligibilityResult {
+  status: EligibilityStatus
+  checks: EligibilityCheck[]
+}
+
+export const ELIGIBILITY_LABELS: Record<EligibilityStatus, string> = {
+  'eligible': 'Eligible',
+  'borderline': 'Borderline',
+  'not-eligible': 'Not eligible',
+  'unknown': 'Not enough information'
+}
+
+// A GPA this far below the minimum, as a share of the grading scale, is borderline rather than a miss
+const GPA_MARGIN = 0.05
+
+// Scores this far below a test's minimum are borderline
+const ENGLISH_MARGINS: Record<EnglishTest, number> = {
+  IELTS: 0.5,
+  TOEFL: 5,
+  Duolingo: 5,
+  PTE: 3
+}
+
+/**
+ * Profile score for an English test, or null when the profile has none
+ */
+function profileEnglishScore(profile: FitProfile, test: EnglishTest): number | null {
+  if (test === 'IELTS') return profile.ielts
+  if (test === 'TOEFL') return profile.toefl
+  return null
+}
+
+/**
+ * Compare the profile GPA with the minimum, both as a share of their scale
+ */
+function checkGpa(requirements: AdmissionRequirements, profile: FitProfile): EligibilityCheck | null {
+  if (!requirements.minGpa) return null
+  const { value, scale } = requirements.minGpa
+  if (profile.gpa === null) {
+    return { requirement: 'gpa', outcome: 'unknown', reason: `GPA ≥ ${value}/${scale} required; add your GPA` }
+  }
+
+  const gap = value / scale - profile.gpa / profile.gpaScale
+  const yours = `GPA ${profile.gpa}/${profile.gpaScale}`
+  if (gap <= 0) return { requirement: 'gpa', outcome: 'met', reason: `${yours} ≥ required ${value}/${scale}` }
+  return {
+    requirement: 'gpa',
+    outcome: gap <= GPA_MARGIN ? 'borderline' : 'unmet',
+    reason: `${yours} < required ${value}/${scale}`
+  }
+}
+
+/**
+ * Compare English test scores with the stated minimums; meeting any one accepted test is enough
+ */
+function checkEnglish(requirements: AdmissionRequirements, profile: FitProfile): EligibilityCheck | null {
+  const stated = requirements.englishTests.filter(entry => entry.minScore !== null)
+  if (stated.length === 0) return null
+
+  const compared = stated.flatMap(({ test, minScore }) => {
+    const score = profileEnglishScore(profile, test)
+    if (score === null) return []
+    const required = minScore as number
+    const outcome: EligibilityCheck['outcome'] = score >= required
+      ? 'met'
+      : required - score <= ENGLISH_MARGINS[test] ? 'borderline' : 'unmet'
+    return [{ outcome, reason: `${test} ${score} ${score >= required ? '≥' : '<'} required ${required}` }]
+  })
+
+  if (compared.length === 0) {
+    const wanted = stated.map(({ test, minScore }) => `${test} ≥ ${minScore}`).join(' or ')
+    return { requirement: 'english', outcome: 'unknown', reason: `${wanted} required; add a score` }
+  }
+
+  const best = compared.find(check => check.outcome === 'met') ??
+    compared.find(check => check.outcome === 'borderline') ??
+    compared[0]
+  return { requirement: 'english', ...best }
+}
+
+/**
+ * A required GRE is met by having taken it, and unknown until a score is added; the data states no minimum scores
+ */
+function checkGre(requirements: AdmissionRequirements, profile: FitProfile): EligibilityCheck | null {
+  if (requirements.gre !== 'required') return null
+  return profile.gre !== null
+    ? { requirement: 'gre', outcome: 'met', reason: `GRE ${profile.gre} taken` }
+    : { requirement: 'gre', outcome: 'unknown', reason: 'GRE required; add a score' }
+}
+
+/**
+ * Check a profile against a university's requirements: any clear miss makes it not eligible, a near miss borderline
+ */
+export function checkEligibility(requirements: AdmissionRequirements, profile: FitProfile): EligibilityResult {
+  const checks = [
+    checkGpa(requirements, profile),
+    checkEnglish(requirements, profile),
+    checkGre(requirements, profile)
+  ].filter((check): check is EligibilityCheck => check !== null)
+
+  const has = (outcome: EligibilityCheck['outcome']) => checks.some(check => check.outcome === outcome)
+  const status: EligibilityStatus = has('unmet')
+    ? 'not-eligible'
+    : has('borderline') ? 'borderline' : has('met') ? 'eligible' : 'unknown'
+  return { status, checks }
+}
+
+/**
+ * Eligibility for a list of universities, for display and filtering
+ */
+export function computeEligibility(universities: ParsedUniversity[], profile: FitProfile): Map<ParsedUniversity, EligibilityResult> {
+  return new Map(universities.map(university => [university, checkEligibility(university.requirements, profile)]))
+}
@@ -0,0 +1,14 @@
+/**
+ * Save generated content as a file through a temporary object URL (browser only)
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,271 @@
+import { readStorage, writeStorage } from './browserStorage'
+import { isSortColumn, isUniversityColumn, type SortConfig, type UniversityColumn } from './universityQuery'
+import type { MonthlyStipend } from './funding'
+import { isSupportedCurrency } from './currency'
+import { isDegreeType } from './programs'
+import { DEFAULT_FILTER_STATE, DEFAULT_TABLE_STATE, type FilterState, type TableState } from './urlState'
+
+// A named set of filters plus the table's sort and columns
+export interface FilterPreset {
+  name: string
+  filters: FilterState
+  sortConfig: SortConfig
+  visibleColumns: UniversityColumn[] | null
+  createdAt: string
+  updatedAt: string
+}
+
+export const PRESETS_STORAGE_KEY = 'university-finder:filter-presets'
+
+// Marks exported files so other JSON is rejected on import
+const PRESETS_FILE_TYPE = 'university-finder-presets'
+
+const STORAGE_VERSION = 1
+
+/**
+ * Trim a preset name and collapse inner whitespace
+ */
+export function normalizePresetName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Capture the current filters and table settings under a name
+ */
+export function createPreset(name: string, filters: FilterState, table: TableState): FilterPreset {
+  const now = new Date().toISOString()
+  return {
+    name: normalizePresetName(name),
+    filters,
+    sortConfig: table.sortConfig,
+    visibleColumns: table.visibleColumns,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * Find a preset by name, ignoring case
+ */
+export function findPreset(presets: FilterPreset[], name: string): FilterPreset | undefined {
+  const wanted = normalizePresetName(name).toLowerCase()
+  return presets.find(preset => preset.name.toLowerCase() === wanted)
+}
+
+/**
+ * Add presets, replacing any with the same name in place and appending new ones
+ */
+export function mergePresets(presets: FilterPreset[], incoming: FilterPreset[]): FilterPreset[] {
+  const merged = [...presets]
+  incoming.forEach(preset => {
+    const index = merged.findIndex(existing => existing.name.toLowerCase() === preset.name.toLowerCase())
+    if (index === -1) {
+      merged.push(preset)
+    } else {
+      merged[index] = { ...preset, createdAt: merged[index].createdAt }
+    }
+  })
+  return merged
+}
+
+/**
+ * Whether the current view matches a preset
+ */
+export function isPresetActive(preset: FilterPreset, filters: FilterState, table: TableState): boolean {
+  return presetSignature(preset.filters, preset.sortConfig, preset.visibleColumns) ===
+    presetSignature(filters, table.sortConfig, table.visibleColumns)
+}
+
+/**
+ * Comparable text for the settings a preset holds
+ */
+function presetSignature(filters: FilterState, sortConfig: SortConfig, visibleColumns: UniversityColumn[] | null): string {
+  return JSON.stringify([
+    filters.searchTerm,
+    filters.selectedCountries,
+    filters.rankingRange,
+    filters.rankingSystemMax,
+    filters.acceptanceRateRange,
+    filters.fullFundingOnly,
+    filters.minMonthlyStipend,
+    filters.greOptional,
+    filters.maxIelts,
+    filters.maxToefl,
+    filters.hideIneligible,
+    filters.openDeadlinesOnly,
+    filters.degreeTypes,
+    filters.languages,
+    filters.showAdvancedFilters,
+    sortConfig.column,
+    sortConfig.direction,
+    visibleColumns
+  ])
+}
+
+/**
+ * Read a stored range; JSON has no Infinity, so open bounds are stored as null
+ */
+function readRange(value: unknown): [number, number] | null {
+  if (!Array.isArray(value) || value.length !== 2) return null
+  const [min, max] = value
+  const low = min === null ? -Infinity : min
+  const high = max === null ? Infinity : max
+  if (typeof low !== 'number' || typeof high !== 'number' || isNaN(low) || isNaN(high) || low > high) return null
+  return [low, high]
+}
+
+/**
+ * Read the selected countries, including the single `selectedCountry` of older presets
+ */
+function readCountries(filters: Record<string, unknown>): string[] {
+  if (Array.isArray(filters.selectedCountries)) {
+    return filters.selectedCountries.filter((country): country is string => typeof country === 'string')
+  }
+  return typeof filters.selectedCountry === 'string' && filters.selectedCountry ? [filters.selectedCountry] : []
+}
+
+/**
+ * Read stored ranking limits, keeping only positive whole positions
+ */
+function readRankingLimits(value: unknown): Record<string, number> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {}
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, number] =>
+    typeof entry[1] === 'number' && Number.isInteger(entry[1]) && entry[1] >= 1
+  ))
+}
+
+/**
+ * Read a stored stipend minimum, dropping anything malformed
+ */
+function readStipend(value: unknown): MonthlyStipend | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { amount, currency } = value as Record<string, unknown>
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0 || typeof currency !== 'string' || !isSupportedCurrency(currency.toUpperCase())) {
+    return null
+  }
+  return { amount, currency: currency.toUpperCase() }
+}
+
+/**
+ * Read a stored score limit, or null when it is missing or not a positive number
+ */
+function readScoreLimit(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * Read a stored list of strings, dropping anything else
+ */
+function readStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : []
+}
+
+/**
+ * Check stored filters, falling back to defaults for anything malformed
+ */
+function readFilters(value: unknown): FilterState {
+  if (typeof value !== 'object' || value === null) return DEFAULT_FILTER_STATE
+  const filters = value as Record<string, unknown>
+  return {
+    searchTerm: typeof filters.searchTerm === 'string' ? filters.searchTerm : '',
+    selectedCountries: readCountries(filters),
+    rankingRange: readRange(filters.rankingRange),
+    rankingSystemMax: readRankingLimits(filters.rankingSystemMax),
+    acceptanceRateRange: readRange(filters.acceptanceRateRange),
+    fullFundingOnly: filters.fullFundingOnly === true,
+    minMonthlyStipend: readStipend(filters.minMonthlyStipend),
+    greOptional: filters.greOptional === true,
+    maxIelts: readScoreLimit(filters.maxIelts),
+    maxToefl: readScoreLimit(filters.maxToefl),
+    hideIneligible: filters.hideIneligible === true,
+    openDeadlinesOnly: filters.openDeadlinesOnly === true,
+    degreeTypes: readStrings(filters.degreeTypes).filter(isDegreeType),
+    languages: readStrings(filters.languages),
+    showAdvancedFilters: filters.showAdvancedFilters === true
+  }
+}
+
+/**
+ * Check a stored sort, falling back to the default
+ */
+function readSortConfig(value: unknown): SortConfig {
+  if (typeof value !== 'object' || value === null) return DEFAULT_TABLE_STATE.sortConfig
+  const { column, direction } = value as Record<string, unknown>
+  if (typeof column !== 'string' || !isSortColumn(column) || (direction !== 'asc' && direction !== 'desc')) {
+    return DEFAULT_TABLE_STATE.sortConfig
+  }
+  return { column, direction }
+}
+
+/**
+ * Check a stored preset, dropping anything that does not look like one
+ */
+function readPreset(value: unknown): FilterPreset | null {
+  if (typeof value !== 'object' || value === null) return null
+  const preset = value as Record<string, unknown>
+  if (typeof preset.name !== 'string' || !normalizePresetName(preset.name)) return null
+
+  return {
+    name: normalizePresetName(preset.name),
+    filters: readFilters(preset.filters),
+    sortConfig: readSortConfig(preset.sortConfig),
+    visibleColumns: Array.isArray(preset.visibleColumns)
+      ? preset.visibleColumns.filter((column): column is UniversityColumn => typeof column === 'string' && isUniversityColumn(column))
+      : null,
+    createdAt: typeof preset.createdAt === 'string' ? preset.createdAt : '',
+    updatedAt: typeof preset.updatedAt === 'string' ? preset.updatedAt : ''
+  }
+}
+
+/**
+ * Parse a presets document, reporting what is wrong with it
+ */
+export function parsePresetsFile(text: string): { presets: FilterPreset[] } | { error: string } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { error: 'The file is not valid JSON' }
+  }
+
+  const document = parsed as Record<string, unknown> | null
+  if (typeof document !== 'object' || document === null || document.type !== PRESETS_FILE_TYPE) {
+    return { error: 'The file is not a filter preset export' }
+  }
+  if (document.version !== STORAGE_VERSION) {
+    return { error: `Unsupported preset file version ${String(document.version)}` }
+  }
+  if (!Array.isArray(document.presets)) {
+    return { error: 'The file has no presets list' }
+  }
+
+  const presets = document.presets.map(readPreset).filter((preset): preset is FilterPreset => preset !== null)
+  // Later duplicates win, as they would when importing one after another
+  return { presets: mergePresets([], presets) }
+}
+
+/**
+ * Serialize presets; the same format is used for storage and for exported files
+ */
+export function serializePresets(presets: FilterPreset[], pretty = false): string {
+  const document = { type: PRESETS_FILE_TYPE, version: STORAGE_VERSION, presets }
+  // Open-ended range bounds become null, which readRange turns back into Infinity
+  return JSON.stringify(document, null, pretty ? 2 : undefined) + (pretty ? '\n' : '')
+}
+
+/**
+ * Read presets from browser storage
+ */
+export function loadPresets(storage: Storage): FilterPreset[] {
+  const stored = readStorage(storage, PRESETS_STORAGE_KEY)
+  if (!stored) return []
+  const parsed = parsePresetsFile(stored)
+  return 'presets' in parsed ? parsed.presets : []
+}
+
+/**
+ * Write presets to browser storage
+ */
+export function savePresets(storage: Storage, presets: FilterPreset[]) {
+  writeStorage(storage, PRESETS_STORAGE_KEY, serializePresets(presets), 'filter presets')
+}
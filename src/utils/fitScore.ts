@@ -0,0 +1,305 @@
+import { readStorage, writeStorage } from './browserStorage'
+import type { ParsedUniversity } from './dataParser'
+import { convertAmount, formatMoney } from './currency'
+import { bestFundingTier, type FundingTier } from './funding'
+import { matchesLocation } from './geography'
+import { programTexts } from './programs'
+import { checkEligibility, type EligibilityCheck } from './eligibility'
+import { normalizeText } from './searchIndex'
+
+// What the user tells us about themselves; unset fields leave their factor out of the score
+export interface FitProfile {
+  gpa: number | null
+  // Top of the grading scale the GPA is on, e.g. 4, 10 or 20
+  gpaScale: number
+  gre: number | null
+  toefl: number | null
+  ielts: number | null
+  // What the user can pay per year themselves
+  budget: { amount: number; currency: string } | null
+  // Country, region or continent names
+  preferredLocations: string[]
+  // Subjects looked for in program names, e.g. "machine learning"
+  interests: string[]
+}
+
+export type FitFactor = 'admission' | 'funding' | 'ranking' | 'programs' | 'requirements' | 'location'
+
+export const FIT_FACTORS: FitFactor[] = ['funding', 'ranking', 'programs', 'admission', 'requirements', 'location']
+
+export const FIT_FACTOR_LABELS: Record<FitFactor, string> = {
+  admission: 'Admission chances',
+  funding: 'Funding',
+  ranking: 'Reputation',
+  programs: 'Program match',
+  requirements: 'Requirements met',
+  location: 'Preferred location'
+}
+
+// How much each factor counts, from 0 (ignored) to MAX_FIT_WEIGHT
+export type FitWeights = Record<FitFactor, number>
+
+export const MAX_FIT_WEIGHT = 5
+
+// Mirrors the order the dataset's own ranking uses: funding, reputation, curriculum fit, then admission
+export const DEFAULT_FIT_WEIGHTS: FitWeights = {
+  funding: 4,
+  ranking: 3,
+  programs: 3,
+  admission: 2,
+  requirements: 2,
+  location: 1
+}
+
+export const EMPTY_FIT_PROFILE: FitProfile = {
+  gpa: null,
+  gpaScale: 4,
+  gre: null,
+  toefl: null,
+  ielts: null,
+  budget: null,
+  preferredLocations: [],
+  interests: []
+}
+
+// One factor's share of a fit score; score is null when there is nothing to judge it on
+export interface FitFactorScore {
+  factor: FitFactor
+  weight: number
+  score: number | null
+  explanation: string
+}
+
+export interface FitResult {
+  // 0–100, or NaN when no weighted factor could be scored
+  score: number
+  factors: FitFactorScore[]
+}
+
+// How good each funding tier is for a student who cannot pay their own way, from 0 to 1
+const TIER_SCORES: Record<FundingTier, number> = {
+  'full': 1,
+  'tuition-waiver': 0.7,
+  'stipend': 0.6,
+  'partial': 0.35,
+  'unknown': 0.1
+}
+
+const TIER_LABELS: Record<FundingTier, string> = {
+  'full': 'full funding',
+  'tuition-waiver': 'a tuition waiver',
+  'stipend': 'a stipend',
+  'partial': 'partial funding',
+  'unknown': 'funding of unknown extent'
+}
+
+// Rough yearly cost of studying abroad; a budget this large makes funding irrelevant
+const TYPICAL_YEARLY_COST = { amount: 30000, currency: 'USD' }
+
+const OUTCOME_MARKS: Record<EligibilityCheck['outcome'], string> = {
+  met: '✓',
+  borderline: '≈',
+  unmet: '✗',
+  unknown: '?'
+}
+
+// Acceptance rates at or above this count as a safe admission
+const SAFE_ACCEPTANCE_RATE = 50
+
+/**
+ * Likelihood of admission from the acceptance rate; the square root keeps very selective schools from scoring near 0
+ */
+function scoreAdmission(university: ParsedUniversity): Omit<FitFactorScore, 'factor' | 'weight'> {
+  const rate = university.acceptanceRate.value
+  if (isNaN(rate)) return { score: null, explanation: 'Acceptance rate not reported' }
+  return {
+    score: Math.min(1, Math.sqrt(rate / SAFE_ACCEPTANCE_RATE)),
+    explanation: `Accepts ${university.acceptanceRate.display} of applicants`
+  }
+}
+
+/**
+ * Best funding on offer, counting for less the more of the typical cost the user's budget covers
+ */
+function scoreFunding(university: ParsedUniversity, profile: FitProfile): Omit<FitFactorScore, 'factor' | 'weight'> {
+  const tier = university.scholarships.length > 0 ? bestFundingTier(university.scholarships) : null
+  const tierScore = tier ? TIER_SCORES[tier] : 0
+  const offered = tier ? `Offers ${TIER_LABELS[tier]}` : 'No scholarships listed'
+
+  const budget = profile.budget && convertAmount(profile.budget.amount, profile.budget.currency, TYPICAL_YEARLY_COST.currency)
+  if (!budget) return { score: tierScore, explanation: offered }
+
+  const covered = Math.min(1, budget / TYPICAL_YEARLY_COST.amount)
+  return {
+    score: 1 - (1 - covered) * (1 - tierScore),
+    explanation: `${offered}; your budget covers about ${Math.round(covered * 100)}% of a typical ` +
+      `${formatMoney(TYPICAL_YEARLY_COST.amount, TYPICAL_YEARLY_COST.currency)} year`
+  }
+}
+
+/**
+ * Reputation from the composite score across ranking systems
+ */
+function scoreRanking(university: ParsedUniversity): Omit<FitFactorScore, 'factor' | 'weight'> {
+  const { composite, display } = university.ranking
+  if (isNaN(composite)) return { score: null, explanation: 'Not ranked' }
+  return { score: composite / 100, explanation: `${display} (composite ${composite})` }
+}
+
+/**
+ * Share of the user's interests that appear in the university's program names
+ */
+function scorePrograms(university: ParsedUniversity, profile: FitProfile): Omit<FitFactorScore, 'factor' | 'weight'> {
+  const interests = profile.interests.filter(interest => normalizeText(interest))
+  if (interests.length === 0) return { score: null, explanation: 'Add interests to your profile' }
+
+  const programs = normalizeText(university.programs.flatMap(programTexts).join(' '))
+  const matched = interests.filter(interest => programs.includes(normalizeText(interest)))
+  return {
+    score: matched.length / interests.length,
+    explanation: matched.length > 0
+      ? `Programs cover ${matched.length} of ${interests.length} interests: ${matched.join(', ')}`
+      : `No programs match your ${interests.length === 1 ? 'interest' : 'interests'}`
+  }
+}
+
+/**
+ * Requirements the profile could be checked against; near misses count half
+ */
+function scoreRequirements(university: ParsedUniversity, profile: FitProfile): Omit<FitFactorScore, 'factor' | 'weight'> {
+  const checks = checkEligibility(university.requirements, profile).checks.filter(check => check.outcome !== 'unknown')
+  if (checks.length === 0) return { score: null, explanation: 'No stated requirements to check your profile against' }
+
+  const met = checks.filter(check => check.outcome === 'met').length
+  const borderline = checks.filter(check => check.outcome === 'borderline').length
+  return {
+    score: (met + borderline * 0.5) / checks.length,
+    explanation: `Meets ${met} of ${checks.length}: ` +
+      checks.map(check => `${OUTCOME_MARKS[check.outcome]} ${check.reason}`).join(', ')
+  }
+}
+
+/**
+ * Whether the university is somewhere the user wants to be
+ */
+function scoreLocation(university: ParsedUniversity, profile: FitProfile): Omit<FitFactorScore, 'factor' | 'weight'> {
+  if (profile.preferredLocations.length === 0) return { score: null, explanation: 'No preferred locations set' }
+  const matches = matchesLocation(university.cityCountry, profile.preferredLocations)
+  return {
+    score: matches ? 1 : 0,
+    explanation: matches ? `${university.cityCountry} is a preferred location` : `${university.cityCountry} is not a preferred location`
+  }
+}
+
+/**
+ * Fit of a university for a user: the weighted average of the factors that could be scored, with each factor's reasoning
+ */
+export function computeFitScore(university: ParsedUniversity, profile: FitProfile, weights: FitWeights): FitResult {
+  const scorers: Record<FitFactor, () => Omit<FitFactorScore, 'factor' | 'weight'>> = {
+    admission: () => scoreAdmission(university),
+    funding: () => scoreFunding(university, profile),
+    ranking: () => scoreRanking(university),
+    programs: () => scorePrograms(university, profile),
+    requirements: () => scoreRequirements(university, profile),
+    location: () => scoreLocation(university, profile)
+  }
+
+  const factors = FIT_FACTORS.map(factor => ({ factor, weight: weights[factor], ...scorers[factor]() }))
+  const counted = factors.filter(factor => factor.weight > 0 && factor.score !== null)
+  const totalWeight = counted.reduce((sum, factor) => sum + factor.weight, 0)
+  const total = counted.reduce((sum, factor) => sum + factor.weight * (factor.score as number), 0)
+
+  return { score: totalWeight > 0 ? Math.round(total / totalWeight * 100) : NaN, factors }
+}
+
+/**
+ * Fit scores for a list of universities, for sorting and display
+ */
+export function computeFitScores(universities: ParsedUniversity[], profile: FitProfile, weights: FitWeights): Map<ParsedUniversity, FitResult> {
+  return new Map(universities.map(university => [university, computeFitScore(university, profile, weights)]))
+}
+
+export const FIT_PROFILE_STORAGE_KEY = 'university-finder:fit-profile'
+
+const STORAGE_VERSION = 1
+
+/**
+ * A number from storage, or null when it is missing or not a positive finite number
+ */
+function readScore(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * A list of non-empty strings from storage
+ */
+function readNames(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((name): name is string => typeof name === 'string' && name.trim() !== '') : []
+}
+
+/**
+ * Check a stored profile, dropping anything malformed
+ */
+function readProfile(value: unknown): FitProfile {
+  if (typeof value !== 'object' || value === null) return EMPTY_FIT_PROFILE
+  const profile = value as Record<string, unknown>
+  const gpaScale = readScore(profile.gpaScale) ?? EMPTY_FIT_PROFILE.gpaScale
+  const gpa = readScore(profile.gpa)
+  const budget = profile.budget as Record<string, unknown> | null | undefined
+  const budgetAmount = budget ? readScore(budget.amount) : null
+
+  return {
+    gpa: gpa !== null && gpa <= gpaScale ? gpa : null,
+    gpaScale,
+    gre: readScore(profile.gre),
+    toefl: readScore(profile.toefl),
+    ielts: readScore(profile.ielts),
+    budget: budgetAmount !== null && typeof budget?.currency === 'string'
+      ? { amount: budgetAmount, currency: budget.currency.toUpperCase() }
+      : null,
+    preferredLocations: readNames(profile.preferredLocations),
+    interests: readNames(profile.interests)
+  }
+}
+
+/**
+ * Check stored weights, using the default for any that are missing or out of range
+ */
+function readWeights(value: unknown): FitWeights {
+  const weights = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>
+  return Object.fromEntries(FIT_FACTORS.map(factor => {
+    const weight = weights[factor]
+    const valid = typeof weight === 'number' && Number.isInteger(weight) && weight >= 0 && weight <= MAX_FIT_WEIGHT
+    return [factor, valid ? weight : DEFAULT_FIT_WEIGHTS[factor]]
+  })) as FitWeights
+}
+
+/**
+ * Parse a stored profile and weights, returning the defaults when they are missing or corrupt
+ */
+export function parseFitSettings(stored: string | null): { profile: FitProfile; weights: FitWeights } {
+  const defaults = { profile: EMPTY_FIT_PROFILE, weights: DEFAULT_FIT_WEIGHTS }
+  if (!stored) return defaults
+
+  try {
+    const parsed = JSON.parse(stored)
+    if (parsed?.version !== STORAGE_VERSION) return defaults
+    return { profile: readProfile(parsed.profile), weights: readWeights(parsed.weights) }
+  } catch {
+    return defaults
+  }
+}
+
+/**
+ * Read the profile and weights from browser storage
+ */
+export function loadFitSettings(storage: Storage): { profile: FitProfile; weights: FitWeights } {
+  return parseFitSettings(readStorage(storage, FIT_PROFILE_STORAGE_KEY))
+}
+
+/**
+ * Write the profile and weights to browser storage
+ */
+export function saveFitSettings(storage: Storage, profile: FitProfile, weights: FitWeights) {
+  writeStorage(storage, FIT_PROFILE_STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, profile, weights }), 'fit profile')
+}
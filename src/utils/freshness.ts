@@ -0,0 +1,246 @@
+import type { ParsedUniversity } from './dataParser'
+import { formatCalendarDate, parseCalendarDate, roundClosesAt } from './deadlines'
+
+// Fields that carry their own verification date
+export type VerifiableField =
+  | 'rankings'
+  | 'programs'
+  | 'programStart'
+  | 'appDeadline'
+  | 'acceptanceRate'
+  | 'acceptanceCriteria'
+  | 'scholarships'
+  | 'contact'
+  | 'url'
+
+export const VERIFIABLE_FIELDS: VerifiableField[] = [
+  'rankings',
+  'programs',
+  'programStart',
+  'appDeadline',
+  'acceptanceRate',
+  'acceptanceCriteria',
+  'scholarships',
+  'contact',
+  'url'
+]
+
+export const VERIFIABLE_FIELD_LABELS: Record<VerifiableField, string> = {
+  rankings: 'Rankings',
+  programs: 'Programs',
+  programStart: 'Start date',
+  appDeadline: 'Deadline',
+  acceptanceRate: 'Acceptance rate',
+  acceptanceCriteria: 'Acceptance criteria',
+  scholarships: 'Scholarships',
+  contact: 'Contact',
+  url: 'Website'
+}
+
+export type FreshnessStatus = 'current' | 'stale' | 'unverified'
+
+// How recently a field was checked, and why it needs checking again when it does
+export interface FieldFreshness {
+  field: VerifiableField
+  status: FreshnessStatus
+  // YYYY-MM-DD, or null when the field was never checked
+  verifiedOn: string | null
+  reason: string
+}
+
+export interface RecordFreshness {
+  // Only fields the record has a value for
+  fields: Partial<Record<VerifiableField, FieldFreshness>>
+  // Fields that are stale or were never checked
+  outdated: FieldFreshness[]
+  // Higher means the record should be re-verified sooner
+  priority: number
+  // Earliest verification date among its fields
+  oldestCheck: string | null
+}
+
+// The intake applications are currently being taken for
+export interface AdmissionCycle {
+  intake: Date
+  // When applications for the intake are assumed to open
+  opens: Date
+  // Whether the stated start date is an intake that has already begun
+  startPassed: boolean
+}
+
+// Applications for an intake are assumed to open this many months before it starts
+export const CYCLE_LEAD_MONTHS = 12
+
+// Days a check stays current; deadlines and start dates follow the admission cycle instead when the start date is readable
+const MAX_AGE_DAYS: Record<VerifiableField, number> = {
+  rankings: 365,
+  programs: 365,
+  acceptanceRate: 365,
+  acceptanceCriteria: 365,
+  scholarships: 180,
+  contact: 365,
+  url: 365,
+  programStart: 365,
+  appDeadline: 365
+}
+
+// How much an outdated field counts towards a record's re-verification priority
+const FIELD_WEIGHTS: Record<VerifiableField, number> = {
+  appDeadline: 5,
+  programStart: 3,
+  scholarships: 3,
+  acceptanceCriteria: 2,
+  acceptanceRate: 2,
+  programs: 2,
+  rankings: 1,
+  contact: 1,
+  url: 1
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Check if a string names a field with its own verification date
+ */
+export function isVerifiableField(value: string): value is VerifiableField {
+  return (VERIFIABLE_FIELDS as string[]).includes(value)
+}
+
+/**
+ * Date part of a verification timestamp, e.g. "2025-11-03" for "2025-11-03T09:30:00Z", or null when it is not a date
+ */
+export function toVerificationDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:$|T)/)
+  return match && !isNaN(new Date(value).getTime()) ? match[1] : null
+}
+
+/**
+ * Same day of the month a number of months later (or earlier, when negative)
+ */
+function addMonths(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, date.getDate())
+}
+
+/**
+ * The intake a start date points to: the stated one while it is still ahead, otherwise the next one a year on
+ */
+export function admissionCycle(programStart: string, now: Date = new Date()): AdmissionCycle | null {
+  const start = parseCalendarDate(programStart)
+  if (!start) return null
+
+  let intake = start.date
+  while (intake.getTime() <= now.getTime()) intake = addMonths(intake, 12)
+  return { intake, opens: addMonths(intake, -CYCLE_LEAD_MONTHS), startPassed: intake.getTime() !== start.date.getTime() }
+}
+
+/**
+ * Whether the university has a value for a field, so there is something to verify
+ */
+export function hasFieldValue(university: ParsedUniversity, field: VerifiableField): boolean {
+  switch (field) {
+    case 'rankings':
+      return university.ranking.entries.length > 0
+    case 'programs':
+    case 'scholarships':
+      return university[field].length > 0
+    case 'appDeadline':
+      return university.appDeadline.rounds.length > 0 || university.appDeadline.rolling
+    case 'acceptanceRate':
+      return !isNaN(university.acceptanceRate.value)
+    case 'contact':
+      return Boolean(university.contact.email)
+    default:
+      return Boolean(university[field])
+  }
+}
+
+const monthName = (date: Date) => date.toLocaleDateString('en-US', { year: 'numeric', month: 'long' })
+
+/**
+ * Why a deadline or start date no longer describes the current admission cycle, or null when it does
+ */
+function cycleReason(university: ParsedUniversity, field: 'programStart' | 'appDeadline', verifiedOn: string | null, cycle: AdmissionCycle): string | null {
+  const stated = monthName(parseCalendarDate(university.programStart)!.date)
+  const { rounds, timeZone } = university.appDeadline
+
+  if (field === 'programStart' && cycle.startPassed) return `The ${stated} intake has already started`
+  if (field === 'appDeadline' && rounds.length > 0) {
+    // A last round that closed before this cycle opened is last year's deadline, whatever the start date says
+    if (roundClosesAt(rounds[rounds.length - 1], timeZone).getTime() <= cycle.opens.getTime()) {
+      return `Deadline is for an earlier intake; applications for ${monthName(cycle.intake)} opened around ${monthName(cycle.opens)}`
+    }
+  } else if (field === 'appDeadline' && cycle.startPassed) {
+    return `Rolling admissions were noted for the ${stated} intake, which has already started`
+  }
+
+  const checked = verifiedOn ? parseCalendarDate(verifiedOn) : null
+  if (checked && checked.date.getTime() < cycle.opens.getTime()) {
+    return `Checked on ${formatCalendarDate(verifiedOn!)}, before applications for ${monthName(cycle.intake)} opened`
+  }
+  return null
+}
+
+/**
+ * Freshness of one field: deadlines and start dates go stale with the admission cycle, other fields with age
+ */
+export function checkFieldFreshness(university: ParsedUniversity, field: VerifiableField, now: Date = new Date()): FieldFreshness {
+  const verifiedOn = university.lastVerified[field] ?? null
+
+  const cycle = field === 'programStart' || field === 'appDeadline' ? admissionCycle(university.programStart, now) : null
+
+  if (cycle) {
+    const reason = cycleReason(university, field as 'programStart' | 'appDeadline', verifiedOn, cycle)
+    if (reason) return { field, status: 'stale', verifiedOn, reason }
+  } else if (verifiedOn) {
+    const age = Math.floor((now.getTime() - parseCalendarDate(verifiedOn)!.date.getTime()) / DAY_MS)
+    if (age > MAX_AGE_DAYS[field]) return { field, status: 'stale', verifiedOn, reason: `Checked ${age} days ago` }
+  }
+
+  return verifiedOn
+    ? { field, status: 'current', verifiedOn, reason: `Checked on ${formatCalendarDate(verifiedOn)}` }
+    : { field, status: 'unverified', verifiedOn, reason: 'Never verified' }
+}
+
+/**
+ * Freshness of every field a university has a value for
+ */
+export function checkFreshness(university: ParsedUniversity, now: Date = new Date()): RecordFreshness {
+  const checked = VERIFIABLE_FIELDS
+    .filter(field => hasFieldValue(university, field))
+    .map(field => checkFieldFreshness(university, field, now))
+  const outdated = checked.filter(freshness => freshness.status !== 'current')
+  const dates = checked.flatMap(freshness => (freshness.verifiedOn ? [freshness.verifiedOn] : [])).sort()
+
+  return {
+    fields: Object.fromEntries(checked.map(freshness => [freshness.field, freshness])),
+    outdated,
+    priority: outdated.reduce((sum, freshness) => sum + FIELD_WEIGHTS[freshness.field], 0),
+    oldestCheck: dates[0] ?? null
+  }
+}
+
+/**
+ * Freshness for a list of universities, for display
+ */
+export function computeFreshness(universities: ParsedUniversity[], now: Date = new Date()): Map<ParsedUniversity, RecordFreshness> {
+  return new Map(universities.map(university => [university, checkFreshness(university, now)]))
+}
+
+/**
+ * Universities with outdated fields, the ones most in need of re-verification first
+ */
+export function reverificationQueue(
+  universities: ParsedUniversity[],
+  freshness: Map<ParsedUniversity, RecordFreshness>
+): Array<{ university: ParsedUniversity; freshness: RecordFreshness }> {
+  return universities
+    .flatMap(university => {
+      const record = freshness.get(university)
+      return record && record.priority > 0 ? [{ university, freshness: record }] : []
+    })
+    .sort((a, b) =>
+      b.freshness.priority - a.freshness.priority ||
+      (a.freshness.oldestCheck ?? '').localeCompare(b.freshness.oldestCheck ?? '') ||
+      a.university.rank - b.university.rank
+    )
+}
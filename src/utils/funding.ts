@@ -0,0 +1,206 @@
+import { convertAmount, EXCHANGE_RATES, formatMoney, type ExchangeRates } from './currency'
+
+export type FundingTier = 'full' | 'partial' | 'tuition-waiver' | 'stipend' | 'unknown'
+
+// Best first; also the order funding sorts in
+export const FUNDING_TIERS: FundingTier[] = ['full', 'tuition-waiver', 'stipend', 'partial', 'unknown']
+
+export type FundingPeriod = 'month' | 'semester' | 'year' | 'unspecified'
+
+// A sum of money pulled from a scholarship description; min and max differ for ranges like "€3,000–€25,000"
+export interface FundingAmount {
+  min: number
+  max: number
+  // ISO 4217 code
+  currency: string
+  period: FundingPeriod
+}
+
+// A monthly amount in a given currency, as used by the stipend filter; amounts in other currencies are converted
+export interface MonthlyStipend {
+  amount: number
+  currency: string
+}
+
+export interface ScholarshipFunding {
+  tier: FundingTier
+  amount: FundingAmount | null
+}
+
+// Currency symbols and codes as they appear in the data, mapped to ISO codes
+const CURRENCY_ALIASES: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '$': 'USD',
+  'US$': 'USD',
+  'S$': 'SGD',
+  'HK$': 'HKD',
+  'A$': 'AUD',
+  'C$': 'CAD',
+  '¥': 'JPY',
+  'RMB': 'CNY'
+}
+
+const CURRENCY_CODES = [
+  'CHF', 'EUR', 'USD', 'GBP', 'SGD', 'HKD', 'JPY', 'KRW', 'RMB', 'CNY', 'SEK', 'NOK', 'DKK', 'CZK', 'PLN', 'INR', 'SAR', 'AED',
+  'EGP', 'AUD', 'CAD'
+]
+
+const SYMBOL = '(?:US\\$|S\\$|HK\\$|A\\$|C\\$|€|£|¥|\\$)'
+const CODE = `(?:${CURRENCY_CODES.join('|')})`
+const NUMBER = '(\\d[\\d,]*(?:\\.\\d+)?)\\s?(k\\b)?'
+
+// "€3,000", "CHF 8,000", "£10k", "3,000 RMB", "€3,000–€25,000"
+const MONEY_PATTERN = new RegExp(
+  `(${SYMBOL}|\\b${CODE}\\b)?\\s?${NUMBER}(?:\\s?[–-]\\s?(?:${SYMBOL}|${CODE})?\\s?${NUMBER})?\\s?(\\b${CODE}\\b)?`,
+  'i'
+)
+
+const PERIOD_PATTERNS: Array<[FundingPeriod, RegExp]> = [
+  ['month', /\bmonth(ly)?\b|\/\s?mo(nth)?\b/i],
+  ['semester', /\bsemester\b|\bterm\b/i],
+  ['year', /\byear(ly)?\b|\bannual(ly)?\b|per annum|\/\s?yr\b/i]
+]
+
+const FULL_PATTERN = /full(y)?[\s-]+(funding|funded|cost|scholarship|ride)|full study and living/i
+const PARTIAL_PATTERN = /partial|reduction|discount|up to|\d+\s?[–-]\s?\d+\s?%/i
+const TUITION_PATTERN = /tuition/i
+const LIVING_PATTERN = /stipend|allowance|living|salary|accommodation|housing/i
+
+/**
+ * Parse a number like "8,000" or "10" with an optional "k"
+ */
+function parseNumber(digits: string, thousands: string | undefined): number {
+  const value = parseFloat(digits.replace(/,/g, ''))
+  return thousands ? value * 1000 : value
+}
+
+/**
+ * First sum of money in a piece of text, with its currency and how often it is paid
+ */
+export function parseFundingAmount(text: string): FundingAmount | null {
+  // Parts joined by "+" or "and" each describe one benefit, so the period is looked up within the part
+  for (const part of text.split(/\+|\band\b|;/)) {
+    const match = part.match(MONEY_PATTERN)
+    if (!match) continue
+
+    const [, prefix, digits, thousands, maxDigits, maxThousands, suffix] = match
+    const currencyText = (prefix || suffix || '').trim()
+    if (!currencyText) continue
+
+    const currency = CURRENCY_ALIASES[currencyText] ?? CURRENCY_ALIASES[currencyText.toUpperCase()] ?? currencyText.toUpperCase()
+    const min = parseNumber(digits, thousands)
+    const max = maxDigits ? parseNumber(maxDigits, maxThousands) : min
+    const period = PERIOD_PATTERNS.find(([, pattern]) => pattern.test(part))?.[0] ?? 'unspecified'
+    return { min, max: Math.max(min, max), currency, period }
+  }
+  return null
+}
+
+/**
+ * Classify a scholarship from its amount text, falling back to its name when the amount says nothing
+ */
+export function classifyScholarship(scholarship: { name: string; amount: string }): ScholarshipFunding {
+  const amountText = scholarship.amount || ''
+  const amount = parseFundingAmount(amountText) ?? parseFundingAmount(scholarship.name)
+
+  const describe = (text: string): FundingTier => {
+    const paidRegularly = amount !== null && amount.period !== 'unspecified'
+    const hasLiving = LIVING_PATTERN.test(text) || paidRegularly
+    if (FULL_PATTERN.test(text)) return 'full'
+    if (PARTIAL_PATTERN.test(text)) return 'partial'
+    if (TUITION_PATTERN.test(text)) return hasLiving ? 'full' : 'tuition-waiver'
+    if (hasLiving) return 'stipend'
+    if (amount) return 'partial'
+    return 'unknown'
+  }
+
+  const fromAmount = describe(amountText)
+  return { tier: fromAmount !== 'unknown' ? fromAmount : describe(scholarship.name), amount }
+}
+
+/**
+ * Best funding tier among a university's scholarships
+ */
+export function bestFundingTier(scholarships: Array<{ funding: ScholarshipFunding }>): FundingTier {
+  return scholarships.reduce<FundingTier>((best, scholarship) =>
+    FUNDING_TIERS.indexOf(scholarship.funding.tier) < FUNDING_TIERS.indexOf(best) ? scholarship.funding.tier : best,
+  'unknown')
+}
+
+/**
+ * A regular payment expressed per month, or null for one-off or unspecified sums
+ */
+export function monthlyAmount(amount: FundingAmount | null): number | null {
+  if (!amount) return null
+  switch (amount.period) {
+    case 'month':
+      return amount.max
+    case 'semester':
+      return amount.max / 6
+    case 'year':
+      return amount.max / 12
+    default:
+      return null
+  }
+}
+
+/**
+ * The same amount expressed in another currency, or null when there is no rate for it
+ */
+export function convertFundingAmount(amount: FundingAmount, currency: string, rates: ExchangeRates = EXCHANGE_RATES): FundingAmount | null {
+  const min = convertAmount(amount.min, amount.currency, currency, rates)
+  const max = convertAmount(amount.max, amount.currency, currency, rates)
+  return min === null || max === null ? null : { ...amount, min, max, currency }
+}
+
+/**
+ * Largest monthly payment across a university's scholarships, converted to a currency
+ */
+export function maxMonthlyStipend(
+  scholarships: Array<{ funding: ScholarshipFunding }>,
+  currency: string,
+  rates: ExchangeRates = EXCHANGE_RATES
+): number | null {
+  return scholarships.reduce<number | null>((best, scholarship) => {
+    const { amount } = scholarship.funding
+    const converted = amount && convertFundingAmount(amount, currency, rates)
+    const monthly = converted ? monthlyAmount(converted) : null
+    return monthly !== null && (best === null || monthly > best) ? monthly : best
+  }, null)
+}
+
+/**
+ * A payment over a whole year; one-off and unspecified sums count once
+ */
+function yearlyAmount(amount: FundingAmount): number {
+  switch (amount.period) {
+    case 'month':
+      return amount.max * 12
+    case 'semester':
+      return amount.max * 2
+    default:
+      return amount.max
+  }
+}
+
+/**
+ * Largest yearly amount across a university's scholarships in the rates' base currency, for ranking funding
+ */
+export function fundingValue(scholarships: Array<{ funding: ScholarshipFunding }>, rates: ExchangeRates = EXCHANGE_RATES): number {
+  return scholarships.reduce((best, scholarship) => {
+    const { amount } = scholarship.funding
+    const converted = amount && convertFundingAmount(amount, rates.base, rates)
+    return converted ? Math.max(best, yearlyAmount(converted)) : best
+  }, 0)
+}
+
+/**
+ * Short description of an amount, e.g. "€992/month" or "£10,000"
+ */
+export function formatFundingAmount(amount: FundingAmount): string {
+  const value = amount.min === amount.max
+    ? formatMoney(amount.min, amount.currency)
+    : `${formatMoney(amount.min, amount.currency)}–${formatMoney(amount.max, amount.currency)}`
+  return amount.period === 'unspecified' ? value : `${value}/${amount.period}`
+}
@@ -0,0 +1,223 @@
+import { extractCountry, type ParsedUniversity } from './dataParser'
+
+export type Continent = 'Europe' | 'Asia' | 'North America' | 'South America' | 'Africa' | 'Oceania'
+
+// Regions and the country names (including common spellings) that belong to them
+const REGIONS: Array<{ name: string; continent: Continent; countries: string[] }> = [
+  {
+    name: 'Western Europe',
+    continent: 'Europe',
+    countries: ['Austria', 'Belgium', 'France', 'Germany', 'Liechtenstein', 'Luxembourg', 'Monaco', 'Netherlands', 'Switzerland']
+  },
+  {
+    name: 'Northern Europe',
+    continent: 'Europe',
+    countries: [
+      'Denmark', 'Estonia', 'Finland', 'Iceland', 'Ireland', 'Latvia', 'Lithuania', 'Norway', 'Sweden',
+      'UK', 'United Kingdom', 'England', 'Scotland', 'Wales', 'Northern Ireland'
+    ]
+  },
+  {
+    name: 'Southern Europe',
+    continent: 'Europe',
+    countries: [
+      'Albania', 'Bosnia and Herzegovina', 'Croatia', 'Cyprus', 'Greece', 'Italy', 'Malta', 'Montenegro',
+      'North Macedonia', 'Portugal', 'Serbia', 'Slovenia', 'Spain'
+    ]
+  },
+  {
+    name: 'Eastern Europe',
+    continent: 'Europe',
+    countries: [
+      'Belarus', 'Bulgaria', 'Czech Republic', 'Czechia', 'Hungary', 'Moldova', 'Poland', 'Romania', 'Russia',
+      'Slovakia', 'Ukraine'
+    ]
+  },
+  {
+    name: 'East Asia',
+    continent: 'Asia',
+    countries: ['China', 'Hong Kong', 'Japan', 'Macau', 'Mongolia', 'South Korea', 'Korea', 'Taiwan']
+  },
+  {
+    name: 'Southeast Asia',
+    continent: 'Asia',
+    countries: ['Brunei', 'Cambodia', 'Indonesia', 'Malaysia', 'Myanmar', 'Philippines', 'Singapore', 'Thailand', 'Vietnam']
+  },
+  {
+    name: 'South Asia',
+    continent: 'Asia',
+    countries: ['Bangladesh', 'India', 'Nepal', 'Pakistan', 'Sri Lanka']
+  },
+  {
+    name: 'Central Asia',
+    continent: 'Asia',
+    countries: ['Kazakhstan', 'Kyrgyzstan', 'Tajikistan', 'Turkmenistan', 'Uzbekistan']
+  },
+  {
+    name: 'Middle East',
+    continent: 'Asia',
+    countries: [
+      'Bahrain', 'Iran', 'Iraq', 'Israel', 'Jordan', 'Kuwait', 'Lebanon', 'Oman', 'Qatar', 'Saudi Arabia',
+      'Turkey', 'Türkiye', 'United Arab Emirates', 'UAE'
+    ]
+  },
+  {
+    name: 'North Africa',
+    continent: 'Africa',
+    countries: ['Algeria', 'Egypt', 'Libya', 'Morocco', 'Tunisia']
+  },
+  {
+    name: 'Sub-Saharan Africa',
+    continent: 'Africa',
+    countries: ['Botswana', 'Ethiopia', 'Ghana', 'Kenya', 'Nigeria', 'Rwanda', 'Senegal', 'South Africa', 'Tanzania', 'Uganda']
+  },
+  {
+    name: 'Northern America',
+    continent: 'North America',
+    countries: ['Canada', 'USA', 'United States', 'US']
+  },
+  {
+    name: 'Central America & Caribbean',
+    continent: 'North America',
+    countries: ['Costa Rica', 'Cuba', 'Jamaica', 'Mexico', 'Panama', 'Puerto Rico']
+  },
+  {
+    name: 'South America',
+    continent: 'South America',
+    countries: ['Argentina', 'Brazil', 'Chile', 'Colombia', 'Ecuador', 'Peru', 'Uruguay', 'Venezuela']
+  },
+  {
+    name: 'Australia & New Zealand',
+    continent: 'Oceania',
+    countries: ['Australia', 'New Zealand']
+  }
+]
+
+// Countries missing from the table above end up here
+export const OTHER_REGION = 'Other'
+
+const REGION_BY_COUNTRY = new Map(REGIONS.flatMap(region =>
+  region.countries.map(country => [country.toLowerCase(), region] as const)
+))
+
+/**
+ * Region and continent of a country name, if known
+ */
+export function locateCountry(country: string): { region: string; continent: Continent } | null {
+  const region = REGION_BY_COUNTRY.get(country.trim().toLowerCase())
+  return region ? { region: region.name, continent: region.continent } : null
+}
+
+/**
+ * Whether a "City, Country" location is in one of the named countries, regions or continents (case-insensitive)
+ */
+export function matchesLocation(cityCountry: string, locations: string[]): boolean {
+  const country = extractCountry(cityCountry)
+  if (!country) return false
+  const place = locateCountry(country)
+  const names = [country, place?.region, place?.continent]
+    .filter((name): name is string => Boolean(name))
+    .map(name => name.toLowerCase())
+  return locations.some(location => names.includes(location.trim().toLowerCase()))
+}
+
+// A continent or region with the dataset's countries in it
+export interface LocationGroup {
+  kind: 'continent' | 'region'
+  name: string
+  countries: string[]
+  count: number
+}
+
+// Continents, each with its regions, each with its countries, limited to countries in the data
+export interface LocationTree {
+  continents: Array<LocationGroup & {
+    regions: Array<LocationGroup & { countryCounts: Array<{ country: string; count: number }> }>
+  }>
+}
+
+const CONTINENT_ORDER: Array<Continent | typeof OTHER_REGION> = [
+  'Europe', 'North America', 'Asia', 'Oceania', 'South America', 'Africa', OTHER_REGION
+]
+
+/**
+ * Group the countries found in the data by continent and region, with university counts
+ */
+export function buildLocationTree(universities: ParsedUniversity[], countries: string[]): LocationTree {
+  const counts = new Map<string, number>()
+  universities.forEach(university => {
+    const country = extractCountry(university.cityCountry)
+    if (country) counts.set(country, (counts.get(country) || 0) + 1)
+  })
+
+  const continents = new Map<string, Map<string, string[]>>()
+  countries.forEach(country => {
+    const location = locateCountry(country)
+    const continent = location?.continent ?? OTHER_REGION
+    const region = location?.region ?? OTHER_REGION
+    const regions = continents.get(continent) ?? new Map<string, string[]>()
+    regions.set(region, [...(regions.get(region) || []), country])
+    continents.set(continent, regions)
+  })
+
+  const total = (names: string[]) => names.reduce((sum, country) => sum + (counts.get(country) || 0), 0)
+
+  return {
+    continents: CONTINENT_ORDER
+      .filter(continent => continents.has(continent))
+      .map(continent => {
+        const regions = Array.from((continents.get(continent) as Map<string, string[]>).entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([name, regionCountries]) => ({
+            kind: 'region' as const,
+            name,
+            countries: regionCountries,
+            count: total(regionCountries),
+            countryCounts: regionCountries.map(country => ({ country, count: counts.get(country) || 0 }))
+          }))
+        const continentCountries = regions.flatMap(region => region.countries)
+        return {
+          kind: 'continent' as const,
+          name: continent,
+          countries: continentCountries,
+          count: total(continentCountries),
+          regions
+        }
+      })
+  }
+}
+
+/**
+ * Describe a country selection by the largest whole groups it covers:
+ * all of Europe is "Europe", all of East Asia is "East Asia", anything else is listed by country
+ */
+export function summarizeCountrySelection(
+  tree: LocationTree,
+  selected: string[]
+): Array<{ kind: 'continent' | 'region' | 'country'; name: string; countries: string[] }> {
+  const chosen = new Set(selected)
+  const isCovered = (countries: string[]) => countries.length > 0 && countries.every(country => chosen.has(country))
+  const summary: Array<{ kind: 'continent' | 'region' | 'country'; name: string; countries: string[] }> = []
+  const listed = new Set<string>()
+
+  tree.continents.forEach(continent => {
+    // Name the largest group first: a whole continent, then whole regions
+    if (isCovered(continent.countries) && continent.name !== OTHER_REGION) {
+      summary.push({ kind: 'continent', name: continent.name, countries: continent.countries })
+      continent.countries.forEach(country => listed.add(country))
+      return
+    }
+    continent.regions.forEach(region => {
+      if (isCovered(region.countries) && region.name !== OTHER_REGION && region.countries.length > 1) {
+        summary.push({ kind: 'region', name: region.name, countries: region.countries })
+        region.countries.forEach(country => listed.add(country))
+      }
+    })
+  })
+
+  // Countries not covered by a whole group, including any no longer in the data
+  selected.forEach(country => {
+    if (!listed.has(country)) summary.push({ kind: 'country', name: country, countries: [country] })
+  })
+  return summary
+}
@@ -0,0 +1,175 @@
+import { universityKey } from './datasetMerger'
+import { formatCalendarDate, type CalendarEvent } from './deadlines'
+
+export interface IcsExportOptions {
+  calendarName?: string
+  // Reminders, in days before each deadline
+  alarmDays?: number[]
+  // Timestamp written to DTSTAMP (defaults to now)
+  now?: Date
+}
+
+export const DEFAULT_ALARM_DAYS = [30, 7, 1]
+
+const PRODUCT_ID = '-//University Finder//Application Deadlines//EN'
+
+// RFC 5545 limits content lines to 75 octets, excluding the line break
+const MAX_LINE_OCTETS = 75
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Number of bytes a character takes in UTF-8
+ */
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) || 0
+  if (codePoint < 0x80) return 1
+  if (codePoint < 0x800) return 2
+  if (codePoint < 0x10000) return 3
+  return 4
+}
+
+/**
+ * Fold a content line into 75-octet chunks without splitting multi-byte characters
+ */
+export function foldIcsLine(line: string): string {
+  const chunks: string[] = []
+  let current = ''
+  let currentOctets = 0
+
+  Array.from(line).forEach(char => {
+    const octets = utf8Length(char)
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (currentOctets + octets > limit) {
+      chunks.push(current)
+      current = ''
+      currentOctets = 0
+    }
+    current += char
+    currentOctets += octets
+  })
+  chunks.push(current)
+
+  return chunks.join('\r\n ')
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Format a local calendar day as a DATE value (YYYYMMDD)
+ */
+function formatIcsDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME value (YYYYMMDDTHHMMSSZ)
+ */
+function formatIcsDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+/**
+ * Lowercase ASCII words joined by hyphens, for UIDs
+ */
+function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+/**
+ * Stable UID so re-imported calendars update events instead of duplicating them: it names the university,
+ * program and round but not the date, so a moved deadline replaces the old one. Rounds of the same kind and
+ * label are told apart by their position among them
+ */
+function eventUid(event: CalendarEvent): string {
+  const program = event.program ? `-${slugify(event.program.name)}` : ''
+  const occurrence = event.roundOccurrence > 0 ? ` ${event.roundOccurrence + 1}` : ''
+  const round = event.round ? `-${slugify([event.round.kind, event.round.label].filter(Boolean).join(' ') + occurrence)}` : ''
+  return `${event.kind}-${slugify(universityKey(event.university))}${program}${round}@university-finder`
+}
+
+/**
+ * Build the VEVENT lines for one application deadline
+ */
+function buildEvent(event: CalendarEvent, dtStamp: string, alarmDays: number[]): string[] {
+  const { university, round, program } = event
+  // Month-only deadlines go on the last day of the month, the latest they can fall on
+  const day = event.monthOnly ? new Date(event.date.getFullYear(), event.date.getMonth() + 1, 0) : event.date
+  const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  const label = [program?.name, round?.label].filter(Boolean).join(', ')
+  const title = `Application deadline${label ? ` (${label})` : ''}${round?.estimated ? ' (estimated)' : ''}`
+  const description = [
+    `${title} for ${university.universityName} (${university.cityCountry}).`,
+    event.monthOnly ? `Only the month is known; the deadline may fall earlier in ${formatCalendarDate(round?.date ?? '')}.` : '',
+    event.timeZone ? `Closes at the end of the day, ${event.timeZone} time.` : '',
+    !program && university.programs.length > 0 ? `Programs: ${university.programs.map(item => item.name).join(', ')}` : '',
+    university.acceptanceCriteria ? `Criteria: ${university.acceptanceCriteria}` : '',
+    university.url
+  ].filter(Boolean).join('\n')
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(event)}`,
+    `DTSTAMP:${dtStamp}`,
+    `DTSTART;VALUE=DATE:${formatIcsDate(day)}`,
+    `DTEND;VALUE=DATE:${formatIcsDate(nextDay)}`,
+    `SUMMARY:${escapeIcsText(`${title}: ${university.universityName}`)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `LOCATION:${escapeIcsText(university.cityCountry)}`,
+    'CATEGORIES:Application Deadline',
+    'TRANSP:TRANSPARENT'
+  ]
+  if (university.url) lines.push(`URL:${university.url}`)
+
+  alarmDays.forEach(days => {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeIcsText(`${university.universityName} application due in ${days} day${days !== 1 ? 's' : ''}`)}`,
+      `TRIGGER:-P${days}D`,
+      'END:VALARM'
+    )
+  })
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Build an iCalendar file with an all-day event and reminders for every application deadline
+ */
+export function buildDeadlineCalendar(events: CalendarEvent[], options: IcsExportOptions = {}): string {
+  const dtStamp = formatIcsDateTime(options.now || new Date())
+  const alarmDays = options.alarmDays || DEFAULT_ALARM_DAYS
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(options.calendarName || 'University Application Deadlines')}`,
+    ...events
+      .filter(event => event.kind === 'deadline')
+      .flatMap(event => buildEvent(event, dtStamp, alarmDays)),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
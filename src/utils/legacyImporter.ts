@@ -0,0 +1,241 @@
+import type { RawProgram, RawRanking, RawUniversity, RawUniversityData } from './dataParser'
+import { cleanText, extractContacts, extractLinks, parseAcceptanceRate } from './dataParser'
+import { mergeCitations } from './provenance'
+
+// Column headers of the old spreadsheet export, in sheet order
+const LEGACY_COLUMNS = [
+  'Rank #',
+  'University Name',
+  'City & Country',
+  'Global / Regional Ranking (QS or THE 2024; state which)',
+  'CS-Related Master’s Programs open to international students',
+  'Program Start Date',
+  'Application Deadline (YYYY-MM-DD)',
+  'Acceptance Rate (% or “N/A”)',
+  'Key Acceptance Criteria',
+  'Scholarships / Funding Options (name, amount, link)',
+  'Primary Contact (admissions email or phone)',
+  'Official Program / University URL'
+] as const
+
+type LegacyColumn = typeof LEGACY_COLUMNS[number]
+
+// One row of universities_master_targets.json
+export type LegacyUniversityRow = Partial<Record<LegacyColumn, string | number>>
+
+export interface LegacyImportOptions {
+  generatedOn?: string
+  rankingNote?: string
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+// Matches a link that carries a `#:~:text=` fragment, which the export split at its commas
+const TEXT_FRAGMENT_LINK = /https?:\/\/\S*#:~:text=\S*$/
+
+const isMissing = (text: string) => !text || /^n\/?a$/i.test(text.trim())
+
+/**
+ * Check whether a cell can be the tail of a link split at a comma
+ */
+function isLinkContinuation(text: string): boolean {
+  return Boolean(text) && !/\s/.test(text) && !isMissing(text) && !/^\d+(?:\.\d+)?%$/.test(text) && !text.includes('@')
+}
+
+/**
+ * Detect the flat-column spreadsheet format
+ */
+export function isLegacyUniversityData(rawData: unknown): rawData is LegacyUniversityRow[] {
+  if (!Array.isArray(rawData) || rawData.length === 0) return false
+  const first = rawData[0]
+  return typeof first === 'object' && first !== null && 'Rank #' in first && 'University Name' in first
+}
+
+/**
+ * Re-join cells that the export split off from a text-fragment link.
+ * Every split pushes the remaining values one column to the right.
+ */
+function realignCells(row: LegacyUniversityRow): string[] {
+  const cells: string[] = []
+
+  LEGACY_COLUMNS.forEach(column => {
+    const value = row[column]
+    const text = value === undefined || value === null ? '' : String(value).trim()
+    const previous = cells[cells.length - 1]
+
+    // A whitespace-free cell right after a text-fragment link is the rest of that link
+    if (previous !== undefined && TEXT_FRAGMENT_LINK.test(previous) && isLinkContinuation(text)) {
+      cells[cells.length - 1] = `${previous},${text}`
+      return
+    }
+
+    cells.push(text)
+  })
+
+  return cells
+}
+
+/**
+ * Split citation links off a cell and clean the remaining text.
+ * Links are extracted first because cleaning decodes their `%20`s into spaces.
+ */
+function splitCell(cell: string): { text: string; links: string[] } {
+  const { text, links } = extractLinks(cell)
+  return { text: cleanText(text), links }
+}
+
+/**
+ * Parse "THE 2024: Top 3 in Computer Science" into a ranking system, year, position and subject,
+ * or null when the cell states no position, e.g. "Emerging university (not ranked in top list)"
+ */
+function parseRanking(text: string, sourceUrl: string | undefined): RawRanking | null {
+  const match = text.match(/^(.+?)\s+(\d{4})\s*:\s*(.*)$/)
+  const system = (match ? match[1] : text.split(':')[0]).trim()
+  const description = match ? match[3] : text
+  const position = description.match(/(#|top\s+)(\d+)/i)
+  if (!position) return null
+  const subject = description.match(/\bin\s+(.+)$/i)
+
+  return {
+    system,
+    value: parseInt(position[2], 10),
+    ...(position[1] !== '#' && { upperBound: true }),
+    ...(match && { year: parseInt(match[2], 10) }),
+    ...(subject && { scope: subject[1].trim() }),
+    ...(sourceUrl && { sourceUrl })
+  }
+}
+
+/**
+ * Split a program list separated by semicolons or commas
+ */
+function parsePrograms(text: string): RawProgram[] {
+  if (isMissing(text)) return []
+  return text
+    .split(/\s*[;,]\s*(?=[A-Z])/)
+    .map(program => program.trim())
+    .filter(Boolean)
+    .map(name => ({ name }))
+}
+
+/**
+ * Convert "Sep 2026" to the "2026-09" format used by the current dataset
+ */
+function parseProgramStart(text: string): string {
+  const monthYear = text.match(/([A-Za-z]{3})[a-z]*\.?\s+(\d{4})/)
+  if (monthYear) {
+    const month = MONTHS.indexOf(monthYear[1].toLowerCase())
+    if (month >= 0) return `${monthYear[2]}-${String(month + 1).padStart(2, '0')}`
+  }
+  const isoMonth = text.match(/(\d{4})-(\d{2})/)
+  return isoMonth ? `${isoMonth[1]}-${isoMonth[2]}` : text
+}
+
+/**
+ * Split "Name – amount" or "Name (amount)" funding entries
+ */
+function parseScholarships(text: string, links: string[]): RawUniversity['scholarships'] {
+  if (isMissing(text)) return []
+
+  return text
+    .split(/\s*;\s*/)
+    .filter(Boolean)
+    .map((entry, index) => {
+      let name = entry
+      let amount = ''
+
+      const dashed = entry.match(/^(.+?)\s+[–—-]\s+(.+)$/)
+      const bracketed = entry.match(/^(.+?)\s*\(([^)]+)\)\s*$/)
+      if (dashed) {
+        name = dashed[1]
+        amount = dashed[2]
+      } else if (bracketed) {
+        name = bracketed[1]
+        amount = bracketed[2]
+      }
+
+      return {
+        name: name.trim(),
+        amount: amount.trim(),
+        url: index === 0 ? links[0] : undefined
+      }
+    })
+}
+
+/**
+ * Convert one legacy row into the RawUniversity shape
+ */
+function convertRow(row: LegacyUniversityRow): RawUniversity {
+  const [
+    rank,
+    universityName,
+    cityCountry,
+    rankingText,
+    programsText,
+    programStartText,
+    deadlineText,
+    acceptanceText,
+    criteriaText,
+    scholarshipsText,
+    contactText,
+    urlText
+  ] = realignCells(row)
+
+  const ranking = splitCell(rankingText)
+  const deadlineCell = splitCell(deadlineText)
+  const acceptanceCell = splitCell(acceptanceText)
+  const criteria = splitCell(criteriaText)
+  const scholarships = splitCell(scholarshipsText)
+  const contact = extractContacts(splitCell(contactText).text)
+  const url = splitCell(urlText)
+
+  const acceptance = parseAcceptanceRate(acceptanceCell.text)
+  const rankingEntry = parseRanking(ranking.text, ranking.links[0])
+  // Links found in a cell back that cell's field
+  const citations = mergeCitations([], [
+    ...ranking.links.map(url => ({ url, fields: ['rankings'] })),
+    ...deadlineCell.links.map(url => ({ url, fields: ['appDeadline'] })),
+    ...acceptanceCell.links.map(url => ({ url, fields: ['acceptanceRate'] })),
+    ...criteria.links.map(url => ({ url, fields: ['acceptanceCriteria'] })),
+    ...scholarships.links.map(url => ({ url, fields: ['scholarships'] }))
+  ])
+  const rateValue = parseFloat(acceptance.rate)
+
+  return {
+    rank: Number(rank),
+    universityName: cleanText(universityName),
+    cityCountry: cleanText(cityCountry),
+    rankings: rankingEntry ? [rankingEntry] : [],
+    programs: parsePrograms(cleanText(programsText)),
+    programStart: parseProgramStart(cleanText(programStartText)),
+    // Kept as written so "Sep 2026" or "2025-12-01 (expected)" keep their precision and estimate
+    appDeadline: isMissing(deadlineCell.text) ? '' : deadlineCell.text,
+    acceptanceRate: {
+      value: isNaN(rateValue) ? null : rateValue,
+      estimated: !isNaN(rateValue) && /approx|estimat|expected/i.test(acceptanceText)
+    },
+    acceptanceCriteria: isMissing(criteria.text) ? '' : criteria.text,
+    scholarships: parseScholarships(scholarships.text, scholarships.links),
+    contact: contact.emails[0] || contact.phones[0] || (isMissing(contact.contact) ? '' : contact.contact),
+    url: url.links[0] || '',
+    citations
+  }
+}
+
+/**
+ * Import the legacy flat-column export as RawUniversityData
+ */
+export function importLegacyUniversityData(rows: LegacyUniversityRow[], options: LegacyImportOptions = {}): RawUniversityData {
+  return {
+    generatedOn: options.generatedOn || '',
+    rankingNote: options.rankingNote || 'Imported from the legacy spreadsheet export.',
+    universities: rows.map(convertRow)
+  }
+}
+
+/**
+ * Return the input unchanged unless it is in the legacy format, in which case convert it
+ */
+export function toRawUniversityData(rawData: unknown, options?: LegacyImportOptions): unknown {
+  return isLegacyUniversityData(rawData) ? importLegacyUniversityData(rawData, options) : rawData
+}
@@ -0,0 +1,150 @@
+import type { ParsedUniversity, Program, RawProgram } from './dataParser'
+import { parseAppDeadline, toRawDeadline } from './deadlines'
+import { parseFundingAmount } from './funding'
+
+export type DegreeType = 'MSc' | 'MEng' | 'MSE' | 'MTech' | 'MComp' | 'MPhil' | 'MRes' | 'MA'
+
+export const DEGREE_TYPES: DegreeType[] = ['MSc', 'MEng', 'MSE', 'MTech', 'MComp', 'MPhil', 'MRes', 'MA']
+
+export const DEGREE_LABELS: Record<DegreeType, string> = {
+  MSc: 'MSc / MS',
+  MEng: 'MEng',
+  MSE: 'MSE',
+  MTech: 'MTech',
+  MComp: 'MComp',
+  MPhil: 'MPhil',
+  MRes: 'MRes',
+  MA: 'MA'
+}
+
+// How each degree is written in program names; more specific degrees are tried first
+const DEGREE_PATTERNS: Array<[DegreeType, RegExp]> = [
+  ['MEng', /\bM\.?\s?Eng\b|Master of Engineering/i],
+  ['MSE', /\bM\.?S\.?E\.?(?=\s|$)|Master of Science in Engineering\b/i],
+  ['MTech', /\bM\.?\s?Tech\b|Master of Technology/i],
+  ['MComp', /\bM\.?\s?Comp\b|Master of Computing/i],
+  ['MPhil', /\bM\.?\s?Phil\b|Master of Philosophy/i],
+  ['MRes', /\bM\.?\s?Res\b|Master of Research/i],
+  ['MA', /\bM\.?A\.?(?=\s|$)|Master of Arts/i],
+  ['MSc', /\bM\.?\s?Sc\b|\bM\.?S\.?(?=\s|$|\()|Master of Science/i]
+]
+
+/**
+ * Check if a string names a degree type
+ */
+export function isDegreeType(value: string): value is DegreeType {
+  return (DEGREE_TYPES as string[]).includes(value)
+}
+
+/**
+ * Degree type from a program name such as "M.S. in Computer Science" or "MEng in EECS"
+ */
+export function inferDegreeType(name: string): DegreeType | null {
+  return DEGREE_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] ?? null
+}
+
+/**
+ * Parenthesized tracks in a name, e.g. "Master of Computing (Computer Science)"
+ */
+function nameSpecializations(name: string): string[] {
+  return Array.from(name.matchAll(/\(([^)]+)\)/g), match => match[1].trim()).filter(Boolean)
+}
+
+/**
+ * Parse a raw program, taking the university's start date and deadline where it has none of its own
+ */
+export function parseProgram(
+  program: RawProgram,
+  university: { programStart: string; appDeadline: ParsedUniversity['appDeadline'] }
+): Program {
+  const degreeType = program.degreeType && isDegreeType(program.degreeType) ? program.degreeType : inferDegreeType(program.name)
+
+  return {
+    name: program.name,
+    degreeType,
+    durationMonths: program.durationMonths ?? null,
+    languages: program.languages ?? [],
+    programStart: program.programStart || university.programStart,
+    appDeadline: program.appDeadline ? parseAppDeadline(program.appDeadline) : university.appDeadline,
+    overrides: [
+      ...(program.programStart ? ['programStart' as const] : []),
+      ...(program.appDeadline ? ['appDeadline' as const] : [])
+    ],
+    tuition: program.tuition ? { text: program.tuition, amount: parseFundingAmount(program.tuition) } : null,
+    specializations: program.specializations?.length ? program.specializations : nameSpecializations(program.name)
+  }
+}
+
+/**
+ * Convert a parsed program back to the raw dataset format, keeping only the dates it overrides
+ */
+export function toRawProgram(program: Program): RawProgram {
+  return {
+    name: program.name,
+    ...(program.degreeType && { degreeType: program.degreeType }),
+    ...(program.durationMonths !== null && { durationMonths: program.durationMonths }),
+    ...(program.languages.length > 0 && { languages: program.languages }),
+    ...(program.overrides.includes('programStart') && { programStart: program.programStart }),
+    ...(program.overrides.includes('appDeadline') && { appDeadline: toRawDeadline(program.appDeadline) }),
+    ...(program.tuition && { tuition: program.tuition.text }),
+    ...(program.specializations.length > 0 && { specializations: program.specializations })
+  }
+}
+
+/**
+ * Short length such as "1 year", "2 years" or "18 months"
+ */
+export function formatDuration(months: number): string {
+  if (months % 12 === 0) return `${months / 12} year${months === 12 ? '' : 's'}`
+  return `${months} months`
+}
+
+/**
+ * Searchable words for a program: its name, degree and specializations
+ */
+export function programTexts(program: Program): string[] {
+  return [program.name, ...(program.degreeType ? [DEGREE_LABELS[program.degreeType]] : []), ...program.specializations]
+}
+
+// Program-level filters; a program has to meet every one that is set
+export interface ProgramCriteria {
+  degreeTypes?: DegreeType[]
+  // Languages of instruction; programs that do not state theirs do not match
+  languages?: string[]
+}
+
+/**
+ * Whether any program-level filter is set
+ */
+export function hasProgramCriteria(criteria: ProgramCriteria): boolean {
+  return Boolean(criteria.degreeTypes?.length || criteria.languages?.length)
+}
+
+/**
+ * Check a program against the program-level filters
+ */
+export function matchesProgramCriteria(program: Program, criteria: ProgramCriteria): boolean {
+  if (criteria.degreeTypes?.length && !(program.degreeType && criteria.degreeTypes.includes(program.degreeType))) {
+    return false
+  }
+  if (criteria.languages?.length) {
+    const wanted = criteria.languages.map(language => language.toLowerCase())
+    if (!program.languages.some(language => wanted.includes(language.toLowerCase()))) return false
+  }
+  return true
+}
+
+/**
+ * Degree types offered across the universities, in DEGREE_TYPES order
+ */
+export function extractDegreeTypes(universities: ParsedUniversity[]): DegreeType[] {
+  const offered = new Set(universities.flatMap(university => university.programs.map(program => program.degreeType)))
+  return DEGREE_TYPES.filter(type => offered.has(type))
+}
+
+/**
+ * Languages of instruction stated across the universities
+ */
+export function extractLanguages(universities: ParsedUniversity[]): string[] {
+  return Array.from(new Set(universities.flatMap(university => university.programs.flatMap(program => program.languages)))).sort()
+}
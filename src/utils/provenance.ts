@@ -0,0 +1,145 @@
+import type { ParsedUniversity, RawCitation } from './dataParser'
+import { hasFieldValue, isVerifiableField, VERIFIABLE_FIELDS, type VerifiableField } from './freshness'
+
+// Fields a citation can back; the website is its own source
+export type CitedField = Exclude<VerifiableField, 'url'>
+
+export const CITED_FIELDS = VERIFIABLE_FIELDS.filter((field): field is CitedField => field !== 'url')
+
+// A source link, with the fields it backs
+export interface Citation {
+  url: string
+  // Hostname without "www.", e.g. "topuniversities.com"
+  domain: string
+  // Empty when the citation backs the record as a whole
+  fields: CitedField[]
+  note: string
+}
+
+// A link that backs one field
+export interface FieldSource {
+  url: string
+  domain: string
+  note: string
+}
+
+// Where one field's value comes from
+export interface FieldProvenance {
+  field: CitedField
+  sources: FieldSource[]
+  // Whether the value is an estimate rather than a published figure
+  estimated: boolean
+  // Whether at least one source backs the value
+  cited: boolean
+}
+
+/**
+ * Check if a string names a field a citation can back
+ */
+export function isCitedField(value: string): value is CitedField {
+  return isVerifiableField(value) && value !== 'url'
+}
+
+/**
+ * Hostname of a link without "www.", or the link itself when it cannot be read
+ */
+export function citationDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Read raw citations, joining entries for the same link so it lists every field it backs
+ */
+export function parseCitations(raw: RawCitation[]): Citation[] {
+  const byUrl = new Map<string, Citation>()
+  raw.forEach(entry => {
+    const { url, fields = [], note = '' } = typeof entry === 'string' ? { url: entry } : entry
+    const cited = fields.filter(isCitedField)
+    const existing = byUrl.get(url)
+    if (existing) {
+      existing.fields = Array.from(new Set([...existing.fields, ...cited]))
+      existing.note = existing.note || note
+    } else {
+      byUrl.set(url, { url, domain: citationDomain(url), fields: cited, note })
+    }
+  })
+  return Array.from(byUrl.values())
+}
+
+/**
+ * Raw form of a citation: the bare link when it backs no particular field and has no note
+ */
+export function toRawCitation(citation: Citation): RawCitation {
+  if (citation.fields.length === 0 && !citation.note) return citation.url
+  return {
+    url: citation.url,
+    ...(citation.fields.length > 0 && { fields: citation.fields }),
+    ...(citation.note && { note: citation.note })
+  }
+}
+
+/**
+ * Combine citation lists from several datasets: links are kept once, with the fields either list links them to
+ */
+export function mergeCitations(existing: RawCitation[], incoming: RawCitation[]): RawCitation[] {
+  return parseCitations([...existing, ...incoming]).map(toRawCitation)
+}
+
+/**
+ * Links backing one field: citations linked to it, plus the scholarship and ranking links stored with the values
+ */
+export function fieldSources(university: ParsedUniversity, field: CitedField): FieldSource[] {
+  const links: Array<{ url: string; note: string }> = university.citations
+    .filter(citation => citation.fields.includes(field))
+    .map(({ url, note }) => ({ url, note }))
+
+  if (field === 'scholarships') {
+    university.scholarships.forEach(scholarship => {
+      if (scholarship.url) links.push({ url: scholarship.url, note: scholarship.name })
+    })
+  }
+  if (field === 'rankings') {
+    university.ranking.entries.forEach(entry => {
+      if (entry.sourceUrl) links.push({ url: entry.sourceUrl, note: entry.display })
+    })
+  }
+
+  const seen = new Set<string>()
+  return links.flatMap(link => {
+    if (seen.has(link.url)) return []
+    seen.add(link.url)
+    return [{ ...link, domain: citationDomain(link.url) }]
+  })
+}
+
+/**
+ * Whether a field's value is an estimate: an estimated acceptance rate or a deadline round marked as expected
+ */
+export function isFieldEstimated(university: ParsedUniversity, field: CitedField): boolean {
+  if (field === 'acceptanceRate') return university.acceptanceRate.estimated
+  if (field === 'appDeadline') return university.appDeadline.rounds.some(round => round.estimated)
+  return false
+}
+
+/**
+ * Provenance of every field the university has a value for
+ */
+export function getProvenance(university: ParsedUniversity): Partial<Record<CitedField, FieldProvenance>> {
+  return Object.fromEntries(CITED_FIELDS
+    .filter(field => hasFieldValue(university, field))
+    .map(field => {
+      const sources = fieldSources(university, field)
+      return [field, { field, sources, estimated: isFieldEstimated(university, field), cited: sources.length > 0 }]
+    }))
+}
+
+/**
+ * Citations that back the record as a whole rather than a particular field
+ */
+export function generalCitations(university: ParsedUniversity): Citation[] {
+  return university.citations.filter(citation => citation.fields.length === 0)
+}
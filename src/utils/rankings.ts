@@ -0,0 +1,163 @@
+import type { ParsedRanking, ParsedUniversity, RawRanking } from './dataParser'
+
+// Scope of a ranking that covers the whole university rather than one subject
+export const OVERALL_SCOPE = 'overall'
+
+// Pseudo-system for viewing and sorting by the composite score
+export const COMPOSITE_RANKING = 'composite'
+
+// Systems the headline ranking is taken from, in order of preference; others follow alphabetically
+const SYSTEM_PRIORITY = ['QS', 'THE', 'ARWU', 'US News']
+
+// Spellings of the well-known systems found in sources
+const SYSTEM_ALIASES: Record<string, string> = {
+  'qs': 'QS',
+  'qs world university rankings': 'QS',
+  'the': 'THE',
+  'times higher education': 'THE',
+  'times higher education world university rankings': 'THE',
+  'arwu': 'ARWU',
+  'shanghai ranking': 'ARWU',
+  'shanghairanking': 'ARWU',
+  'academic ranking of world universities': 'ARWU',
+  'us news': 'US News',
+  'u.s. news': 'US News',
+  'us news & world report': 'US News'
+}
+
+// Subject rankings count half as much as overall ones in the composite score
+const SUBJECT_WEIGHT = 0.5
+
+// Positions at or beyond this score 0 in the composite
+const LOWEST_SCORED_POSITION = 1000
+
+/**
+ * Canonical name of a ranking system, e.g. "Times Higher Education" becomes "THE"
+ */
+export function normalizeRankingSystem(system: string): string {
+  const trimmed = system.trim().replace(/\s+/g, ' ')
+  return SYSTEM_ALIASES[trimmed.toLowerCase()] ?? trimmed
+}
+
+/**
+ * Whether a ranking covers the whole university
+ */
+export function isOverallRanking(ranking: Pick<ParsedRanking, 'scope'>): boolean {
+  return ranking.scope.toLowerCase() === OVERALL_SCOPE
+}
+
+/**
+ * Short label such as "QS #12" or "THE 2024 Top 3 · Computer Science"
+ */
+function formatRanking(ranking: Omit<ParsedRanking, 'display'>): string {
+  const year = ranking.year ? ` ${ranking.year}` : ''
+  const scope = isOverallRanking(ranking) ? '' : ` · ${ranking.scope}`
+  return `${ranking.system}${year} ${ranking.upperBound ? 'Top ' : '#'}${ranking.value}${scope}`
+}
+
+/**
+ * Order systems by SYSTEM_PRIORITY, then alphabetically
+ */
+function compareSystems(a: string, b: string): number {
+  const aPriority = SYSTEM_PRIORITY.includes(a) ? SYSTEM_PRIORITY.indexOf(a) : SYSTEM_PRIORITY.length
+  const bPriority = SYSTEM_PRIORITY.includes(b) ? SYSTEM_PRIORITY.indexOf(b) : SYSTEM_PRIORITY.length
+  return aPriority - bPriority || a.localeCompare(b)
+}
+
+/**
+ * Order rankings so that the one representing a system comes first: overall before subject, newest year first
+ */
+function compareWithinSystem(a: ParsedRanking, b: ParsedRanking): number {
+  return Number(isOverallRanking(b)) - Number(isOverallRanking(a)) || (b.year ?? 0) - (a.year ?? 0) || a.value - b.value
+}
+
+/**
+ * The ranking that stands for a system: its latest overall ranking, or its latest subject ranking
+ */
+export function findRanking(entries: ParsedRanking[], system: string): ParsedRanking | undefined {
+  return entries.filter(entry => entry.system === system).sort(compareWithinSystem)[0]
+}
+
+/**
+ * Map a position to 0–100 on a log scale: #1 scores 100, #10 about 67, #100 about 33
+ */
+export function rankingScore(position: number): number {
+  const score = 100 * (1 - Math.log10(position) / Math.log10(LOWEST_SCORED_POSITION))
+  return Math.min(100, Math.max(0, score))
+}
+
+/**
+ * Weighted average score of each system's representative ranking, or NaN without rankings
+ */
+export function compositeRankingScore(entries: ParsedRanking[]): number {
+  const systems = Array.from(new Set(entries.map(entry => entry.system)))
+  let total = 0
+  let weights = 0
+  systems.forEach(system => {
+    const ranking = findRanking(entries, system) as ParsedRanking
+    const weight = isOverallRanking(ranking) ? 1 : SUBJECT_WEIGHT
+    total += rankingScore(ranking.value) * weight
+    weights += weight
+  })
+  return weights > 0 ? Math.round(total / weights * 10) / 10 : NaN
+}
+
+/**
+ * Parse raw rankings into the model the app uses, with a headline ranking and composite score
+ */
+export function parseRankings(rankings: RawRanking[]): ParsedUniversity['ranking'] {
+  const entries = rankings
+    .map(ranking => {
+      const entry = {
+        system: normalizeRankingSystem(ranking.system),
+        value: ranking.value,
+        year: ranking.year ?? null,
+        scope: ranking.scope?.trim() || OVERALL_SCOPE,
+        upperBound: ranking.upperBound === true,
+        ...(ranking.sourceUrl && { sourceUrl: ranking.sourceUrl })
+      }
+      return { ...entry, display: formatRanking(entry) }
+    })
+    .sort((a, b) => compareSystems(a.system, b.system) || compareWithinSystem(a, b))
+
+  const headline = entries.find(entry => isOverallRanking(entry)) ?? entries[0]
+  return {
+    system: headline?.system ?? '',
+    value: headline?.value ?? NaN,
+    display: headline?.display ?? 'Not ranked',
+    entries,
+    composite: compositeRankingScore(entries)
+  }
+}
+
+/**
+ * Ranking systems used across the universities, headline systems first
+ */
+export function extractRankingSystems(universities: ParsedUniversity[]): string[] {
+  const systems = new Set(universities.flatMap(university => university.ranking.entries.map(entry => entry.system)))
+  return Array.from(systems).sort(compareSystems)
+}
+
+/**
+ * Identity of a ranking: the same system, year and scope describe the same list
+ */
+function rankingKey(ranking: RawRanking): string {
+  return [normalizeRankingSystem(ranking.system), ranking.year ?? '', (ranking.scope || OVERALL_SCOPE).toLowerCase()].join('|')
+}
+
+/**
+ * Add rankings from another source, keeping existing entries for the same system, year and scope
+ */
+export function mergeRankings(existing: RawRanking[], incoming: RawRanking[]): RawRanking[] {
+  const seen = new Set(existing.map(rankingKey))
+  return [...existing, ...incoming.filter(ranking => !seen.has(rankingKey(ranking)))]
+}
+
+/**
+ * Position in a system for sorting and filtering; the composite score is turned around so lower is better
+ */
+export function rankingPosition(ranking: ParsedUniversity['ranking'], system: string | null): number {
+  if (system === null) return isNaN(ranking.value) ? Infinity : ranking.value
+  if (system === COMPOSITE_RANKING) return isNaN(ranking.composite) ? Infinity : -ranking.composite
+  return findRanking(ranking.entries, system)?.value ?? Infinity
+}
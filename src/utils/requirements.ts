@@ -0,0 +1,184 @@
+export type GreRequirement = 'required' | 'recommended' | 'optional' | 'not-required' | 'not-accepted'
+
+export type EnglishTest = 'TOEFL' | 'IELTS' | 'Duolingo' | 'PTE'
+
+export type RequiredDocument = 'recommendation-letters' | 'motivation-letter' | 'research-statement' | 'portfolio' | 'cv'
+
+// Admission requirements read from the free-text acceptance criteria; null and empty mean not stated
+export interface AdmissionRequirements {
+  // Minimum grade on the scale it was given in, e.g. 3.0 of 4 or 7 of 10
+  minGpa: { value: number; scale: number } | null
+  gre: GreRequirement | null
+  // English tests named in the criteria, with the minimum score when one is given
+  englishTests: Array<{ test: EnglishTest; minScore: number | null }>
+  // Background the previous degree has to be in
+  degree: {
+    // e.g. "Computer Science", "Engineering"
+    fields: string[]
+    // "or related" / "or equivalent" widens the fields
+    relatedAccepted: boolean
+    anyDiscipline: boolean
+    // UK-style classification such as "2:1"
+    classification: string | null
+  }
+  documents: RequiredDocument[]
+}
+
+export const GRE_LABELS: Record<GreRequirement, string> = {
+  'required': 'GRE required',
+  'recommended': 'GRE recommended',
+  'optional': 'GRE optional',
+  'not-required': 'GRE not required',
+  'not-accepted': 'GRE not accepted'
+}
+
+export const DOCUMENT_LABELS: Record<RequiredDocument, string> = {
+  'recommendation-letters': 'Recommendation letters',
+  'motivation-letter': 'Motivation letter',
+  'research-statement': 'Research statement',
+  'portfolio': 'Portfolio',
+  'cv': 'CV'
+}
+
+export const ENGLISH_TESTS: EnglishTest[] = ['IELTS', 'TOEFL', 'Duolingo', 'PTE']
+
+// Grading scales to assume when only a grade is given, smallest first
+const GPA_SCALES = [4, 5, 10, 20, 30, 100, 110]
+
+// How each English test is written in the data
+const ENGLISH_TEST_PATTERNS: Record<EnglishTest, string> = {
+  TOEFL: 'TOEFL(?:\\s*iBT)?',
+  IELTS: 'IELTS',
+  Duolingo: 'Duolingo(?:\\s*English\\s*Test)?|DET',
+  PTE: 'PTE(?:\\s*Academic)?'
+}
+
+const DOCUMENT_PATTERNS: Array<[RequiredDocument, RegExp]> = [
+  ['recommendation-letters', /recommendation|reference letters?|referees?\b/i],
+  ['motivation-letter', /motivation letter|letter of motivation|statement of purpose|personal statement/i],
+  ['research-statement', /research (statement|proposal)/i],
+  ['portfolio', /portfolio/i],
+  ['cv', /\bCV\b|curriculum vitae|résumé|resume/i]
+]
+
+// Abbreviated degree fields and their full names
+const FIELD_NAMES: Record<string, string> = {
+  'cs': 'Computer Science',
+  'computer science': 'Computer Science',
+  'computing': 'Computing',
+  'it': 'Information Technology',
+  'ee': 'Electrical Engineering',
+  'engineering': 'Engineering',
+  'mathematics': 'Mathematics',
+  'math': 'Mathematics',
+  'quantitative': 'Quantitative subjects'
+}
+
+const RELATED_PATTERN = /\b(related|equivalent|relevant)\b/i
+
+/**
+ * Smallest usual grading scale a grade fits on
+ */
+function inferGpaScale(value: number): number {
+  return GPA_SCALES.find(scale => value <= scale) ?? value
+}
+
+/**
+ * Read "GPA ≥3.0", "minimum GPA ~3.0", "GPA of at least 3.0", "GPA ≥7/10" or "GPA ≥85/110"
+ */
+function parseMinGpa(text: string): AdmissionRequirements['minGpa'] {
+  const match = text.match(/\bGPA\b[^\d;,.]{0,20}?(\d+(?:\.\d+)?)(?:\s*\/\s*(\d+))?/i)
+  if (!match) return null
+  const value = parseFloat(match[1])
+  const scale = match[2] ? parseInt(match[2], 10) : inferGpaScale(value)
+  return value > 0 && value <= scale ? { value, scale } : null
+}
+
+/**
+ * English tests named in the text, with the lowest score in "IELTS ≥6.5", "IELTS 7.0", "IELTS 6.0–6.5" or "TOEFL iBT ≥90"
+ */
+function parseEnglishTests(text: string): AdmissionRequirements['englishTests'] {
+  return ENGLISH_TESTS.flatMap(test => {
+    const pattern = ENGLISH_TEST_PATTERNS[test]
+    if (!new RegExp(`\\b(?:${pattern})\\b`, 'i').test(text)) return []
+    const score = text.match(new RegExp(`\\b(?:${pattern})\\b\\s*(?:≥|>=|of|minimum|min\\.?)?\\s*(\\d+(?:\\.\\d+)?)`, 'i'))
+    return [{ test, minScore: score ? parseFloat(score[1]) : null }]
+  })
+}
+
+/**
+ * How the GRE is treated: "GRE not required", "GRE optional", "GRE recommended" or just "GRE"
+ */
+function parseGre(text: string): GreRequirement | null {
+  const match = text.match(/\bGRE\b([^;,.]*)/i)
+  if (!match) return null
+  const note = match[1].toLowerCase()
+  if (/not accepted|not considered/.test(note)) return 'not-accepted'
+  if (/not required|not needed|waived/.test(note)) return 'not-required'
+  if (/optional/.test(note)) return 'optional'
+  if (/recommended|preferred/.test(note)) return 'recommended'
+  // "GRE and English tests if needed" is conditional; treat it like a recommendation
+  if (/if needed|may be/.test(note)) return 'recommended'
+  return 'required'
+}
+
+/**
+ * Degree background from "Bachelor's degree in CS or related", "honours in Computing" or "any discipline"
+ */
+function parseDegree(text: string): AdmissionRequirements['degree'] {
+  const classification = /\b2:1\b|upper second/i.test(text)
+    ? '2:1'
+    : /first[-\s]class/i.test(text) ? 'First-class' : null
+
+  // The clause after "degree in" / "bachelor's (2:1) in" / "honours in", or a "strong X background", up to the next separator
+  const clause = text.match(/\b(?:degree|bachelor[’']?s|honours)\b[^;,]*?\bin\s+([^;,(]+)/i)?.[1] ??
+    text.match(/\bstrong\s+([^;,]+?)\s+background/i)?.[1] ?? ''
+  const fields = clause
+    .replace(/\bwith\b.*$/i, '')
+    .split(/\/|\bor\b|\band\b/i)
+    .map(part => part.trim().replace(/\s+(field|fields|background)$/i, ''))
+    .filter(part => part && !RELATED_PATTERN.test(part))
+    .map(part => FIELD_NAMES[part.toLowerCase()] ?? part.charAt(0).toUpperCase() + part.slice(1))
+
+  return {
+    fields: Array.from(new Set(fields)),
+    relatedAccepted: RELATED_PATTERN.test(clause),
+    anyDiscipline: /any discipline/i.test(text),
+    classification
+  }
+}
+
+/**
+ * Parse the requirements stated in an acceptance criteria text
+ */
+export function parseRequirements(criteria: string): AdmissionRequirements {
+  return {
+    minGpa: parseMinGpa(criteria),
+    gre: parseGre(criteria),
+    englishTests: parseEnglishTests(criteria),
+    degree: parseDegree(criteria),
+    documents: DOCUMENT_PATTERNS.filter(([, pattern]) => pattern.test(criteria)).map(([document]) => document)
+  }
+}
+
+/**
+ * Stated minimum score for an English test, or null when the test is not named or has no minimum
+ */
+export function minEnglishScore(requirements: AdmissionRequirements, test: EnglishTest): number | null {
+  return requirements.englishTests.find(entry => entry.test === test)?.minScore ?? null
+}
+
+/**
+ * Whether applicants can skip the GRE; criteria that do not mention it count as not requiring it
+ */
+export function isGreOptional(requirements: AdmissionRequirements): boolean {
+  return requirements.gre !== 'required'
+}
+
+/**
+ * Minimum GPA on a 4-point scale, for comparing across grading systems
+ */
+export function minGpaOnFourPointScale(requirements: AdmissionRequirements): number | null {
+  const { minGpa } = requirements
+  return minGpa ? Math.round(minGpa.value / minGpa.scale * 4 * 100) / 100 : null
+}
@@ -0,0 +1,249 @@
+import type { ParsedUniversity } from './dataParser'
+import { programTexts } from './programs'
+
+// Fields that are searched, and how much a match in each counts
+export const SEARCH_FIELD_WEIGHTS = {
+  universityName: 10,
+  cityCountry: 7,
+  programs: 5,
+  ranking: 4,
+  scholarships: 3,
+  acceptanceCriteria: 2
+} as const
+
+export type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS
+
+const SEARCH_FIELDS = Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]
+
+// How well a query term matched an indexed token
+type MatchKind = 'exact' | 'prefix' | 'fuzzy'
+
+const MATCH_QUALITY: Record<MatchKind, number> = {
+  exact: 1,
+  prefix: 0.8,
+  fuzzy: 0.6
+}
+
+// Query terms shorter than this only match exactly
+const MIN_PREFIX_LENGTH = 2
+
+// Query terms shorter than this are not fuzzy-matched against the start of longer words
+const MIN_FUZZY_PREFIX_LENGTH = 5
+
+// Bonus for a query that appears verbatim (after normalization) in the name
+const PHRASE_BONUS = 5
+
+// A university's normalized tokens per field
+interface IndexedDocument {
+  university: ParsedUniversity
+  fields: Record<SearchField, Set<string>>
+  // Name tokens joined by single spaces, for phrase matches
+  namePhrase: string
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[]
+  // Every distinct token, for matching query terms once per search
+  vocabulary: string[]
+}
+
+export interface SearchResult {
+  university: ParsedUniversity
+  score: number
+}
+
+/**
+ * Lowercase and strip accents so "Zürich" and "zurich" compare equal
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/æ/g, 'ae')
+    .replace(/ø/g, 'o')
+}
+
+/**
+ * Split text into words with their positions in the original string
+ */
+function tokenizeWithOffsets(text: string): Array<{ token: string; start: number; end: number }> {
+  const pattern = /[\p{L}\p{N}]+/gu
+  const tokens: Array<{ token: string; start: number; end: number }> = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ token: normalizeText(match[0]), start: match.index, end: match.index + match[0].length })
+  }
+  return tokens
+}
+
+/**
+ * Split text into normalized words
+ */
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map(({ token }) => token).filter(Boolean)
+}
+
+/**
+ * Number of typos tolerated for a query term of this length
+ */
+function allowedDistance(length: number): number {
+  if (length <= 3) return 0
+  if (length <= 7) return 1
+  return 2
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up early once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previousPrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    previousPrevious = previous
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Classify how a query term matches a token, if at all
+ */
+function matchTerm(term: string, token: string): MatchKind | null {
+  if (term === token) return 'exact'
+  if (term.length >= MIN_PREFIX_LENGTH && token.startsWith(term)) return 'prefix'
+
+  const maxDistance = allowedDistance(term.length)
+  if (maxDistance === 0) return null
+  if (editDistance(term, token, maxDistance) <= maxDistance) return 'fuzzy'
+
+  // Also allow typos in a partly typed word by comparing against the start of the token
+  if (term.length >= MIN_FUZZY_PREFIX_LENGTH && token.length > term.length) {
+    if (editDistance(term, token.slice(0, term.length), maxDistance) <= maxDistance) return 'fuzzy'
+  }
+  return null
+}
+
+/**
+ * Text of each searchable field
+ */
+export function fieldTexts(university: ParsedUniversity): Record<SearchField, string[]> {
+  return {
+    universityName: [university.universityName],
+    cityCountry: [university.cityCountry],
+    programs: university.programs.flatMap(programTexts),
+    ranking: university.ranking.entries.map(entry => entry.display),
+    scholarships: university.scholarships.flatMap(scholarship => [scholarship.name, scholarship.amount]),
+    acceptanceCriteria: [university.acceptanceCriteria]
+  }
+}
+
+/**
+ * Build a search index over the universities
+ */
+export function buildSearchIndex(universities: ParsedUniversity[]): SearchIndex {
+  const vocabulary = new Set<string>()
+
+  const documents = universities.map(university => {
+    const texts = fieldTexts(university)
+    const fields = {} as Record<SearchField, Set<string>>
+
+    SEARCH_FIELDS.forEach(field => {
+      const tokens = new Set(texts[field].flatMap(text => tokenize(text || '')))
+      tokens.forEach(token => vocabulary.add(token))
+      fields[field] = tokens
+    })
+
+    return { university, fields, namePhrase: tokenize(university.universityName).join(' ') }
+  })
+
+  return { documents, vocabulary: Array.from(vocabulary) }
+}
+
+const indexCache = new WeakMap<ParsedUniversity[], SearchIndex>()
+
+/**
+ * Search index for a list of universities, built once per list
+ */
+export function getSearchIndex(universities: ParsedUniversity[]): SearchIndex {
+  let index = indexCache.get(universities)
+  if (!index) {
+    index = buildSearchIndex(universities)
+    indexCache.set(universities, index)
+  }
+  return index
+}
+
+/**
+ * Find universities matching every query term, best match first.
+ * A term's score is the best field weight times match quality over the fields it matches.
+ */
+export function searchUniversities(index: SearchIndex, query: string): SearchResult[] {
+  const terms = Array.from(new Set(tokenize(query)))
+  if (terms.length === 0) return index.documents.map(({ university }) => ({ university, score: 0 }))
+
+  // Match each term against the vocabulary once
+  const termMatches = terms.map(term => {
+    const matches = new Map<string, number>()
+    index.vocabulary.forEach(token => {
+      const kind = matchTerm(term, token)
+      if (kind) matches.set(token, MATCH_QUALITY[kind])
+    })
+    return matches
+  })
+
+  const queryPhrase = tokenize(query).join(' ')
+  const results: SearchResult[] = []
+
+  index.documents.forEach(document => {
+    let score = 0
+
+    for (const matches of termMatches) {
+      let termScore = 0
+      SEARCH_FIELDS.forEach(field => {
+        document.fields[field].forEach(token => {
+          const quality = matches.get(token)
+          if (quality) termScore = Math.max(termScore, quality * SEARCH_FIELD_WEIGHTS[field])
+        })
+      })
+      // Every term has to match somewhere
+      if (termScore === 0) return
+      score += termScore
+    }
+
+    if (document.namePhrase.includes(queryPhrase)) score += PHRASE_BONUS
+    results.push({ university: document.university, score })
+  })
+
+  return results.sort((a, b) => b.score - a.score || a.university.rank - b.university.rank)
+}
+
+/**
+ * Character ranges in `text` of words that match the query, for highlighting
+ */
+export function findMatchRanges(text: string, query: string): Array<[number, number]> {
+  const terms = Array.from(new Set(tokenize(query)))
+  if (!text || terms.length === 0) return []
+
+  return tokenizeWithOffsets(text)
+    .filter(({ token }) => terms.some(term => matchTerm(term, token)))
+    .map(({ start, end }) => [start, end])
+}
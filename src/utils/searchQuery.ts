@@ -0,0 +1,562 @@
+import type { ParsedUniversity, Program } from './dataParser'
+import { getDeadlineState, parseCalendarDate } from './deadlines'
+import { DEGREE_LABELS, programTexts } from './programs'
+import { findRanking } from './rankings'
+import { GRE_LABELS, minEnglishScore, minGpaOnFourPointScale } from './requirements'
+import { fieldTexts, getSearchIndex, searchUniversities, tokenize } from './searchIndex'
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '='
+
+// Parsed search box query
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  // Free text (field is null) or a text qualifier such as country:germany
+  | { type: 'text'; field: TextQualifier | null; value: string; phrase: boolean }
+  // A numeric or date qualifier such as acceptance:>20; `period` is the inclusive range the value covers
+  | { type: 'compare'; field: ComparisonQualifier; operator: ComparisonOperator; raw: string; period: [number, number] }
+
+export interface QueryError {
+  message: string
+  // Character offset in the query where the problem was found
+  position: number
+}
+
+export type ParsedSearchQuery = { query: QueryNode | null } | { error: QueryError }
+
+// What a query is checked against: a university and one of its programs
+interface SearchTarget {
+  university: ParsedUniversity
+  program: Program
+}
+
+// Qualifiers that match words in a text field
+const TEXT_QUALIFIERS = {
+  name: { label: 'Name', texts: ({ university }: SearchTarget) => [university.universityName] },
+  country: { label: 'Country', texts: ({ university }: SearchTarget) => [university.cityCountry] },
+  city: { label: 'City', texts: ({ university }: SearchTarget) => [university.cityCountry] },
+  program: { label: 'Program', texts: ({ program }: SearchTarget) => programTexts(program) },
+  degree: {
+    label: 'Degree',
+    texts: ({ program }: SearchTarget) => program.degreeType ? [program.degreeType, DEGREE_LABELS[program.degreeType]] : []
+  },
+  language: { label: 'Language', texts: ({ program }: SearchTarget) => program.languages },
+  scholarship: {
+    label: 'Scholarship',
+    texts: ({ university }: SearchTarget) => university.scholarships.flatMap(scholarship => [scholarship.name, scholarship.amount])
+  },
+  criteria: { label: 'Criteria', texts: ({ university }: SearchTarget) => [university.acceptanceCriteria] },
+  // Criteria that do not mention the GRE read as "not mentioned", so gre:optional does not match them
+  gre: {
+    label: 'GRE',
+    texts: ({ university }: SearchTarget) => [university.requirements.gre ? GRE_LABELS[university.requirements.gre] : 'GRE not mentioned']
+  }
+}
+
+export type TextQualifier = keyof typeof TEXT_QUALIFIERS
+
+/**
+ * Day number of a local calendar date, so dates compare as integers
+ */
+function dayNumber(date: Date): number {
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000
+}
+
+/**
+ * Day numbers of the first and last day a date or month covers
+ */
+function dayRange({ date, monthOnly }: { date: Date; monthOnly: boolean }): [number, number] {
+  const lastDay = monthOnly ? new Date(date.getFullYear(), date.getMonth() + 1, 0) : date
+  return [dayNumber(date), dayNumber(lastDay)]
+}
+
+/**
+ * Position in one ranking system, or null when the university is not ranked by it
+ */
+function systemPosition(university: ParsedUniversity, system: string): number | null {
+  return findRanking(university.ranking.entries, system)?.value ?? null
+}
+
+// Qualifiers that compare a number (or a date, as a day number); null values never match
+const COMPARISON_QUALIFIERS = {
+  acceptance: {
+    label: 'Acceptance',
+    kind: 'number',
+    unit: '%',
+    value: ({ university }: SearchTarget) => isNaN(university.acceptanceRate.value) ? null : university.acceptanceRate.value
+  },
+  rank: { label: 'Rank', kind: 'number', unit: '', value: ({ university }: SearchTarget) => university.rank },
+  ranking: {
+    label: 'Ranking',
+    kind: 'number',
+    unit: '',
+    value: ({ university }: SearchTarget) => isNaN(university.ranking.value) ? null : university.ranking.value
+  },
+  qs: { label: 'QS', kind: 'number', unit: '', value: ({ university }: SearchTarget) => systemPosition(university, 'QS') },
+  the: { label: 'THE', kind: 'number', unit: '', value: ({ university }: SearchTarget) => systemPosition(university, 'THE') },
+  arwu: { label: 'ARWU', kind: 'number', unit: '', value: ({ university }: SearchTarget) => systemPosition(university, 'ARWU') },
+  composite: {
+    label: 'Composite',
+    kind: 'number',
+    unit: '',
+    value: ({ university }: SearchTarget) => isNaN(university.ranking.composite) ? null : university.ranking.composite
+  },
+  ielts: {
+    label: 'IELTS',
+    kind: 'number',
+    unit: '',
+    value: ({ university }: SearchTarget) => minEnglishScore(university.requirements, 'IELTS')
+  },
+  toefl: {
+    label: 'TOEFL',
+    kind: 'number',
+    unit: '',
+    value: ({ university }: SearchTarget) => minEnglishScore(university.requirements, 'TOEFL')
+  },
+  // Minimum GPA converted to a 4-point scale
+  gpa: { label: 'GPA', kind: 'number', unit: '', value: ({ university }: SearchTarget) => minGpaOnFourPointScale(university.requirements) },
+  deadline: {
+    label: 'Deadline',
+    kind: 'date',
+    unit: '',
+    // Last day of the next round to close (or of the last round); month-only rounds close at the end of the month
+    value: ({ program }: SearchTarget) => {
+      const state = getDeadlineState(program.appDeadline)
+      const round = state && parseCalendarDate(state.round.date)
+      return round ? dayRange(round)[1] : null
+    }
+  }
+} as const
+
+export type ComparisonQualifier = keyof typeof COMPARISON_QUALIFIERS
+
+export const QUERY_QUALIFIERS = [...Object.keys(TEXT_QUALIFIERS), ...Object.keys(COMPARISON_QUALIFIERS)]
+
+// Qualifiers that describe a single program; together they have to hold for the same program
+const PROGRAM_QUALIFIERS: Array<TextQualifier | ComparisonQualifier> = ['program', 'degree', 'language', 'deadline']
+
+function isTextQualifier(name: string): name is TextQualifier {
+  return Object.prototype.hasOwnProperty.call(TEXT_QUALIFIERS, name)
+}
+
+function isComparisonQualifier(name: string): name is ComparisonQualifier {
+  return Object.prototype.hasOwnProperty.call(COMPARISON_QUALIFIERS, name)
+}
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message)
+  }
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; start: number }
+  | { kind: 'term'; field: string | null; value: string; quoted: boolean; start: number }
+
+const OPERATOR_WORDS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' }
+
+/**
+ * Read a quoted phrase starting at the opening quote
+ */
+function readPhrase(query: string, start: number): { value: string; end: number } {
+  const close = query.indexOf('"', start + 1)
+  if (close === -1) throw new QuerySyntaxError('Missing closing quote', start)
+  return { value: query.slice(start + 1, close), end: close + 1 }
+}
+
+/**
+ * Split a query into parentheses, operators and (possibly qualified) terms
+ */
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+
+  while (position < query.length) {
+    const char = query[position]
+    if (/\s/.test(char)) {
+      position++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start: position })
+      position++
+    } else if (char === '"') {
+      const { value, end } = readPhrase(query, position)
+      tokens.push({ kind: 'term', field: null, value, quoted: true, start: position })
+      position = end
+    } else {
+      const start = position
+      while (position < query.length && !/[\s()"]/.test(query[position])) position++
+      const word = query.slice(start, position)
+
+      const qualified = word.match(/^([a-z]+):(.*)$/i)
+      if (OPERATOR_WORDS[word]) {
+        tokens.push({ kind: OPERATOR_WORDS[word], start })
+      } else if (qualified) {
+        const field = qualified[1].toLowerCase()
+        let value = qualified[2]
+        let quoted = false
+        // program:"machine learning" and acceptance:>"20" both put the quote right after the colon or operator
+        if (query[position] === '"' && /^[<>=]*$/.test(value)) {
+          const phrase = readPhrase(query, position)
+          value += phrase.value
+          quoted = true
+          position = phrase.end
+        }
+        tokens.push({ kind: 'term', field, value, quoted, start })
+      } else {
+        tokens.push({ kind: 'term', field: null, value: word, quoted: false, start })
+      }
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Inclusive range a comparison value covers: a single number, or every day of a date or month
+ */
+function parseComparisonValue(field: ComparisonQualifier, raw: string, position: number): [number, number] {
+  if (COMPARISON_QUALIFIERS[field].kind === 'date') {
+    const parsed = /^\d{4}-\d{2}(-\d{2})?$/.test(raw) ? parseCalendarDate(raw) : null
+    if (!parsed) throw new QuerySyntaxError(`"${field}" needs a date like 2026-01-15 or 2026-01 (got "${raw}")`, position)
+    return dayRange(parsed)
+  }
+
+  const value = Number(raw.replace(/%$/, ''))
+  if (raw.trim() === '' || !Number.isFinite(value)) {
+    throw new QuerySyntaxError(`"${field}" needs a number (got "${raw}")`, position)
+  }
+  return [value, value]
+}
+
+/**
+ * Turn a term token into a text or comparison node
+ */
+function termNode(token: Extract<Token, { kind: 'term' }>): QueryNode {
+  const { field, value, quoted, start } = token
+  if (field === null) return { type: 'text', field: null, value, phrase: quoted }
+
+  const valueStart = start + field.length + 1
+  if (isTextQualifier(field)) {
+    if (/^[<>]/.test(value)) {
+      throw new QuerySyntaxError(`"${field}" is a text field and cannot be compared with < or >`, valueStart)
+    }
+    if (!value.trim()) throw new QuerySyntaxError(`Missing value after "${field}:"`, valueStart)
+    return { type: 'text', field, value, phrase: quoted }
+  }
+
+  if (isComparisonQualifier(field)) {
+    const match = value.match(/^(<=|>=|<|>|=)?(.*)$/) as RegExpMatchArray
+    const operator = (match[1] || '=') as ComparisonOperator
+    const raw = match[2]
+    if (!raw) throw new QuerySyntaxError(`Missing value after "${field}:${match[1] || ''}"`, valueStart)
+    return { type: 'compare', field, operator, raw, period: parseComparisonValue(field, raw, valueStart + (match[1] || '').length) }
+  }
+
+  throw new QuerySyntaxError(`Unknown field "${field}". Fields: ${QUERY_QUALIFIERS.join(', ')}`, start)
+}
+
+/**
+ * Recursive descent parser. Precedence from loosest: OR, AND (also implied between terms), NOT.
+ */
+function parseTokens(tokens: Token[], queryLength: number): QueryNode {
+  let index = 0
+  const peek = () => tokens[index]
+  const positionOf = (token: Token | undefined) => token ? token.start : queryLength
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()]
+    while (peek()?.kind === 'or') {
+      index++
+      children.push(parseAnd())
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children }
+  }
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseNot()]
+    for (let token = peek(); token && token.kind !== 'or' && token.kind !== 'rparen'; token = peek()) {
+      if (token.kind === 'and') index++
+      children.push(parseNot())
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children }
+  }
+
+  const parseNot = (): QueryNode => {
+    if (peek()?.kind === 'not') {
+      index++
+      return { type: 'not', child: parseNot() }
+    }
+    return parsePrimary()
+  }
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek()
+    if (!token) throw new QuerySyntaxError('Query ends where a search term was expected', queryLength)
+
+    switch (token.kind) {
+      case 'lparen': {
+        index++
+        if (peek()?.kind === 'rparen') throw new QuerySyntaxError('Empty parentheses', token.start)
+        const node = parseOr()
+        if (peek()?.kind !== 'rparen') throw new QuerySyntaxError('Missing closing parenthesis', positionOf(peek()))
+        index++
+        return node
+      }
+      case 'term':
+        index++
+        return termNode(token)
+      case 'rparen':
+        throw new QuerySyntaxError('Unexpected ")"', token.start)
+      default:
+        throw new QuerySyntaxError(`Expected a search term before ${token.kind.toUpperCase()}`, token.start)
+    }
+  }
+
+  const node = parseOr()
+  if (index < tokens.length) {
+    const token = tokens[index]
+    throw new QuerySyntaxError(token.kind === 'rparen' ? 'Unexpected ")"' : 'Unexpected input', token.start)
+  }
+  return node
+}
+
+/**
+ * Parse the search box syntax:
+ * words, "quoted phrases", field:value, field:"a phrase", field:>n (<, <=, >, >=, =), AND, OR, NOT and parentheses
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  try {
+    const tokens = tokenizeQuery(query)
+    return { query: tokens.length > 0 ? parseTokens(tokens, query.length) : null }
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return { error: { message: error.message, position: error.position } }
+    throw error
+  }
+}
+
+/**
+ * Whether some text contains the phrase as whole words (the last word may be a prefix)
+ */
+function containsPhrase(texts: string[], phrase: string): boolean {
+  const needle = tokenize(phrase).join(' ')
+  if (!needle) return true
+  return texts.some(text => ` ${tokenize(text || '').join(' ')} `.includes(` ${needle}`))
+}
+
+function compare(value: number, operator: ComparisonOperator, [low, high]: [number, number]): boolean {
+  switch (operator) {
+    case '<':
+      return value < low
+    case '<=':
+      return value <= high
+    case '>':
+      return value > high
+    case '>=':
+      return value >= low
+    case '=':
+      return value >= low && value <= high
+  }
+}
+
+/**
+ * Free-text words outside NOT; these are what the results are ranked and highlighted by
+ */
+export function positiveSearchText(node: QueryNode | null): string {
+  if (!node) return ''
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.map(positiveSearchText).filter(Boolean).join(' ')
+    case 'not':
+    case 'compare':
+      return ''
+    case 'text':
+      return node.value
+  }
+}
+
+/**
+ * The free text of a search box query, or nothing when it does not parse
+ */
+export function searchQueryText(query: string): string {
+  const parsed = parseSearchQuery(query)
+  return 'query' in parsed ? positiveSearchText(parsed.query) : ''
+}
+
+/**
+ * Whether the query says anything about programs, so that it has to be checked program by program
+ */
+export function usesProgramQualifiers(node: QueryNode | null): boolean {
+  if (!node) return false
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.some(usesProgramQualifiers)
+    case 'not':
+      return usesProgramQualifiers(node.child)
+    case 'text':
+    case 'compare':
+      return node.field !== null && PROGRAM_QUALIFIERS.includes(node.field)
+  }
+}
+
+/**
+ * Programs a query is checked against; a university without listed programs counts as one unnamed program on its own dates
+ */
+function programCandidates(university: ParsedUniversity): Program[] {
+  if (university.programs.length > 0) return university.programs
+  return [{
+    name: '',
+    degreeType: null,
+    durationMonths: null,
+    languages: [],
+    programStart: university.programStart,
+    appDeadline: university.appDeadline,
+    overrides: [],
+    tuition: null,
+    specializations: []
+  }]
+}
+
+/**
+ * Check universities, or single programs of them, against a query.
+ * Free words use the fuzzy index over `universities` and are looked up once each.
+ */
+function createQueryMatcher(universities: ParsedUniversity[]): (target: SearchTarget, node: QueryNode) => boolean {
+  const index = getSearchIndex(universities)
+
+  // Free words use the fuzzy index; look each one up once
+  const wordMatches = new Map<string, Set<ParsedUniversity>>()
+  const matchesWord = (university: ParsedUniversity, word: string) => {
+    let matches = wordMatches.get(word)
+    if (!matches) {
+      matches = new Set(searchUniversities(index, word).map(result => result.university))
+      wordMatches.set(word, matches)
+    }
+    return matches.has(university)
+  }
+
+  const matches = (target: SearchTarget, current: QueryNode): boolean => {
+    switch (current.type) {
+      case 'and':
+        return current.children.every(child => matches(target, child))
+      case 'or':
+        return current.children.some(child => matches(target, child))
+      case 'not':
+        return !matches(target, current.child)
+      case 'text':
+        if (current.field) return containsPhrase(TEXT_QUALIFIERS[current.field].texts(target), current.value)
+        if (current.phrase) return containsPhrase(Object.values(fieldTexts(target.university)).flat(), current.value)
+        return matchesWord(target.university, current.value)
+      case 'compare': {
+        const value = COMPARISON_QUALIFIERS[current.field].value(target)
+        return value !== null && compare(value, current.operator, current.period)
+      }
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Universities matching the query, best free-text match first.
+ * With program qualifiers, a university matches when one of its programs meets all of them.
+ */
+export function applySearchQuery(universities: ParsedUniversity[], node: QueryNode): ParsedUniversity[] {
+  const index = getSearchIndex(universities)
+  const matches = createQueryMatcher(universities)
+  const byProgram = usesProgramQualifiers(node)
+
+  const filtered = universities.filter(university => {
+    const programs = programCandidates(university)
+    return (byProgram ? programs : programs.slice(0, 1)).some(program => matches({ university, program }, node))
+  })
+
+  // Rank by relevance to the free text; universities that only matched through OR or qualifiers follow
+  const scores = new Map(searchUniversities(index, positiveSearchText(node)).map(result => [result.university, result.score]))
+  return filtered
+    .map((university, order) => ({ university, order, score: scores.get(university) ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ university }) => university)
+}
+
+/**
+ * The listed programs of each university that match the query on their own
+ */
+export function matchQueryPrograms(universities: ParsedUniversity[], node: QueryNode): Map<ParsedUniversity, Program[]> {
+  const matches = createQueryMatcher(universities)
+  return new Map(universities.map(university => [
+    university,
+    university.programs.filter(program => matches({ university, program }, node))
+  ]))
+}
+
+/**
+ * Write a node back as query text
+ */
+export function formatSearchQuery(node: QueryNode, parent?: QueryNode['type']): string {
+  switch (node.type) {
+    case 'and': {
+      const text = node.children.map(child => formatSearchQuery(child, 'and')).join(' ')
+      return parent === 'not' ? `(${text})` : text
+    }
+    case 'or': {
+      const text = node.children.map(child => formatSearchQuery(child, 'or')).join(' OR ')
+      return parent ? `(${text})` : text
+    }
+    case 'not':
+      return `NOT ${formatSearchQuery(node.child, 'not')}`
+    case 'text': {
+      const value = node.phrase ? `"${node.value}"` : node.value
+      return node.field ? `${node.field}:${value}` : value
+    }
+    case 'compare':
+      return `${node.field}:${node.operator === '=' ? '' : node.operator}${node.raw}`
+  }
+}
+
+// A top-level condition of the query, as shown in a filter chip
+export interface QueryClause {
+  label: string
+  value: string
+  kind: 'text' | 'field' | 'compare' | 'not' | 'or'
+}
+
+/**
+ * Conditions that all have to hold: the children of a top-level AND, or the query itself
+ */
+export function queryClauses(node: QueryNode | null): QueryNode[] {
+  if (!node) return []
+  return node.type === 'and' ? node.children : [node]
+}
+
+/**
+ * Chip label and value for a clause
+ */
+export function describeClause(node: QueryNode): QueryClause {
+  switch (node.type) {
+    case 'text':
+      return node.field
+        ? { label: TEXT_QUALIFIERS[node.field].label, value: node.value, kind: 'field' }
+        : { label: 'Search', value: `"${node.value}"`, kind: 'text' }
+    case 'compare': {
+      const { label, unit } = COMPARISON_QUALIFIERS[node.field]
+      const operator = node.operator === '=' ? '' : `${node.operator.replace('<=', '≤').replace('>=', '≥')} `
+      return { label, value: `${operator}${node.raw.replace(/%$/, '')}${unit}`, kind: 'compare' }
+    }
+    case 'not':
+      return { label: 'Not', value: formatSearchQuery(node.child), kind: 'not' }
+    default:
+      return { label: 'Any of', value: formatSearchQuery(node), kind: 'or' }
+  }
+}
+
+/**
+ * The query without one of its top-level clauses
+ */
+export function removeQueryClause(node: QueryNode | null, clauseIndex: number): string {
+  const remaining = queryClauses(node).filter((_, i) => i !== clauseIndex)
+  if (remaining.length === 0) return ''
+  return formatSearchQuery(remaining.length === 1 ? remaining[0] : { type: 'and', children: remaining })
+}
@@ -0,0 +1,133 @@
+import { readStorage, writeStorage } from './browserStorage'
+import type { ParsedUniversity } from './dataParser'
+import { universityKey } from './datasetMerger'
+
+export type ApplicationStatus = 'considering' | 'preparing' | 'submitted' | 'admitted' | 'rejected' | 'declined'
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'considering',
+  'preparing',
+  'submitted',
+  'admitted',
+  'rejected',
+  'declined'
+]
+
+// A starred university with the user's own notes
+export interface ShortlistEntry {
+  // Name and location are kept so entries stay readable if the dataset drops the university
+  universityName: string
+  cityCountry: string
+  status: ApplicationStatus
+  notes: string
+  tags: string[]
+  addedAt: string
+  updatedAt: string
+}
+
+// Entries keyed by `universityKey`, which survives rank renumbering between datasets
+export type Shortlist = Record<string, ShortlistEntry>
+
+export const SHORTLIST_STORAGE_KEY = 'university-finder:shortlist'
+
+const STORAGE_VERSION = 1
+
+/**
+ * Stable identity of a university for the shortlist
+ */
+export function shortlistKey(university: Pick<ParsedUniversity, 'universityName' | 'cityCountry'>): string {
+  return universityKey(university)
+}
+
+/**
+ * Start a shortlist entry for a university
+ */
+export function createShortlistEntry(university: Pick<ParsedUniversity, 'universityName' | 'cityCountry'>): ShortlistEntry {
+  const now = new Date().toISOString()
+  return {
+    universityName: university.universityName,
+    cityCountry: university.cityCountry,
+    status: 'considering',
+    notes: '',
+    tags: [],
+    addedAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * Return a copy of the shortlist without one entry
+ */
+export function withoutEntry(shortlist: Shortlist, key: string): Shortlist {
+  const next = { ...shortlist }
+  delete next[key]
+  return next
+}
+
+/**
+ * Trim a tag and collapse inner whitespace
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Check a stored entry, dropping anything that does not look like one
+ */
+function readEntry(value: unknown): ShortlistEntry | null {
+  if (typeof value !== 'object' || value === null) return null
+  const entry = value as Partial<ShortlistEntry>
+  if (typeof entry.universityName !== 'string' || typeof entry.cityCountry !== 'string') return null
+
+  return {
+    universityName: entry.universityName,
+    cityCountry: entry.cityCountry,
+    status: entry.status && APPLICATION_STATUSES.includes(entry.status) ? entry.status : 'considering',
+    notes: typeof entry.notes === 'string' ? entry.notes : '',
+    tags: Array.isArray(entry.tags) ? entry.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    addedAt: typeof entry.addedAt === 'string' ? entry.addedAt : '',
+    updatedAt: typeof entry.updatedAt === 'string' ? entry.updatedAt : ''
+  }
+}
+
+/**
+ * Parse a stored shortlist, returning an empty one when it is missing or corrupt
+ */
+export function parseShortlist(stored: string | null): Shortlist {
+  if (!stored) return {}
+
+  try {
+    const parsed = JSON.parse(stored)
+    if (parsed?.version !== STORAGE_VERSION || typeof parsed.entries !== 'object' || parsed.entries === null) return {}
+
+    const shortlist: Shortlist = {}
+    Object.entries(parsed.entries as Record<string, unknown>).forEach(([key, value]) => {
+      const entry = readEntry(value)
+      if (entry) shortlist[key] = entry
+    })
+    return shortlist
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Serialize a shortlist for storage
+ */
+export function serializeShortlist(shortlist: Shortlist): string {
+  return JSON.stringify({ version: STORAGE_VERSION, entries: shortlist })
+}
+
+/**
+ * Read the shortlist from browser storage
+ */
+export function loadShortlist(storage: Storage): Shortlist {
+  return parseShortlist(readStorage(storage, SHORTLIST_STORAGE_KEY))
+}
+
+/**
+ * Write the shortlist to browser storage
+ */
+export function saveShortlist(storage: Storage, shortlist: Shortlist) {
+  writeStorage(storage, SHORTLIST_STORAGE_KEY, serializeShortlist(shortlist), 'shortlist')
+}
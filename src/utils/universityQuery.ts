@@ -0,0 +1,469 @@
+import type { ParsedUniversity, Program } from './dataParser'
+import { applySearchQuery, matchQueryPrograms, parseSearchQuery, usesProgramQualifiers } from './searchQuery'
+import { matchesLocation } from './geography'
+import { DISPLAY_CURRENCIES, isSupportedCurrency } from './currency'
+import { findRanking, rankingPosition } from './rankings'
+import { bestFundingTier, FUNDING_TIERS, fundingValue, maxMonthlyStipend, type MonthlyStipend } from './funding'
+import type { FitProfile, FitResult } from './fitScore'
+import { checkEligibility } from './eligibility'
+import { isGreOptional, minEnglishScore } from './requirements'
+import { deadlineSortValue, isDeadlineOpen } from './deadlines'
+import { DEGREE_TYPES, hasProgramCriteria, isDegreeType, matchesProgramCriteria, type ProgramCriteria } from './programs'
+
+// Fields that can be shown as table columns and sorted on (provenance is metadata, and requirements show in the criteria column)
+export type UniversityColumn = Exclude<keyof ParsedUniversity, 'sources' | 'requirements' | 'lastVerified'>
+
+// Columns plus search relevance, which keeps the best search matches first, and the user's fit score
+export type SortColumn = UniversityColumn | 'relevance' | 'fit'
+
+export type SortDirection = 'asc' | 'desc' | null
+
+export interface SortConfig {
+  column: SortColumn
+  direction: SortDirection
+}
+
+// The criteria SearchFilters applies; unset criteria do not filter.
+// Program criteria (degree types, languages) have to hold for the same program.
+export interface FilterCriteria extends ProgramCriteria {
+  searchTerm?: string
+  // Country, region or continent names; a university in any of them matches
+  countries?: string[]
+  rankingRange?: [number, number]
+  // Highest allowed position per ranking system, e.g. { QS: 50 }; unranked universities do not match
+  rankingSystemMax?: Record<string, number>
+  acceptanceRateRange?: [number, number]
+  // Only universities with at least one fully funded scholarship
+  fullFunding?: boolean
+  // Only universities paying at least this much per month, converting other currencies
+  minMonthlyStipend?: MonthlyStipend
+  // Only universities that do not require the GRE (not mentioning it counts as not requiring it)
+  greOptional?: boolean
+  // Only universities whose stated IELTS / TOEFL minimum is at most this; those without a stated minimum do not match
+  maxIelts?: number
+  maxToefl?: number
+  // Only universities still taking applications: a round of their own or of one of their programs has not closed,
+  // or admissions roll without an end date
+  openDeadline?: boolean
+  // Hide universities this profile clearly does not meet the requirements of; borderline and unknown cases stay
+  eligibleFor?: FitProfile
+}
+
+export const UNIVERSITY_COLUMNS: UniversityColumn[] = [
+  'rank',
+  'universityName',
+  'cityCountry',
+  'ranking',
+  'programs',
+  'programStart',
+  'appDeadline',
+  'acceptanceRate',
+  'acceptanceCriteria',
+  'scholarships',
+  'contact',
+  'url',
+  'imageUrl',
+  'citations'
+]
+
+export const DEFAULT_SORT: SortConfig = { column: 'rank', direction: 'asc' }
+
+export const RELEVANCE_SORT: SortConfig = { column: 'relevance', direction: 'desc' }
+
+/**
+ * Check if a string names a sortable column
+ */
+export function isUniversityColumn(value: string): value is UniversityColumn {
+  return (UNIVERSITY_COLUMNS as string[]).includes(value)
+}
+
+/**
+ * Check if a string names a sort order: a column, relevance or fit
+ */
+export function isSortColumn(value: string): value is SortColumn {
+  return value === 'relevance' || value === 'fit' || isUniversityColumn(value)
+}
+
+/**
+ * Apply search, country, ranking and acceptance rate criteria.
+ * With a search query, results come back best match first; a query that does not parse is ignored.
+ */
+export function filterUniversities(universities: ParsedUniversity[], criteria: FilterCriteria): ParsedUniversity[] {
+  let filtered = universities
+
+  // Search query: fuzzy words, phrases, field qualifiers and boolean operators
+  if (criteria.searchTerm?.trim()) {
+    const parsed = parseSearchQuery(criteria.searchTerm)
+    if ('query' in parsed && parsed.query) filtered = applySearchQuery(universities, parsed.query)
+  }
+
+  // Country filter
+  if (criteria.countries && criteria.countries.length > 0) {
+    const countries = criteria.countries
+    filtered = filtered.filter(uni => matchesLocation(uni.cityCountry, countries))
+  }
+
+  // Ranking range filter
+  if (criteria.rankingRange) {
+    const [minRank, maxRank] = criteria.rankingRange
+    filtered = filtered.filter(uni => uni.rank >= minRank && uni.rank <= maxRank)
+  }
+
+  // Ranking system filters
+  if (criteria.rankingSystemMax) {
+    Object.entries(criteria.rankingSystemMax).forEach(([system, max]) => {
+      filtered = filtered.filter(uni => {
+        const ranking = findRanking(uni.ranking.entries, system)
+        return ranking !== undefined && ranking.value <= max
+      })
+    })
+  }
+
+  // Acceptance rate filter
+  if (criteria.acceptanceRateRange) {
+    const [minRate, maxRate] = criteria.acceptanceRateRange
+    filtered = filtered.filter(uni => {
+      const rate = uni.acceptanceRate.value
+      return rate >= minRate && rate <= maxRate
+    })
+  }
+
+  // Funding filters
+  if (criteria.fullFunding) {
+    filtered = filtered.filter(uni => uni.scholarships.some(scholarship => scholarship.funding.tier === 'full'))
+  }
+
+  if (criteria.minMonthlyStipend) {
+    const { amount, currency } = criteria.minMonthlyStipend
+    filtered = filtered.filter(uni => (maxMonthlyStipend(uni.scholarships, currency) ?? -Infinity) >= amount)
+  }
+
+  // Requirement filters
+  if (criteria.greOptional) {
+    filtered = filtered.filter(uni => isGreOptional(uni.requirements))
+  }
+
+  if (criteria.maxIelts !== undefined) {
+    const maxIelts = criteria.maxIelts
+    filtered = filtered.filter(uni => (minEnglishScore(uni.requirements, 'IELTS') ?? Infinity) <= maxIelts)
+  }
+
+  if (criteria.maxToefl !== undefined) {
+    const maxToefl = criteria.maxToefl
+    filtered = filtered.filter(uni => (minEnglishScore(uni.requirements, 'TOEFL') ?? Infinity) <= maxToefl)
+  }
+
+  if (criteria.eligibleFor) {
+    const profile = criteria.eligibleFor
+    filtered = filtered.filter(uni => checkEligibility(uni.requirements, profile).status !== 'not-eligible')
+  }
+
+  // Deadline filter
+  if (criteria.openDeadline) {
+    const now = new Date()
+    filtered = filtered.filter(uni =>
+      isDeadlineOpen(uni.appDeadline, now) || uni.programs.some(program => isDeadlineOpen(program.appDeadline, now))
+    )
+  }
+
+  // Program filters
+  if (hasProgramCriteria(criteria)) {
+    filtered = filtered.filter(uni => uni.programs.some(program => matchesProgramCriteria(program, criteria)))
+  }
+
+  return filtered
+}
+
+/**
+ * Programs of each university that meet the program filters and the search query's program qualifiers,
+ * or null when no criterion is about programs
+ */
+export function matchPrograms(universities: ParsedUniversity[], criteria: FilterCriteria): Map<ParsedUniversity, Program[]> | null {
+  const parsed = criteria.searchTerm?.trim() ? parseSearchQuery(criteria.searchTerm) : null
+  const query = parsed && 'query' in parsed && usesProgramQualifiers(parsed.query) ? parsed.query : null
+  if (!query && !hasProgramCriteria(criteria)) return null
+
+  const queryMatches = query ? matchQueryPrograms(universities, query) : null
+  return new Map(universities.map(university => [
+    university,
+    (queryMatches?.get(university) ?? university.programs).filter(program => matchesProgramCriteria(program, criteria))
+  ]))
+}
+
+/**
+ * Text of one item of a list column: a program or scholarship by its name, a citation by its domain as shown
+ */
+function listItemText(item: unknown): string {
+  if (typeof item === 'object' && item !== null && 'name' in item) return String(item.name)
+  if (typeof item === 'object' && item !== null && 'domain' in item) return String(item.domain)
+  return String(item ?? '')
+}
+
+/**
+ * Reduce a cell value to a lowercase string for alphabetical sorting
+ */
+function sortableText(value: unknown): string {
+  // Lists sort by their items' names, e.g. programs by the first program's name
+  if (Array.isArray(value)) return value.map(listItemText).join(', ').toLowerCase()
+  if (typeof value === 'object' && value !== null) {
+    if ('text' in value) return String(value.text || '').toLowerCase()
+    if ('date' in value) return String(value.date || '').toLowerCase()
+    if ('contact' in value) return String(value.contact || '').toLowerCase()
+    return String(value).toLowerCase()
+  }
+  return String(value || '').toLowerCase()
+}
+
+/**
+ * Sort universities by a column, returning a new array.
+ * Relevance keeps the order filterUniversities returned; the ranking column sorts by the
+ * headline ranking, one system (`rankingSystem`) or the composite score. Fit needs `fitScores`
+ * and keeps the order without them.
+ */
+export function sortUniversities(
+  universities: ParsedUniversity[],
+  sortConfig: SortConfig,
+  rankingSystem: string | null = null,
+  fitScores: Map<ParsedUniversity, FitResult> | null = null
+): ParsedUniversity[] {
+  const { column, direction } = sortConfig
+  if (!direction || column === 'relevance') return universities
+  if (column === 'fit' && !fitScores) return universities
+
+  const now = new Date()
+  return [...universities].sort((a, b) => {
+    // Handle fit sorting; universities that could not be scored go last either way
+    if (column === 'fit') {
+      const aFit = fitScores?.get(a)?.score ?? NaN
+      const bFit = fitScores?.get(b)?.score ?? NaN
+      if (isNaN(aFit) || isNaN(bFit)) return Number(isNaN(aFit)) - Number(isNaN(bFit))
+      return direction === 'asc' ? aFit - bFit : bFit - aFit
+    }
+
+    const aValue = a[column]
+    const bValue = b[column]
+
+    // Handle numeric sorting for rank
+    if (column === 'rank') {
+      const aNum = typeof aValue === 'number' ? aValue : parseInt(String(aValue)) || 0
+      const bNum = typeof bValue === 'number' ? bValue : parseInt(String(bValue)) || 0
+      return direction === 'asc' ? aNum - bNum : bNum - aNum
+    }
+
+    // Handle acceptance rate sorting
+    if (column === 'acceptanceRate') {
+      const aAcceptanceRate = aValue as ParsedUniversity['acceptanceRate']
+      const bAcceptanceRate = bValue as ParsedUniversity['acceptanceRate']
+      const aRate = aAcceptanceRate?.value || 999
+      const bRate = bAcceptanceRate?.value || 999
+      return direction === 'asc' ? aRate - bRate : bRate - aRate
+    }
+
+    // Handle ranking sorting; unranked universities go last either way
+    if (column === 'ranking') {
+      const aRank = rankingPosition(a.ranking, rankingSystem)
+      const bRank = rankingPosition(b.ranking, rankingSystem)
+      if (aRank === bRank) return 0
+      if (aRank === Infinity) return 1
+      if (bRank === Infinity) return -1
+      return direction === 'asc' ? aRank - bRank : bRank - aRank
+    }
+
+    // Handle deadline sorting by the next round to close; rolling admissions without an end date come after
+    // every date, and deadlines that were not announced go last either way
+    if (column === 'appDeadline') {
+      const aTime = deadlineSortValue(a.appDeadline, now)
+      const bTime = deadlineSortValue(b.appDeadline, now)
+      if (isNaN(aTime) || isNaN(bTime)) return Number(isNaN(aTime)) - Number(isNaN(bTime))
+      if (aTime === bTime) return 0
+      return (aTime < bTime ? -1 : 1) * (direction === 'asc' ? 1 : -1)
+    }
+
+    // Handle funding sorting: best tier first when ascending, then the largest converted amount
+    if (column === 'scholarships') {
+      const tierOrder = FUNDING_TIERS.indexOf(bestFundingTier(a.scholarships)) - FUNDING_TIERS.indexOf(bestFundingTier(b.scholarships))
+      const order = tierOrder || fundingValue(b.scholarships) - fundingValue(a.scholarships)
+      return direction === 'asc' ? order : -order
+    }
+
+    // Handle object-based columns
+    const aStr = sortableText(aValue)
+    const bStr = sortableText(bValue)
+
+    if (aStr < bStr) return direction === 'asc' ? -1 : 1
+    if (aStr > bStr) return direction === 'asc' ? 1 : -1
+    return 0
+  })
+}
+
+/**
+ * Return one page of results (pages are 1-based)
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): T[] {
+  const startIndex = (page - 1) * pageSize
+  return items.slice(startIndex, startIndex + pageSize)
+}
+
+// Filtering, sorting and paging parameters accepted by the universities API
+export interface UniversityQuery {
+  criteria: FilterCriteria
+  sort: SortConfig
+  // Ranking system the ranking column sorts by; null for the headline ranking
+  rankingSystem: string | null
+  page: number
+  pageSize: number
+}
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * Parse an optional numeric query parameter
+ */
+function parseNumberParam(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name)
+  if (raw === null || raw.trim() === '') return undefined
+  const value = Number(raw)
+  if (!Number.isFinite(value)) throw new Error(`"${name}" must be a number (got "${raw}")`)
+  return value
+}
+
+/**
+ * Parse an optional comma-separated list parameter
+ */
+function parseListParam(params: URLSearchParams, name: string): string[] | undefined {
+  const values = (params.get(name) || '').split(',').map(value => value.trim()).filter(Boolean)
+  return values.length > 0 ? values : undefined
+}
+
+/**
+ * Parse "QS:50,THE:100" into the highest allowed position per ranking system
+ */
+export function parseRankingLimits(text: string): Record<string, number> | undefined {
+  const limits: Record<string, number> = {}
+  for (const item of text.split(',').map(value => value.trim()).filter(Boolean)) {
+    const separator = item.lastIndexOf(':')
+    const system = item.slice(0, separator).trim()
+    const max = Number(item.slice(separator + 1))
+    if (separator <= 0 || !system || !Number.isInteger(max) || max < 1) {
+      throw new Error(`"rankingMax" entries must look like QS:50 (got "${item}")`)
+    }
+    limits[system] = max
+  }
+  return Object.keys(limits).length > 0 ? limits : undefined
+}
+
+/**
+ * Write ranking limits in the "QS:50,THE:100" form parseRankingLimits reads
+ */
+export function formatRankingLimits(limits: Record<string, number>): string {
+  return Object.entries(limits).map(([system, max]) => `${system}:${max}`).join(',')
+}
+
+/**
+ * Build a [min, max] range from two optional bounds
+ */
+function parseRangeParams(params: URLSearchParams, minName: string, maxName: string): [number, number] | undefined {
+  const min = parseNumberParam(params, minName)
+  const max = parseNumberParam(params, maxName)
+  if (min === undefined && max === undefined) return undefined
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error(`"${minName}" must not be greater than "${maxName}"`)
+  }
+  return [min ?? -Infinity, max ?? Infinity]
+}
+
+/**
+ * Parse API query parameters:
+ * q, country, rankMin, rankMax, rankingMax, acceptanceMin, acceptanceMax, funding, stipendMin, stipendCurrency,
+ * gre, ieltsMax, toeflMax, degree, language, deadline, sort, order, rankingSystem, page, pageSize
+ */
+export function parseUniversityQuery(params: URLSearchParams): { query: UniversityQuery } | { error: string } {
+  try {
+    const sortColumn = params.get('sort') || DEFAULT_SORT.column
+    if (!isSortColumn(sortColumn)) {
+      throw new Error(`"sort" must be relevance or one of ${UNIVERSITY_COLUMNS.join(', ')}`)
+    }
+    if (sortColumn === 'fit') {
+      throw new Error('"sort=fit" needs a personal profile and is only available in the app')
+    }
+
+    const order = params.get('order') || (sortColumn === 'relevance' ? RELEVANCE_SORT.direction : 'asc')
+    if (order !== 'asc' && order !== 'desc') {
+      throw new Error('"order" must be "asc" or "desc"')
+    }
+
+    const searchTerm = params.get('q')?.trim() || undefined
+    const parsedSearch = searchTerm ? parseSearchQuery(searchTerm) : null
+    if (parsedSearch && 'error' in parsedSearch) {
+      throw new Error(`"q" is not a valid query: ${parsedSearch.error.message} (at character ${parsedSearch.error.position + 1})`)
+    }
+
+    const funding = params.get('funding')
+    if (funding !== null && funding !== 'full') {
+      throw new Error('"funding" must be "full"')
+    }
+
+    const stipendMin = parseNumberParam(params, 'stipendMin')
+    const stipendCurrency = params.get('stipendCurrency')?.trim().toUpperCase()
+    if (stipendMin !== undefined && !stipendCurrency) {
+      throw new Error('"stipendMin" needs a "stipendCurrency", e.g. EUR')
+    }
+    if (stipendCurrency && !isSupportedCurrency(stipendCurrency)) {
+      throw new Error(`"stipendCurrency" must be one of ${DISPLAY_CURRENCIES.join(', ')}`)
+    }
+
+    const gre = params.get('gre')
+    if (gre !== null && gre !== 'not-required') {
+      throw new Error('"gre" must be "not-required"')
+    }
+
+    const deadline = params.get('deadline')
+    if (deadline !== null && deadline !== 'open') {
+      throw new Error('"deadline" must be "open"')
+    }
+
+    const degreeTypes = parseListParam(params, 'degree')
+    const unknownDegree = degreeTypes?.find(type => !isDegreeType(type))
+    if (unknownDegree) {
+      throw new Error(`"degree" entries must be one of ${DEGREE_TYPES.join(', ')} (got "${unknownDegree}")`)
+    }
+
+    const page = parseNumberParam(params, 'page') ?? 1
+    const pageSize = parseNumberParam(params, 'pageSize') ?? DEFAULT_PAGE_SIZE
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error('"page" must be a positive integer')
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new Error(`"pageSize" must be an integer between 1 and ${MAX_PAGE_SIZE}`)
+    }
+
+    return {
+      query: {
+        criteria: {
+          searchTerm,
+          countries: parseListParam(params, 'country'),
+          rankingRange: parseRangeParams(params, 'rankMin', 'rankMax'),
+          rankingSystemMax: parseRankingLimits(params.get('rankingMax') || ''),
+          acceptanceRateRange: parseRangeParams(params, 'acceptanceMin', 'acceptanceMax'),
+          fullFunding: funding === 'full' || undefined,
+          minMonthlyStipend: stipendMin !== undefined && stipendCurrency
+            ? { amount: stipendMin, currency: stipendCurrency }
+            : undefined,
+          greOptional: gre === 'not-required' || undefined,
+          maxIelts: parseNumberParam(params, 'ieltsMax'),
+          maxToefl: parseNumberParam(params, 'toeflMax'),
+          openDeadline: deadline === 'open' || undefined,
+          degreeTypes: degreeTypes?.filter(isDegreeType),
+          languages: parseListParam(params, 'language')
+        },
+        sort: { column: sortColumn, direction: order },
+        rankingSystem: params.get('rankingSystem')?.trim() || null,
+        page,
+        pageSize
+      }
+    }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) }
+  }
+}
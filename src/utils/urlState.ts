@@ -0,0 +1,245 @@
+import {
+  DEFAULT_SORT,
+  formatRankingLimits,
+  isSortColumn,
+  isUniversityColumn,
+  parseRankingLimits,
+  type SortConfig,
+  type UniversityColumn
+} from './universityQuery'
+import { MAX_COMPARE } from './comparison'
+import type { MonthlyStipend } from './funding'
+import { DEFAULT_DISPLAY_CURRENCY, isSupportedCurrency } from './currency'
+import { isDegreeType, type DegreeType } from './programs'
+
+export type FinderTab = 'table' | 'analytics' | 'calendar' | 'compare' | 'shortlist'
+
+// Everything SearchFilters controls; null ranges mean "full range"
+export interface FilterState {
+  searchTerm: string
+  // Country names; choosing a region or continent selects all of its countries
+  selectedCountries: string[]
+  rankingRange: [number, number] | null
+  // Highest allowed position per ranking system, e.g. { QS: 50 }
+  rankingSystemMax: Record<string, number>
+  acceptanceRateRange: [number, number] | null
+  fullFundingOnly: boolean
+  minMonthlyStipend: MonthlyStipend | null
+  greOptional: boolean
+  // Highest acceptable stated IELTS / TOEFL minimum
+  maxIelts: number | null
+  maxToefl: number | null
+  // Hide universities the personal profile is clearly not eligible for
+  hideIneligible: boolean
+  // Only universities still taking applications
+  openDeadlinesOnly: boolean
+  // Only universities with a program of one of these degree types, taught in one of these languages
+  degreeTypes: DegreeType[]
+  languages: string[]
+  showAdvancedFilters: boolean
+}
+
+// Everything DataTable controls; null columns mean "all columns"
+export interface TableState {
+  sortConfig: SortConfig
+  currentPage: number
+  visibleColumns: UniversityColumn[] | null
+  // What the ranking column shows and sorts by: a system, the composite score, or null for the headline ranking
+  rankingSystem: string | null
+}
+
+// The complete shareable view
+export interface ViewState {
+  filters: FilterState
+  table: TableState
+  activeTab: FinderTab
+  // `universityKey`s of the universities picked for comparison
+  comparison: string[]
+  // Currency scholarship amounts are converted to for display
+  currency: string
+}
+
+const FINDER_TABS: FinderTab[] = ['table', 'analytics', 'calendar', 'compare', 'shortlist']
+
+export const DEFAULT_FILTER_STATE: FilterState = {
+  searchTerm: '',
+  selectedCountries: [],
+  rankingRange: null,
+  rankingSystemMax: {},
+  acceptanceRateRange: null,
+  fullFundingOnly: false,
+  minMonthlyStipend: null,
+  greOptional: false,
+  maxIelts: null,
+  maxToefl: null,
+  hideIneligible: false,
+  openDeadlinesOnly: false,
+  degreeTypes: [],
+  languages: [],
+  showAdvancedFilters: false
+}
+
+export const DEFAULT_TABLE_STATE: TableState = {
+  sortConfig: DEFAULT_SORT,
+  currentPage: 1,
+  visibleColumns: null,
+  rankingSystem: null
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  filters: DEFAULT_FILTER_STATE,
+  table: DEFAULT_TABLE_STATE,
+  activeTab: 'table',
+  comparison: [],
+  currency: DEFAULT_DISPLAY_CURRENCY
+}
+
+/**
+ * Read a range from two bound parameters; a missing bound is open-ended, a malformed one drops the range
+ */
+function parseRange(params: URLSearchParams, minName: string, maxName: string): [number, number] | null {
+  const rawMin = params.get(minName)
+  const rawMax = params.get(maxName)
+  if (!rawMin && !rawMax) return null
+
+  const min = rawMin ? Number(rawMin) : -Infinity
+  const max = rawMax ? Number(rawMax) : Infinity
+  if (isNaN(min) || isNaN(max) || min > max) return null
+  return [min, max]
+}
+
+/**
+ * Read ranking limits, dropping them all when malformed
+ */
+function readRankingLimits(text: string): Record<string, number> {
+  try {
+    return parseRankingLimits(text) ?? {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Read a positive number parameter, or null when missing or malformed
+ */
+function readPositiveNumber(params: URLSearchParams, name: string): number | null {
+  const value = Number(params.get(name))
+  return params.get(name) && Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * Read a comma-separated list parameter without duplicates
+ */
+function readList(params: URLSearchParams, name: string): string[] {
+  const value = params.get(name)
+  return value ? Array.from(new Set(value.split(',').map(item => item.trim()).filter(Boolean))) : []
+}
+
+/**
+ * Write a range as two bound parameters, skipping open-ended bounds
+ */
+function setRange(params: URLSearchParams, range: [number, number] | null, minName: string, maxName: string) {
+  if (!range) return
+  if (Number.isFinite(range[0])) params.set(minName, String(range[0]))
+  if (Number.isFinite(range[1])) params.set(maxName, String(range[1]))
+}
+
+/**
+ * Encode a view as query parameters, leaving out anything at its default.
+ * Filter and sort parameters use the same names as the universities API.
+ */
+export function viewStateToSearchParams(state: ViewState): URLSearchParams {
+  const params = new URLSearchParams()
+  const { filters, table } = state
+
+  if (filters.searchTerm) params.set('q', filters.searchTerm)
+  if (filters.selectedCountries.length > 0) params.set('country', filters.selectedCountries.join(','))
+  setRange(params, filters.rankingRange, 'rankMin', 'rankMax')
+  if (Object.keys(filters.rankingSystemMax).length > 0) params.set('rankingMax', formatRankingLimits(filters.rankingSystemMax))
+  setRange(params, filters.acceptanceRateRange, 'acceptanceMin', 'acceptanceMax')
+  if (filters.fullFundingOnly) params.set('funding', 'full')
+  if (filters.minMonthlyStipend) {
+    params.set('stipendMin', String(filters.minMonthlyStipend.amount))
+    params.set('stipendCurrency', filters.minMonthlyStipend.currency)
+  }
+  if (filters.greOptional) params.set('gre', 'not-required')
+  if (filters.maxIelts !== null) params.set('ieltsMax', String(filters.maxIelts))
+  if (filters.maxToefl !== null) params.set('toeflMax', String(filters.maxToefl))
+  if (filters.hideIneligible) params.set('eligible', '1')
+  if (filters.openDeadlinesOnly) params.set('deadline', 'open')
+  if (filters.degreeTypes.length > 0) params.set('degree', filters.degreeTypes.join(','))
+  if (filters.languages.length > 0) params.set('language', filters.languages.join(','))
+  if (filters.showAdvancedFilters) params.set('advanced', '1')
+
+  if (table.sortConfig.direction && (
+    table.sortConfig.column !== DEFAULT_SORT.column || table.sortConfig.direction !== DEFAULT_SORT.direction
+  )) {
+    params.set('sort', table.sortConfig.column)
+    params.set('order', table.sortConfig.direction)
+  }
+  if (table.currentPage > 1) params.set('page', String(table.currentPage))
+  if (table.visibleColumns) params.set('columns', table.visibleColumns.join(','))
+  if (table.rankingSystem) params.set('rankingSystem', table.rankingSystem)
+
+  if (state.activeTab !== DEFAULT_VIEW_STATE.activeTab) params.set('tab', state.activeTab)
+  // Keys only contain letters, digits, spaces and "|", so commas are safe separators
+  if (state.comparison.length > 0) params.set('compare', state.comparison.join(','))
+  if (state.currency !== DEFAULT_VIEW_STATE.currency) params.set('currency', state.currency)
+
+  return params
+}
+
+/**
+ * Decode a view from query parameters, falling back to defaults for anything invalid
+ */
+export function viewStateFromSearchParams(params: URLSearchParams): ViewState {
+  const sortColumn = params.get('sort')
+  const order = params.get('order')
+  const page = Number(params.get('page'))
+  const columns = params.get('columns')
+  const tab = params.get('tab') as FinderTab | null
+  const comparison = params.get('compare')
+  const countries = params.get('country')
+  const stipendMin = Number(params.get('stipendMin'))
+  const stipendCurrency = params.get('stipendCurrency')?.trim().toUpperCase()
+  const currency = params.get('currency')?.trim().toUpperCase()
+
+  return {
+    filters: {
+      searchTerm: params.get('q') || '',
+      selectedCountries: countries
+        ? Array.from(new Set(countries.split(',').map(country => country.trim()).filter(Boolean)))
+        : [],
+      rankingRange: parseRange(params, 'rankMin', 'rankMax'),
+      rankingSystemMax: readRankingLimits(params.get('rankingMax') || ''),
+      acceptanceRateRange: parseRange(params, 'acceptanceMin', 'acceptanceMax'),
+      fullFundingOnly: params.get('funding') === 'full',
+      minMonthlyStipend: params.get('stipendMin') && Number.isFinite(stipendMin) && stipendMin > 0 && stipendCurrency && isSupportedCurrency(stipendCurrency)
+        ? { amount: stipendMin, currency: stipendCurrency }
+        : null,
+      greOptional: params.get('gre') === 'not-required',
+      maxIelts: readPositiveNumber(params, 'ieltsMax'),
+      maxToefl: readPositiveNumber(params, 'toeflMax'),
+      hideIneligible: params.get('eligible') === '1',
+      openDeadlinesOnly: params.get('deadline') === 'open',
+      degreeTypes: readList(params, 'degree').filter(isDegreeType),
+      languages: readList(params, 'language'),
+      showAdvancedFilters: params.get('advanced') === '1'
+    },
+    table: {
+      sortConfig: sortColumn && isSortColumn(sortColumn) && (order === 'asc' || order === 'desc')
+        ? { column: sortColumn, direction: order }
+        : DEFAULT_SORT,
+      currentPage: Number.isInteger(page) && page > 1 ? page : 1,
+      visibleColumns: columns !== null
+        ? columns.split(',').filter(isUniversityColumn)
+        : null,
+      rankingSystem: params.get('rankingSystem')?.trim() || null
+    },
+    activeTab: tab && FINDER_TABS.includes(tab) ? tab : DEFAULT_VIEW_STATE.activeTab,
+    comparison: comparison
+      ? Array.from(new Set(comparison.split(',').filter(Boolean))).slice(0, MAX_COMPARE)
+      : [],
+    currency: currency && isSupportedCurrency(currency) ? currency : DEFAULT_VIEW_STATE.currency
+  }
+}